@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { analysisCacheService } from "@/services/analysis-cache.service";
+
+/**
+ * Handler for DELETE requests for invalidating cached analyses
+ *
+ * @async
+ * @function DELETE
+ * @param {NextRequest} req - The Next.js request object
+ * @returns {Promise<NextResponse>} JSON response saying what was cleared (`{ cleared: "key", key }` or `{ cleared: "all" }`)
+ *
+ * @description
+ * With a `key` query parameter (the `X-Analysis-Cache-Key` header of an analysis)
+ * only that entry is removed, without it the whole cache is cleared.
+ *
+ * @example
+ * // DELETE /api/analyze/cache?key=3f2a...
+ * // DELETE /api/analyze/cache
+ *
+ * @throws {Error} Returns an error 404 if:
+ * - The key is not in the cache
+ * @throws {Error} Returns an error 500 if:
+ * - The cache backend failed
+ */
+export async function DELETE(req: NextRequest) {
+  try {
+    const key = req.nextUrl.searchParams.get("key");
+
+    if (key) {
+      const removed = await analysisCacheService.invalidate(key);
+      if (!removed) {
+        return NextResponse.json({ error: "No cached analysis for this key" }, { status: 404 });
+      }
+      return NextResponse.json({ cleared: "key", key });
+    }
+
+    await analysisCacheService.clear();
+    return NextResponse.json({ cleared: "all" });
+  } catch (error) {
+    console.error("Error invalidating the analysis cache:", error);
+    return NextResponse.json(
+      { error: "Failed to invalidate the analysis cache" },
+      { status: 500 }
+    );
+  }
+}
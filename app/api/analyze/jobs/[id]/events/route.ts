@@ -0,0 +1,84 @@
+import { NextResponse } from "next/server";
+import { analysisJobsService } from "@/services/analysis-jobs.service";
+import { AnalysisJob } from "@/types/analysis-job";
+
+/**
+ * Interval of the comments that keep an idle stream open through proxies
+ * @constant {number} KEEP_ALIVE_INTERVAL
+ */
+const KEEP_ALIVE_INTERVAL = 15000;
+
+/**
+ * Handler for GET requests for the live updates of an analysis job
+ *
+ * @async
+ * @function GET
+ * @param {Request} req - The Next.js request object
+ * @param {Object} context - The route context with the job id
+ * @returns {Promise<Response>} Server-sent events stream of the job
+ *
+ * @description
+ * Sends the current state of the job at once, then a `job` event after every
+ * change (stage, queue position, result). The stream ends after the event of
+ * the finished (or cancelled) job, so a finished job gives one event.
+ *
+ * @example
+ * // GET /api/analyze/jobs/0b7c…/events
+ * // event: job
+ * // data: { "id": "0b7c…", "status": "running", "stage": "analyzing", "progress": 60, … }
+ *
+ * @throws {Error} Returns an error 404 if:
+ * - The job is unknown or expired
+ */
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const job = analysisJobsService.get(id);
+
+  if (!job) {
+    return NextResponse.json({ error: "Analysis job not found" }, { status: 404 });
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => { };
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let isClosed = false;
+
+      const send = (update: AnalysisJob) => {
+        if (isClosed) return;
+        controller.enqueue(encoder.encode(`event: job\ndata: ${JSON.stringify(update)}\n\n`));
+        if (update.status === "done" || update.status === "failed" || update.status === "cancelled") {
+          cleanup();
+          controller.close();
+        }
+      };
+
+      // Read and subscribed in the same tick, so no change is missed in between
+      const unsubscribe = analysisJobsService.subscribe(id, send);
+      const keepAlive = setInterval(() => controller.enqueue(encoder.encode(": keep-alive\n\n")), KEEP_ALIVE_INTERVAL);
+
+      cleanup = () => {
+        if (isClosed) return;
+        isClosed = true;
+        unsubscribe?.();
+        clearInterval(keepAlive);
+        req.signal.removeEventListener("abort", cleanup);
+      };
+      req.signal.addEventListener("abort", cleanup);
+
+      send(job);
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
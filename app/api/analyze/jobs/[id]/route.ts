@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server";
+import { analysisJobsService } from "@/services/analysis-jobs.service";
+
+/**
+ * Handler for GET requests for the state of an analysis job
+ *
+ * @async
+ * @function GET
+ * @param {Request} req - The Next.js request object
+ * @param {Object} context - The route context with the job id
+ * @returns {Promise<NextResponse>} JSON response with the job
+ *
+ * @description
+ * Reports the status (`queued`, `running`, `done`, `failed` or `cancelled`), the current
+ * stage, the progress in percent and, while queued, the number of jobs ahead.
+ * Finished jobs carry the result and are kept for `ANALYSIS_JOB_TTL` seconds
+ * (default one hour).
+ *
+ * @example
+ * // GET /api/analyze/jobs/0b7c…
+ * // { "job": { "id": "0b7c…", "status": "done", "progress": 100, "result": { "status": 200, "outcome": { … } }, … } }
+ *
+ * @throws {Error} Returns an error 404 if:
+ * - The job is unknown or expired
+ */
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const job = analysisJobsService.get(id);
+
+  if (!job) {
+    return NextResponse.json({ error: "Analysis job not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ job }, { headers: { "Cache-Control": "no-store" } });
+}
+
+/**
+ * Handler for DELETE requests cancelling an analysis job
+ *
+ * @async
+ * @function DELETE
+ * @param {Request} req - The Next.js request object
+ * @param {Object} context - The route context with the job id
+ * @returns {Promise<NextResponse>} JSON response with the job
+ *
+ * @description
+ * Removes a queued job from the queue or aborts the requests of a running
+ * one, so an abandoned analysis stops using the vision provider. The job is
+ * reported as `cancelled` with a 499 result. Finished jobs are returned
+ * unchanged.
+ *
+ * @example
+ * // DELETE /api/analyze/jobs/0b7c…
+ * // { "job": { "id": "0b7c…", "status": "cancelled", "result": { "status": 499, "error": "The analysis was cancelled" }, … } }
+ *
+ * @throws {Error} Returns an error 404 if:
+ * - The job is unknown or expired
+ */
+export async function DELETE(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const job = analysisJobsService.cancel(id);
+
+  if (!job) {
+    return NextResponse.json({ error: "Analysis job not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ job });
+}
@@ -0,0 +1,66 @@
+import { NextResponse } from "next/server";
+import { analysisJobsService, JobQueueFullError } from "@/services/analysis-jobs.service";
+import { analysisRunnerService } from "@/services/analysis-runner.service";
+
+/**
+ * Handler for POST requests for submitting an analysis job
+ *
+ * @async
+ * @function POST
+ * @param {Request} req - The Next.js request object
+ * @returns {Promise<NextResponse>} JSON response with the queued job or an error
+ *
+ * @description
+ * Takes the same form fields as `POST /api/analyze` and answers at once with
+ * the job, status 202 and a `Location` header. The analysis runs in the
+ * background, at most `ANALYSIS_JOB_CONCURRENCY` (default 2) at a time, so it
+ * may take longer than the client would wait for one request. A running job
+ * has `ANALYSIS_JOB_DEADLINE` seconds (default 300) before it ends with a 504
+ * `timeout` outcome. At most `ANALYSIS_JOB_MAX_QUEUED` (default 20) jobs wait
+ * in the queue, further jobs are refused until there is room.
+ * Follow the job with `GET /api/analyze/jobs/:id` or its event stream
+ * `GET /api/analyze/jobs/:id/events`. Once finished, `job.result` holds the
+ * status and body `/api/analyze` would have answered with.
+ *
+ * @example
+ * // POST /api/analyze/jobs (multipart/form-data: file, mode, samples, unitSystem, page)
+ * // 202 { "job": { "id": "…", "status": "queued", "stage": "queued", "progress": 42, "position": 0, … } }
+ *
+ * @throws {Error} Returns the errors 400, 413 and 415 of `POST /api/analyze`
+ * @throws {Error} Returns an error 503 with a `Retry-After` header if:
+ * - The queue is full
+ * @throws {Error} Returns an error 500 for all other errors
+ */
+export async function POST(req: Request) {
+  try {
+    // Check if the request contains multipart/form-data
+    if (!req.headers.get("Content-Type")?.includes("multipart/form-data")) {
+      return NextResponse.json(
+        { error: "Content type must be multipart/form-data" },
+        { status: 400 }
+      );
+    }
+
+    // Check the file and the options before queueing, invalid requests fail at once
+    const read = analysisRunnerService.readRequest(await req.formData());
+    if (!read.ok) {
+      return NextResponse.json(read.result.body, { status: read.result.status });
+    }
+
+    const job = analysisJobsService.submit(read.request);
+    return NextResponse.json(
+      { job },
+      { status: 202, headers: { Location: `/api/analyze/jobs/${job.id}` } }
+    );
+  } catch (error) {
+    if (error instanceof JobQueueFullError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 503, headers: { "Retry-After": String(error.retryAfterSeconds) } }
+      );
+    }
+
+    const { status, body } = analysisRunnerService.toErrorResult(error);
+    return NextResponse.json(body, { status });
+  }
+}
@@ -1,6 +1,9 @@
 import { NextResponse } from "next/server";
-import { aiAnalyzerService } from "@/services/ai-analyzer.service";
+import { analysisRunnerService } from "@/services/analysis-runner.service";
 import { unstable_noStore as noStore } from "next/cache";
+import { AnalysisStreamEvent } from "@/types/analysis-progress";
+import { AnalysisRequest } from "@/types/analysis-job";
+import { createDeadline, Deadline } from "@/lib/deadline";
 
 /**
  * Disables caching for this route
@@ -23,12 +26,12 @@ export const config = {
 }
 
 /**
- * Constants for file validation
- * @constant {number} MAX_FILE_SIZE - The maximum file size (5MB)
- * @constant {string[]} ALLOWED_FILE_TYPES - Allowed file types
+ * Time budget of an analysis in seconds (`ANALYSIS_DEADLINE`, default 25)
+ * Leaves room for the response within the 30s timeout of the client
+ * 
+ * @constant {number} DEADLINE_SECONDS
  */
-const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
-const ALLOWED_FILE_TYPES = ["image/jpeg", "image/png", "image/webp"];
+const DEADLINE_SECONDS = Number(process.env.ANALYSIS_DEADLINE) > 0 ? Number(process.env.ANALYSIS_DEADLINE) : 25;
 
 
 /**
@@ -37,17 +40,81 @@ const ALLOWED_FILE_TYPES = ["image/jpeg", "image/png", "image/webp"];
  * @async
  * @function POST
  * @param {Request} req - The Next.js request object
- * @returns {Promise<NextResponse>} JSON response with analysis results or an error
+ * @returns {Promise<NextResponse>} JSON response with the analysis outcome or an error
+ * 
+ * The optional `mode` form field selects the analysis mode:
+ * - `standard` (default) - one low-detail request
+ * - `high_fidelity` - an overview plus overlapping high-detail tiles, slower but reads small labels
+ * 
+ * The optional `samples` form field (1-5) runs an ensemble analysis:
+ * the median of the sampled scores plus their spread in `analysis.ensemble`.
+ * 
+ * PDFs are rasterized locally: the optional `page` form field (default 1) selects
+ * the page, which is rendered at the size the analysis mode makes use of
+ * (see `/api/pdf/pages` for the page thumbnails).
+ * 
+ * DXF and SVG drawings are read as geometry: walls, doors, windows and labels
+ * give the rooms, their areas and which rooms connect. The drawing is rendered
+ * for the model, which only adds the scores, room types and findings.
+ * The analysis keeps the exact rooms and lists the openings and adjacent rooms
+ * in `analysis.geometry`.
+ * 
+ * The optional `unitSystem` form field (`metric` by default or `imperial`) sets the
+ * units the findings are written in and is stored as `analysis.unitSystem`.
+ * 
+ * Before the analysis the image is preprocessed (orientation, metadata, skew,
+ * margins, contrast and size, see `ImagePreprocessorService`). Successful outcomes
+ * include the processed image in `outcome.image`, which is what the model saw
+ * and what the room bounds refer to.
+ * 
+ * Successful analyses are cached by image content and analyzer version.
+ * The `X-Analysis-Cache` header is `HIT`, `MISS` or `DISABLED`, and
+ * `X-Analysis-Cache-Key` carries the key for `DELETE /api/analyze/cache`.
+ * 
+ * With `Accept: application/x-ndjson` the response is a stream of JSON lines:
+ * `{ type: "stage" }` events (`received`, `preprocessing`, `analyzing`,
+ * `validating`), `{ type: "partial" }` events while the model answers and
+ * finally `{ type: "result" }` with the status and body the plain JSON
+ * response would have had. A partial event holds the scores once they are
+ * complete and the recommendations completed so far; it replaces the previous
+ * one, so a retried model call starts over. Ensemble analyses send no partial
+ * events, and cached analyses are answered without them. Request errors (400, 413, 415) are still
+ * plain JSON responses, and streamed responses carry no cache headers.
+ * 
+ * Closing the connection cancels the analysis: the requests to the vision
+ * provider are aborted and nothing is cached.
+ * 
+ * The analysis has `ANALYSIS_DEADLINE` seconds (default 25) from the moment the
+ * upload is read, preprocessing and model retries included. Retries that
+ * cannot finish in time are skipped, and when the time is up the requests are
+ * aborted and the response is a 504 with a `timeout` outcome.
+ * 
+ * For analyses that may outlast the client timeout, `POST /api/analyze/jobs`
+ * takes the same form fields and runs the analysis as a background job.
  * 
  * @throws {Error} Returns an error 400 if:
  * - The Content-Type is invalid
  * - The file is missing
+ * - The mode is unknown
+ * - The number of samples is out of range
+ * - The unit system is unknown
+ * - The page is not a whole number from 1
  * @throws {Error} Returns an error 415 if:
  * - The file type is not supported
  * @throws {Error} Returns an error 413 if:
  * - The file size exceeds the maximum limit
- * @throws {Error} Returns an error 504 if:
- * - The analysis timeout is exceeded
+ * @throws {Error} Returns an error 422 if:
+ * - The image cannot be decoded
+ * - The PDF cannot be read or does not have the page
+ * - The drawing cannot be read or has no walls
+ * - The image is not a floor plan (with the outcome)
+ * @throws {Error} Returns an error 502 with the outcome if:
+ * - The vision provider failed or returned unusable output
+ * @throws {Error} Returns an error 499 if:
+ * - The client closed the connection before the analysis finished
+ * @throws {Error} Returns an error 504 with the `timeout` outcome if:
+ * - The deadline of the analysis is exceeded
+ * - The vision provider did not answer in time
  * @throws {Error} Returns an error 500 for all other errors
  */
 export async function POST(req: Request) {
@@ -60,66 +127,77 @@ export async function POST(req: Request) {
       );
     }
 
-    // Get the form data and extract the file
-    const formData = await req.formData();
-    const file = formData.get("file") as File;
-
-    // Check if the file is present
-    if (!file) {
-      return NextResponse.json({ error: "No file uploaded" }, { status: 400 });
-    };
-
-    // Check if the file type is supported
-    if (!ALLOWED_FILE_TYPES.includes(file.type)) {
-      return NextResponse.json(
-        { error: `File type ${file.type} not supported. Please upload JPEG, PNG or WebP` },
-        { status: 415 }
-      );
+    // Get the form data and check the file and the options
+    const read = analysisRunnerService.readRequest(await req.formData());
+    if (!read.ok) {
+      return NextResponse.json(read.result.body, { status: read.result.status });
     }
 
-    // Check if the file size exceeds the maximum limit
-    if (file.size > MAX_FILE_SIZE) {
-      return NextResponse.json(
-        { error: "File size too large. Maximum size is 5MB" },
-        { status: 413 }
-      );
-    }
-
-    // Log the file information
-    console.log("Processing file: ", {
-      name: file.name,
-      type: file.type,
-      size: `${(file.size / 1024 / 1024).toFixed(2)}MB`,
-      timestamp: new Date().toISOString(),
-    });
-
-    // Convert the file to base64 for sending to the analysis service
-    const bytes = await file.arrayBuffer();
-    const base64 = Buffer.from(bytes).toString("base64");
-    const imageUrl = `data:${file.type};base64,${base64}`;
-
-    // Create a promise for the analysis
-    const parsedAnalysis = await aiAnalyzerService.analyzeImage(imageUrl);
+    // The budget starts once the upload is read
+    const deadline = createDeadline(DEADLINE_SECONDS * 1000);
 
+    // Report the stages as they happen when the client asks for a stream
+    if (req.headers.get("Accept")?.includes("application/x-ndjson")) {
+      return streamAnalysis(read.request, req.signal, deadline);
+    }
 
-    return NextResponse.json({ parsedAnalysis }, { status: 200 });
+    const { status, body, headers } = await analysisRunnerService.run(read.request, {}, { signal: req.signal, deadline });
+    return NextResponse.json(body, { status, headers });
   } catch (error) {
-    console.error("Error processing request:", {
-      error: error instanceof Error ? error.message : "Unknown error",
-      timestamp: new Date().toISOString(),
-    });
-
-    // Determine the status code based on the error
-    const statusCode = error instanceof Error && error.message.includes("Analysis timeout")
-      ? 504 // Gateway timeout
-      : 500; // Internal server error
-
-    // Determine the error message based on the environment
-    const errorMessage = process.env.NODE_ENV === 'development'
-      ? error instanceof Error ? error.message : 'Unknown error'
-      : 'An error occurred while processing your request';
+    // The client went away during the upload (499, client closed request)
+    if (req.signal.aborted) {
+      return NextResponse.json({ error: "The analysis was cancelled" }, { status: 499 });
+    }
 
-    return NextResponse.json({ error: errorMessage }, { status: statusCode });
+    const { status, body } = analysisRunnerService.toErrorResult(error);
+    return NextResponse.json(body, { status });
   }
 }
 
+/**
+ * Streams the stages of an analysis as newline-delimited JSON, the result is the last line
+ * 
+ * The analysis is cancelled when the request is aborted or the stream is cancelled by the reader.
+ * 
+ * @function streamAnalysis
+ * @param {AnalysisRequest} request - The file and the analysis options
+ * @param {AbortSignal} signal - The signal of the request
+ * @param {Deadline} deadline - The time budget of the analysis
+ * @returns {Response} The streamed response
+ */
+function streamAnalysis(request: AnalysisRequest, signal: AbortSignal, deadline: Deadline): Response {
+  const encoder = new TextEncoder();
+  const cancellation = new AbortController();
+  const cancelled = AbortSignal.any([signal, cancellation.signal]);
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      // Nothing can be sent once the reader is gone
+      const send = (event: AnalysisStreamEvent) => {
+        if (cancelled.aborted) return;
+        controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+      };
+
+      // The form data is read completely before the stream starts
+      send({ type: "stage", stage: "received" });
+      const { status, body } = await analysisRunnerService.run(request, {
+        onStage: stage => send({ type: "stage", stage }),
+        onPartial: analysis => send({ type: "partial", analysis }),
+      }, { signal: cancelled, deadline });
+
+      if (cancelled.aborted) return;
+      send({ type: "result", status, ...body });
+      controller.close();
+    },
+    cancel() {
+      cancellation.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "application/x-ndjson; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+    },
+  });
+}
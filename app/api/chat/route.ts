@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
 import { aiChatService } from "@/services/ai-chat.service";
+import { UNIT_SYSTEMS } from "@/lib/floor-plan-schema";
 
 /**
  * Handler for POST requests for chat interaction
@@ -7,13 +8,20 @@ import { aiChatService } from "@/services/ai-chat.service";
  * @async
  * @function POST
  * @param {Request} req - The Next.js request object
- * @returns {Promise<NextResponse>} JSON response with the assistant's message or an error
+ * @returns {Promise<NextResponse>} JSON response with the assistant's message and its prompt versions, or an error
  * 
  * @description
  * The route handles requests for generating responses in the chat.
  * Expects a JSON with the following fields:
  * - message: the text of the user's message
- * - context: an object containing the analysis of the floor plan and the history of messages
+ * - context: an object containing the analysis of the floor plan, the history of messages
+ *   and optionally the unit system for the answer (`metric` or `imperial`,
+ *   defaults to the unit system of the analysis), the property (all floors
+ *   with their analyses and the property-level summary) for multi-floor homes
+ *   and the comparison (both analyses and the diff from `/api/compare`) for
+ *   questions about a renovation
+ * 
+ * Closing the connection cancels the request to OpenAI.
  * 
  * @example
  * // Example request body:
@@ -21,13 +29,19 @@ import { aiChatService } from "@/services/ai-chat.service";
  *   "message": "Tell me about the lighting in the living room",
  *   "context": {
  *     "analysis": { ... },
- *     "previousMessages": [ ... ]
+ *     "previousMessages": [ ... ],
+ *     "unitSystem": "imperial"
  *   }
  * }
  * 
  * @throws {Error} Returns an error 400 if:
  * - The message is missing
  * - The context is missing
+ * - The unit system is unknown
+ * - The property has no floors
+ * - The comparison is missing an analysis or the diff
+ * @throws {Error} Returns an error 499 if:
+ * - The request was aborted by the client
  * @throws {Error} Returns an error 500 if:
  * - An error occurs while generating the response
  */
@@ -45,12 +59,35 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: "Context is required" }, { status: 400 });
     }
 
+    // Check if the unit system is supported
+    if (context.unitSystem !== undefined && !UNIT_SYSTEMS.includes(context.unitSystem)) {
+      return NextResponse.json(
+        { error: `Unknown unit system. Expected one of: ${UNIT_SYSTEMS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+
+    // Check if the property has floors to talk about
+    if (context.property !== undefined && (!Array.isArray(context.property?.floors) || context.property.floors.length === 0)) {
+      return NextResponse.json({ error: "Property must have at least one floor" }, { status: 400 });
+    }
+
+    // Check if the comparison has both plans and their diff
+    if (context.comparison !== undefined && !(context.comparison?.before && context.comparison.after && context.comparison.diff)) {
+      return NextResponse.json({ error: "Comparison must include the before and after analyses and the diff" }, { status: 400 });
+    }
 
     // Generate the assistant message
-    const assistantMessage = await aiChatService.generateResponse(message, context);
+    const reply = await aiChatService.generateResponse(message, context, req.signal);
 
-    return NextResponse.json({ text: assistantMessage });
+    return NextResponse.json(reply);
   } catch (error) {
+    // The client went away, nobody reads the answer (499, client closed request)
+    if (req.signal.aborted) {
+      return NextResponse.json({ error: "Chat message was cancelled" }, { status: 499 });
+    }
+
     console.error("Chat API Error:", error);
 
     // Return a general error message
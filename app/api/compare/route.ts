@@ -0,0 +1,78 @@
+import { NextResponse } from "next/server";
+import { validateFloorPlanAnalysis } from "@/lib/floor-plan-schema";
+import { getRubric } from "@/lib/rubrics";
+import { comparePlans } from "@/lib/comparison";
+
+/**
+ * Handler for POST requests for comparing two floor plan analyses
+ *
+ * @async
+ * @function POST
+ * @param {Request} req - The Next.js request object
+ * @returns {Promise<NextResponse>} JSON response with the comparison or an error
+ *
+ * @description
+ * Compares the analysis of an existing layout with the analysis of a proposed
+ * renovation, both as returned by `/api/analyze`. The response is a structured
+ * diff: score deltas per rubric dimension and on average, the change in total
+ * area (when both plans are measured) and the recommendations sorted into
+ * resolved, new and unchanged.
+ *
+ * @example
+ * // Example request body:
+ * {
+ *   "before": { ... },
+ *   "after": { ... }
+ * }
+ *
+ * @throws {Error} Returns an error 400 if:
+ * - The analyses are scored with an unknown rubric or with different rubrics
+ * - One of the analyses is missing or does not match the analysis schema
+ * @throws {Error} Returns an error 500 if:
+ * - An error occurs while comparing
+ */
+export async function POST(req: Request) {
+  try {
+    const { before, after } = await req.json();
+
+    // Check if both analyses are scored with the same, known rubric
+    const rubric = getRubric(before?.rubricId);
+    if (!rubric) {
+      return NextResponse.json({ error: "The \"before\" analysis uses an unknown rubric" }, { status: 400 });
+    }
+
+    if (after?.rubricId !== rubric.id) {
+      return NextResponse.json(
+        { error: "Both analyses must be scored with the same rubric" },
+        { status: 400 }
+      );
+    }
+
+    // Check if both analyses match the schema
+    const beforeResult = validateFloorPlanAnalysis(before, rubric);
+    if (!beforeResult.success) {
+      return NextResponse.json(
+        { error: "Invalid \"before\" analysis", errors: beforeResult.errors },
+        { status: 400 }
+      );
+    }
+
+    const afterResult = validateFloorPlanAnalysis(after, rubric);
+    if (!afterResult.success) {
+      return NextResponse.json(
+        { error: "Invalid \"after\" analysis", errors: afterResult.errors },
+        { status: 400 }
+      );
+    }
+
+    const comparison = comparePlans(beforeResult.data, afterResult.data);
+
+    return NextResponse.json({ comparison });
+  } catch (error) {
+    console.error("Compare API Error:", error);
+    return NextResponse.json(
+      { error: "Failed to compare the analyses." },
+      { status: 500 }
+    );
+  }
+}
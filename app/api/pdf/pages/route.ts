@@ -0,0 +1,88 @@
+import { NextResponse } from "next/server";
+import { PdfRenderError, pdfRendererService } from "@/services/pdf-renderer.service";
+
+/**
+ * Maximum size of an uploaded PDF (10MB)
+ * @constant {number} MAX_PDF_SIZE
+ */
+const MAX_PDF_SIZE = 10 * 1024 * 1024;
+
+/**
+ * Handler for POST requests for listing the pages of a PDF floor plan
+ *
+ * @async
+ * @function POST
+ * @param {Request} req - The Next.js request object
+ * @returns {Promise<NextResponse>} JSON response with the pages or an error
+ *
+ * @description
+ * Renders a thumbnail of every page, so the user can pick the page(s)
+ * to analyze. The chosen page is then sent to `/api/analyze` with the
+ * PDF and its number in the `page` form field.
+ *
+ * @example
+ * // Example response:
+ * {
+ *   "pages": [{ "number": 1, "width": 842, "height": 595, "thumbnailUrl": "data:image/png;base64,..." }]
+ * }
+ *
+ * @throws {Error} Returns an error 400 if:
+ * - The Content-Type is invalid
+ * - The file is missing
+ * @throws {Error} Returns an error 415 if:
+ * - The file is not a PDF
+ * @throws {Error} Returns an error 413 if:
+ * - The file size exceeds the maximum limit
+ * @throws {Error} Returns an error 422 if:
+ * - The PDF cannot be read, is password protected or has too many pages
+ * @throws {Error} Returns an error 500 for all other errors
+ */
+export async function POST(req: Request) {
+  try {
+    if (!req.headers.get("Content-Type")?.includes("multipart/form-data")) {
+      return NextResponse.json(
+        { error: "Content type must be multipart/form-data" },
+        { status: 400 }
+      );
+    }
+
+    const formData = await req.formData();
+    const file = formData.get("file") as File;
+
+    if (!file) {
+      return NextResponse.json({ error: "No file uploaded" }, { status: 400 });
+    }
+
+    if (file.type !== "application/pdf") {
+      return NextResponse.json(
+        { error: `File type ${file.type} not supported. Please upload a PDF` },
+        { status: 415 }
+      );
+    }
+
+    if (file.size > MAX_PDF_SIZE) {
+      return NextResponse.json(
+        { error: "File size too large. Maximum size is 10MB" },
+        { status: 413 }
+      );
+    }
+
+    const pages = await pdfRendererService.getPages(await file.arrayBuffer());
+
+    return NextResponse.json({ pages }, { status: 200 });
+  } catch (error) {
+    if (error instanceof PdfRenderError) {
+      return NextResponse.json({ error: error.message }, { status: 422 });
+    }
+
+    console.error("Error reading PDF pages:", {
+      error: error instanceof Error ? error.message : "Unknown error",
+      timestamp: new Date().toISOString(),
+    });
+
+    return NextResponse.json(
+      { error: "An error occurred while reading the PDF" },
+      { status: 500 }
+    );
+  }
+}
@@ -19,6 +19,7 @@ export const revalidate = 0;
  * @description
  * The route uses the Deepgram API to convert text to speech.
  * Supports the aura-asteria-en model for natural sounding speech.
+ * Closing the connection cancels the request to Deepgram.
  * 
  * @example
  * // Example request body:
@@ -26,6 +27,8 @@ export const revalidate = 0;
  *   "text": "Text to convert to speech"
  * }
  * 
+ * @throws {Error} Returns an error 499 if:
+ * - The request was aborted by the client
  * @throws {Error} Returns an error 500 if:
  * - The DEEPGRAM_API_KEY is missing
  * - Failed to generate audio
@@ -34,7 +37,14 @@ export const revalidate = 0;
 export async function POST(request: NextRequest) {
   try {
     // Check if the DEEPGRAM_API_KEY is present
-    const deepgram = createClient(process.env.DEEPGRAM_API_KEY ?? "");
+    // The SDK takes no signal per request, its fetch is bound to the signal of this request
+    const deepgram = createClient(process.env.DEEPGRAM_API_KEY ?? "", {
+      global: {
+        fetch: {
+          client: (input: RequestInfo | URL, init?: RequestInit) => fetch(input, { ...init, signal: request.signal }),
+        },
+      },
+    });
 
     // Get the text from the request body
     const { text } = await request.json();
@@ -65,6 +75,11 @@ export async function POST(request: NextRequest) {
       },
     });
   } catch (error) {
+    // The client went away, nobody plays the audio (499, client closed request)
+    if (request.signal.aborted) {
+      return NextResponse.json({ error: "Speech generation was cancelled" }, { status: 499 });
+    }
+
     // Log the error
     console.error("TTS API error:", error);
 
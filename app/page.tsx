@@ -1,17 +1,89 @@
 "use client";
 
-import { useState } from "react";
+import { useMemo, useRef, useState } from "react";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
 import { UploadArea } from "@/components/upload-area";
 import { MessageSquare } from "lucide-react";
 import { ChatInterface } from "@/components/chat-interface";
 import Analysis from "@/components/analysys";
-import { FloorPlanAnalysis } from "@/types/floor-analysis";
+import { AnalysisFailureStatus, AnalysisMode, AnalysisOutcome, PartialAnalysis, PlanScale } from "@/types/floor-analysis";
+import { PropertyChatContext } from "@/types/property";
+import { ComparisonChatContext, ComparisonSide } from "@/types/comparison";
+import { PdfPage } from "@/types/pdf";
+import { AnalysisProgress } from "@/types/analysis-progress";
+import { applyScale } from "@/lib/measurements";
+import { comparePlans } from "@/lib/comparison";
+import { getActiveRevision } from "@/lib/property-analysis";
+import { getVectorFormat } from "@/lib/vector-plan";
 import { apiService } from "@/services/api.service";
 import { useFloorPlanChat } from "@/hooks/use-floor-plan-chat";
+import { useUnitSystem } from "@/hooks/use-unit-system";
+import { defaultFloorLabel, useProperty } from "@/hooks/use-property";
+import { usePlanComparison } from "@/hooks/use-plan-comparison";
+import { useBatchQueue } from "@/hooks/use-batch-queue";
+import { UnitSystemToggle } from "@/components/unit-system-toggle";
+import { FloorSwitcher } from "@/components/property/floor-switcher";
+import { PropertySummary } from "@/components/property/property-summary";
+import { ComparisonView } from "@/components/comparison/comparison-view";
+import { RevisionTimeline } from "@/components/revisions/revision-timeline";
+import { PdfPagePicker } from "@/components/pdf/pdf-page-picker";
+import { BatchQueue } from "@/components/batch/batch-queue";
+import { BatchSummary } from "@/components/batch/batch-summary";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { toast } from "sonner";
 
+/**
+ * Messages shown to the user for each failed analysis outcome
+ */
+const FAILURE_MESSAGES: Record<AnalysisFailureStatus, { title: string; description: string }> = {
+  not_floor_plan: {
+    title: "The uploaded image is not a floor plan. Please try again with a valid floor plan image.",
+    description: "Floor plans should include rooms, walls, and other structural elements.",
+  },
+  provider_error: {
+    title: "The analysis service is unavailable right now.",
+    description: "Please try again in a few moments.",
+  },
+  invalid_output: {
+    title: "We couldn't read the analysis for this floor plan.",
+    description: "The AI returned an incomplete result. Please try again.",
+  },
+  timeout: {
+    title: "The analysis took too long.",
+    description: "Try a smaller or clearer image, or try again later.",
+  },
+};
+
+/**
+ * Number of samples combined when stable scores are requested
+ */
+const ENSEMBLE_SAMPLES = 3;
+
+/**
+ * Tabs of the main page
+ */
+type PageTab = "upload" | "analysis" | "compare" | "batch";
+
+/**
+ * PDF with several pages waiting for the user to pick the page(s) to analyze
+ * `side` is the side of the comparison it was uploaded to, or null for a floor
+ */
+type PdfSelection = { file: File; pages: PdfPage[]; side: ComparisonSide | null };
+
+/**
+ * Shows the reason of a failed analysis to the user
+ * 
+ * @param {AnalysisOutcome} outcome - The failed outcome
+ */
+const showFailure = (outcome: Exclude<AnalysisOutcome, { status: "ok" }>) => {
+  const { title, description } = FAILURE_MESSAGES[outcome.status];
+  toast.error(title, {
+    description: outcome.status === "not_floor_plan" ? outcome.message || description : description,
+    duration: 5000, // 5 seconds
+  });
+};
 
 /**
  * Main page of the application for analyzing floor plans
@@ -27,116 +99,450 @@ import { toast } from "sonner";
 
 
 export default function Home() {
-  // States for managing the uploaded file and its URL
-  const [, setUploadedFile] = useState<File | null>(null);
-  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  // Floors of the property with their images and analyses
+  const {
+    floors,
+    activeFloor,
+    activeRevision,
+    propertyAnalysis,
+    setActiveFloorId,
+    addFloor,
+    addRevision,
+    setActiveRevision,
+    updateFloorAnalysis,
+    renameFloor,
+    moveFloor,
+    removeFloor,
+    resetProperty,
+  } = useProperty();
+  const analysis = activeRevision?.analysis ?? null;
+  // Label of the next floor to upload
+  const [floorLabel, setFloorLabel] = useState("");
+  // Floor the next upload is a revision of, or null for a new floor
+  const [revisionTargetId, setRevisionTargetId] = useState<string | null>(null);
+  // Two revisions of the active floor opened side by side
+  const [revisionPair, setRevisionPair] = useState<{ before: number; after: number } | null>(null);
 
   // States for managing the tabs and analysis
-  const [activeTab, setActiveTab] = useState<"upload" | "analysis">("upload");
-  const [analysis, setAnalysis] = useState<FloorPlanAnalysis | null>(null);
+  const [activeTab, setActiveTab] = useState<PageTab>("upload");
+  // State for showing the property overview instead of a single floor
+  const [isPropertyView, setIsPropertyView] = useState(false);
+  // State for the analysis mode chosen by the user
+  const [analysisMode, setAnalysisMode] = useState<AnalysisMode>("standard");
+  // State for the ensemble option, combines several samples for steadier scores
+  const [isEnsemble, setIsEnsemble] = useState(false);
+  // Unit system preference, saved in the browser
+  const { unitSystem, setUnitSystem } = useUnitSystem();
 
   // States for tracking the upload and analysis process
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [isUploaded, setIsUploaded] = useState(false);
+  // Upload and analysis progress of the current request
+  const [progress, setProgress] = useState<AnalysisProgress | null>(null);
+  // Scores and findings of the current request received so far, with the image to show them on
+  const [streamed, setStreamed] = useState<{ analysis: PartialAnalysis; imageUrl: string } | null>(null);
+  // Cancels the analysis in progress, on the server too
+  const analysisControllerRef = useRef<AbortController | null>(null);
+  // Cancels the analysis in progress of each side of the comparison
+  const comparisonControllersRef = useRef<Partial<Record<ComparisonSide, AbortController>>>({});
+  // PDF whose pages are being read, and one waiting for the user to pick its pages
+  const [isReadingPdf, setIsReadingPdf] = useState(false);
+  const [pdfSelection, setPdfSelection] = useState<PdfSelection | null>(null);
+
+  // Existing layout and proposal of the before/after comparison
+  const {
+    plans: comparedPlans,
+    analyzingSide,
+    analyzingProgress,
+    comparison,
+    isComparing,
+    compareError,
+    analyzePlan,
+    removePlan,
+  } = usePlanComparison();
+
+  // Plans of a batch upload, analyzed with the same options as single uploads
+  const {
+    items: batchItems,
+    isFinished: isBatchFinished,
+    addFiles: addBatchFiles,
+    cancel: cancelBatchItem,
+    retry: retryBatchItem,
+    remove: removeBatchItem,
+    clear: clearBatch,
+  } = useBatchQueue({
+    mode: analysisMode,
+    samples: isEnsemble ? ENSEMBLE_SAMPLES : undefined,
+    unitSystem,
+  });
+  // Plan of the batch whose full analysis is open
+  const [selectedBatchId, setSelectedBatchId] = useState<string | null>(null);
+  const selectedBatchItem = batchItems.find(item => item.id === selectedBatchId && item.analysis) ?? null;
+
+  // All floors for the chat, so questions can span the whole property
+  const propertyContext = useMemo<PropertyChatContext | null>(
+    () => propertyAnalysis && activeFloor
+      ? {
+        activeFloor: activeFloor.label,
+        floors: floors.map(floor => ({
+          label: floor.label,
+          order: floor.order,
+          analysis: getActiveRevision(floor).analysis,
+        })),
+        summary: propertyAnalysis,
+      }
+      : null,
+    [floors, activeFloor, propertyAnalysis]
+  );
+
+  // Two revisions of the active floor and their diff, while they are side by side
+  const revisionComparison = useMemo<ComparisonChatContext | null>(() => {
+    const before = activeFloor?.revisions.find(revision => revision.number === revisionPair?.before);
+    const after = activeFloor?.revisions.find(revision => revision.number === revisionPair?.after);
+    if (!before || !after || before.analysis.rubricId !== after.analysis.rubricId) return null;
+
+    return { before: before.analysis, after: after.analysis, diff: comparePlans(before.analysis, after.analysis) };
+  }, [activeFloor, revisionPair]);
+
+  // Both plans and their diff for the chat, while a comparison is on screen
+  const comparisonContext = useMemo<ComparisonChatContext | null>(() => {
+    if (activeTab === "compare") {
+      return comparison && comparedPlans.before && comparedPlans.after
+        ? { before: comparedPlans.before.analysis, after: comparedPlans.after.analysis, diff: comparison }
+        : null;
+    }
+    return activeTab === "analysis" && !isPropertyView ? revisionComparison : null;
+  }, [activeTab, comparison, comparedPlans, isPropertyView, revisionComparison]);
+
+  // Each revision keeps its own conversation, as do the compared plans
+  const conversationId = activeTab === "compare"
+    ? "comparison"
+    : comparisonContext && activeFloor
+      ? `${activeFloor.id}:r${revisionPair?.before}-r${revisionPair?.after}`
+      : activeFloor && activeRevision
+        ? `${activeFloor.id}:r${activeRevision.number}`
+        : "default";
 
   // Hook for managing the chat interface and AI assistant
   // Uses floorplan analysis data to provide better responses
-  const { messages, isTyping, sendMessage } = useFloorPlanChat({
-    floorplanAnalysis: analysis,
+  const { messages, isTyping, sendMessage, cancelMessage } = useFloorPlanChat({
+    floorplanAnalysis: comparisonContext?.after ?? analysis,
+    unitSystem,
+    property: comparisonContext ? null : propertyContext,
+    comparison: comparisonContext,
+    conversationId,
   });
 
 
   /**
-   * Handler for uploading the floor plan file
+   * Analyzes one floor plan and adds it to the property
+   * 
+   * Adds a new floor, or a revision when a floor is chosen as the target.
+   * The processed image the model saw is shown, the upload stays available next to it.
+   * 
+   * @param {File} file - The floor plan image or PDF
+   * @param {string} label - The label of a new floor
+   * @param {PdfPage} [page] - The page of a PDF to analyze
+   * @param {AbortSignal} [signal] - Cancels the analysis
+   * @returns {Promise<boolean>} True, if the floor was added
+   */
+  const analyzeFloor = async (file: File, label: string, page?: PdfPage, signal?: AbortSignal): Promise<boolean> => {
+    // PDFs and DXF drawings cannot be shown as an image, the rendered page or drawing stands in for the upload
+    const imageUrl = page || getVectorFormat(file) === "dxf" ? null : URL.createObjectURL(file);
+    const previewUrl = imageUrl ?? page?.thumbnailUrl ?? "";
+
+    try {
+      const outcome = await apiService.analyzeImage(file, {
+        mode: analysisMode,
+        samples: isEnsemble ? ENSEMBLE_SAMPLES : undefined,
+        unitSystem,
+        page: page?.number,
+        onProgress: setProgress,
+        onPartial: analysis => setStreamed({ analysis, imageUrl: previewUrl }),
+        signal,
+      });
+
+      // If the analysis failed, show the reason to the user
+      if (outcome.status !== "ok") {
+        if (imageUrl) URL.revokeObjectURL(imageUrl);
+        showFailure(outcome);
+        return false;
+      }
+
+      const shownUrl = outcome.image?.imageUrl ?? imageUrl ?? page?.thumbnailUrl ?? "";
+      const originalUrl = outcome.image ? imageUrl ?? undefined : undefined;
+
+      if (revisionTargetId && floors.some(floor => floor.id === revisionTargetId)) {
+        addRevision(revisionTargetId, shownUrl, outcome.analysis, originalUrl);
+      } else {
+        addFloor(label, shownUrl, outcome.analysis, originalUrl);
+      }
+      return true;
+    } catch (error) {
+      if (imageUrl) URL.revokeObjectURL(imageUrl);
+      throw error;
+    } finally {
+      setStreamed(null);
+    }
+  };
+
+  /**
+   * Analyzes an upload, or the picked pages of a PDF, as the next floor(s)
    * 
    * The function performs the following actions:
-   * 1. Creates a URL for previewing the uploaded image
-   * 2. Updates the file upload state
-   * 3. Sends the file to analysis through the API service
-   * 4. Processes the analysis results and updates the UI
+   * 1. Updates the file upload state
+   * 2. Sends each image or page to analysis through the API service
+   * 3. Adds the analyzed floors (or a revision of a floor) to the property and updates the UI
    * 
-   * @param {File} file - Uploaded floor plan image file
-   * @throws {Error} Can throw an error if there are problems with uploading or analyzing the file
-   * @returns {Promise<void>}
+   * Several PDF pages become one floor each, labeled in page order.
+   * Cancelling stops at the current page, the floors analyzed before it are kept.
    * 
-   * @remarks
-   * This function is used to upload the floor plan file and analyze it
-   * - Automatically switches to the analysis tab after successful processing
-   * - Manages the loading state through isAnalyzing
-   * - Releases resources when an error occurs
+   * @param {File} file - Uploaded floor plan image or PDF
+   * @param {(PdfPage | undefined)[]} pages - The PDF pages, or `[undefined]` for an image
+   * @returns {Promise<void>}
    */
-  const handleUpload = async (file: File) => {
-    if (!file) return;
-
-    const imageUrl = URL.createObjectURL(file);
-    setUploadedFile(file);
-    setImageUrl(imageUrl);
+  const analyzeFloors = async (file: File, pages: (PdfPage | undefined)[]) => {
+    const controller = new AbortController();
+    analysisControllerRef.current = controller;
     setIsUploaded(true);
+    setIsAnalyzing(true);
 
     try {
-      setIsAnalyzing(true);
+      const label = floorLabel.trim();
+      let added = 0;
 
-      const parsedAnalysis = await apiService.analyzeImage(file);
+      for (const page of pages) {
+        const pageLabel = pages.length === 1 || !page
+          ? label || defaultFloorLabel(floors.length)
+          : label ? `${label} (page ${page.number})` : defaultFloorLabel(floors.length + added);
 
-      // If the image is not a floor plan, show a message to the user
-      const isValidFloorPlan = Object.values(parsedAnalysis.scores).some(
-        score => score > 0
-      );
+        if (await analyzeFloor(file, pageLabel, page, controller.signal)) added++;
+      }
 
-      if (!isValidFloorPlan) {
-        setUploadedFile(null);
-        setImageUrl(prev => {
-          if (prev) URL.revokeObjectURL(prev);
-          return null;
-        });
+      if (added === 0) {
         setIsUploaded(false);
-        setIsAnalyzing(false);
-        setAnalysis(null);
         setActiveTab("upload");
-
-
-        // Show a toast message to the user
-        toast.error(
-          "The uploaded image is not a floor plan. Please try again with a valid floor plan image.",
-          {
-            description: "Floor plans should include rooms, walls, and other structural elements.",
-            duration: 5000, // 5 seconds
-          }
-        );
-
         return;
       }
 
-      setAnalysis(parsedAnalysis);
+      setFloorLabel("");
+      setRevisionTargetId(null);
+      setRevisionPair(null);
+      setIsUploaded(false);
+      setIsPropertyView(false);
       setActiveTab("analysis");
     } catch (error) {
+      setIsUploaded(false);
+
+      // Cancelled by the user, nothing went wrong
+      if (controller.signal.aborted) {
+        toast("Analysis cancelled");
+        return;
+      }
+
       console.error("Error uploading file:", error);
     } finally {
+      analysisControllerRef.current = null;
       setIsAnalyzing(false);
+      setProgress(null);
+    }
+  };
+
+  /**
+   * Reads the pages of an uploaded PDF
+   * A single page is analyzed right away, several pages open the page picker
+   * 
+   * @param {File} file - The PDF
+   * @param {ComparisonSide | null} side - The side of the comparison, or null for a floor
+   * @returns {Promise<PdfPage | null>} The only page of the PDF, or null if the picker opened or reading failed
+   */
+  const readPdf = async (file: File, side: ComparisonSide | null): Promise<PdfPage | null> => {
+    setIsReadingPdf(true);
+
+    try {
+      const pages = await apiService.getPdfPages(file);
+      if (pages.length === 1) return pages[0];
+
+      setPdfSelection({ file, pages, side });
+      return null;
+    } catch (error) {
+      toast.error("We couldn't read this PDF.", {
+        description: error instanceof Error ? error.message : "Please try again with another file.",
+        duration: 5000, // 5 seconds
+      });
+      return null;
+    } finally {
+      setIsReadingPdf(false);
+    }
+  };
+
+  /**
+   * Handler for uploading the floor plan file of the next floor
+   * 
+   * @param {File} file - Uploaded floor plan image or PDF
+   * @returns {Promise<void>}
+   */
+  const handleUpload = async (file: File) => {
+    if (!file) return;
+
+    if (file.type !== "application/pdf") {
+      await analyzeFloors(file, [undefined]);
+      return;
+    }
+
+    const page = await readPdf(file, null);
+    if (page) await analyzeFloors(file, [page]);
+  };
+
+  /**
+   * Handler for the pages picked in the PDF page picker
+   * 
+   * @param {PdfPage[]} pages - The picked pages
+   */
+  const handlePdfPagesPicked = async (pages: PdfPage[]) => {
+    if (!pdfSelection) return;
+
+    const { file, side } = pdfSelection;
+    setPdfSelection(null);
+
+    if (side) {
+      await analyzeComparedPlan(side, file, pages[0]);
+    } else {
+      await analyzeFloors(file, pages);
+    }
+  };
+
+  /**
+   * Handler for a scale set by hand on the plan image
+   * Measures the rooms with it, the chat then sees the new dimensions too
+   * 
+   * @param {PlanScale} scale - The scale drawn by the user
+   */
+  const handleScaleChange = (scale: PlanScale) => {
+    if (!activeFloor) return;
+    updateFloorAnalysis(activeFloor.id, analysis => applyScale(analysis, scale));
+  };
+
+  /**
+   * Analyzes one of the plans of the comparison
+   * Uses the same analysis options as the floor uploads
+   * and can be cancelled like them
+   * 
+   * @param {ComparisonSide} side - The existing layout or the proposal
+   * @param {File} file - The floor plan image or PDF
+   * @param {PdfPage} [page] - The page of a PDF to analyze
+   */
+  const analyzeComparedPlan = async (side: ComparisonSide, file: File, page?: PdfPage) => {
+    const controller = new AbortController();
+    comparisonControllersRef.current[side] = controller;
+
+    try {
+      const outcome = await analyzePlan(side, file, {
+        mode: analysisMode,
+        samples: isEnsemble ? ENSEMBLE_SAMPLES : undefined,
+        unitSystem,
+        page,
+        signal: controller.signal,
+      });
+
+      if (outcome.status !== "ok") showFailure(outcome);
+    } catch (error) {
+      // Cancelled by the user, nothing went wrong
+      if (controller.signal.aborted) {
+        toast("Analysis cancelled");
+        return;
+      }
+
+      console.error("Error uploading file:", error);
+    } finally {
+      if (comparisonControllersRef.current[side] === controller) {
+        delete comparisonControllersRef.current[side];
+      }
+    }
+  };
+
+  /**
+   * Handler for uploading one of the plans of the comparison
+   * PDFs with several pages open the page picker first
+   * 
+   * @param {ComparisonSide} side - The existing layout or the proposal
+   * @param {File} file - Uploaded floor plan image or PDF
+   */
+  const handleCompareUpload = async (side: ComparisonSide, file: File) => {
+    if (file.type !== "application/pdf") {
+      await analyzeComparedPlan(side, file);
+      return;
+    }
+
+    const page = await readPdf(file, side);
+    if (page) await analyzeComparedPlan(side, file, page);
+  };
+
+  /**
+   * Handler for choosing a floor in the floor switcher
+   * 
+   * @param {string} id - The id of the floor
+   */
+  const handleSelectFloor = (id: string) => {
+    setActiveFloorId(id);
+    setIsPropertyView(false);
+    setRevisionPair(null);
+  };
+
+  /**
+   * Handler for uploading a revision of a floor plan
+   * Goes to the upload tab with the floor chosen as the target
+   * 
+   * @param {string} id - The id of the floor
+   */
+  const handleAddRevision = (id: string) => {
+    setRevisionTargetId(id);
+    setActiveTab("upload");
+  };
+
+  /**
+   * Handler for choosing a revision on the timeline
+   * 
+   * @param {number} number - The revision number
+   */
+  const handleSelectRevision = (number: number) => {
+    if (!activeFloor) return;
+    setActiveRevision(activeFloor.id, number);
+    setRevisionPair(null);
+  };
+
+  /**
+   * Handler for removing a floor
+   * Goes back to the upload when the last floor is removed
+   * 
+   * @param {string} id - The id of the floor
+   */
+  const handleRemoveFloor = (id: string) => {
+    removeFloor(id);
+    if (floors.length <= 1) {
+      setActiveTab("upload");
     }
   };
 
   /**
    * Reset all states to initial values
-   * Clears the uploaded file, image URL, and analysis results
+   * Removes all floors of the property and their analysis results
    * 
    * @remarks
-   * This function is used to reset the state of the application
-   * - Resets the uploaded file, image URL, analysis results, active tab, and upload status
-   * - Revokes the object URL of the image
-   * - Revokes object URL to free memory
+   * This function is used to start a new property
+   * - Resets the floors, the active tab, and upload status
+   * - Revokes the object URLs of the floor images to free memory
    */
   const handleReset = () => {
-    setUploadedFile(null);
-    setImageUrl(null);
-    setAnalysis(null);
+    resetProperty();
+    setPdfSelection(null);
+    setFloorLabel("");
+    setRevisionTargetId(null);
+    setRevisionPair(null);
+    setIsPropertyView(false);
     setActiveTab("upload");
     setIsUploaded(false);
     setIsAnalyzing(false);
-
-    if (imageUrl) {
-      URL.revokeObjectURL(imageUrl);
-    }
   };
 
   return (
@@ -174,28 +580,241 @@ export default function Home() {
             <div className="w-full lg:w-3/5 flex flex-col">
               <Tabs
                 value={activeTab}
-                onValueChange={(value) => setActiveTab(value as "upload" | "analysis")}
+                onValueChange={(value) => setActiveTab(value as PageTab)}
                 className="w-full"
               >
-                <div className="flex justify-center mb-6">
+                <div className="flex items-center justify-center gap-3 mb-6">
                   <TabsList className="bg-white/70 backdrop-blur-sm border border-gray-100 shadow-card gradient-border">
                     <TabsTrigger value="upload" className="px-6">Upload</TabsTrigger>
                     <TabsTrigger value="analysis" className="px-6" disabled={!analysis}>Analysis</TabsTrigger>
+                    <TabsTrigger value="compare" className="px-6">Compare</TabsTrigger>
+                    <TabsTrigger value="batch" className="px-6">Batch</TabsTrigger>
                   </TabsList>
+                  <UnitSystemToggle value={unitSystem} onChange={setUnitSystem} />
                 </div>
 
                 <TabsContent value="upload" className="py-6">
-                  <UploadArea
-                    onUpload={handleUpload}
-                    onReset={handleReset}
-                    isAnalyzing={isAnalyzing}
-                    isUploaded={isUploaded}
-                  />
+                  {/* New floor with its label, or a revision of an existing floor */}
+                  <div className="mb-4 flex flex-wrap items-center justify-center gap-2">
+                    {floors.length > 0 && (
+                      <select
+                        aria-label="Upload as"
+                        className="h-8 rounded-md border bg-white/70 px-2 text-sm"
+                        value={revisionTargetId ?? ""}
+                        disabled={isAnalyzing}
+                        onChange={(e) => setRevisionTargetId(e.target.value || null)}
+                      >
+                        <option value="">New floor</option>
+                        {floors.map(floor => (
+                          <option key={floor.id} value={floor.id}>
+                            Revision {floor.revisions.length + 1} of {floor.label}
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                    {!revisionTargetId && (
+                      <>
+                        <label htmlFor="floor-label" className="text-sm text-muted-foreground">Floor</label>
+                        <Input
+                          id="floor-label"
+                          className="h-8 w-48 bg-white/70 text-sm"
+                          placeholder={defaultFloorLabel(floors.length)}
+                          value={floorLabel}
+                          disabled={isAnalyzing}
+                          onChange={(e) => setFloorLabel(e.target.value)}
+                        />
+                      </>
+                    )}
+                  </div>
+                  {pdfSelection && !pdfSelection.side ? (
+                    // Several pages become several floors, a revision takes one page
+                    <PdfPagePicker
+                      fileName={pdfSelection.file.name}
+                      pages={pdfSelection.pages}
+                      multiple={!revisionTargetId}
+                      onConfirm={handlePdfPagesPicked}
+                      onCancel={() => setPdfSelection(null)}
+                    />
+                  ) : (
+                    // Remounted for each floor so the previous upload is cleared
+                    <UploadArea
+                      key={floors.length}
+                      onUpload={handleUpload}
+                      onReset={() => setIsUploaded(false)}
+                      onCancel={isAnalyzing ? () => analysisControllerRef.current?.abort() : undefined}
+                      isAnalyzing={isAnalyzing || isReadingPdf}
+                      progress={progress}
+                      isUploaded={isUploaded}
+                    />
+                  )}
+                  {/* Scores and findings as the model writes them */}
+                  {isAnalyzing && streamed && (
+                    <Analysis
+                      analysis={streamed.analysis}
+                      imageUrl={streamed.imageUrl}
+                      unitSystem={unitSystem}
+                      isStreaming
+                    />
+                  )}
+                  {/* Opt-in high fidelity mode for large or dense plans */}
+                  <label className="mt-4 flex items-center justify-center gap-2 text-sm text-muted-foreground">
+                    <input
+                      type="checkbox"
+                      className="h-4 w-4 accent-primary"
+                      checked={analysisMode === "high_fidelity"}
+                      disabled={isAnalyzing}
+                      onChange={(e) => setAnalysisMode(e.target.checked ? "high_fidelity" : "standard")}
+                    />
+                    High-detail analysis (slower, for large or dense plans)
+                  </label>
+                  {/* Opt-in ensemble scoring for steadier scores */}
+                  <label className="mt-2 flex items-center justify-center gap-2 text-sm text-muted-foreground">
+                    <input
+                      type="checkbox"
+                      className="h-4 w-4 accent-primary"
+                      checked={isEnsemble}
+                      disabled={isAnalyzing}
+                      onChange={(e) => setIsEnsemble(e.target.checked)}
+                    />
+                    Stable scores (combines {ENSEMBLE_SAMPLES} analyses, uses more credits)
+                  </label>
+                  {floors.length > 0 && (
+                    <div className="mt-4 flex items-center justify-center gap-2 text-sm text-muted-foreground">
+                      {floors.length} floor{floors.length > 1 ? "s" : ""} in this property.
+                      <Button variant="link" size="sm" className="h-auto p-0" disabled={isAnalyzing} onClick={handleReset}>
+                        Start a new property
+                      </Button>
+                    </div>
+                  )}
                 </TabsContent>
 
                 <TabsContent value="analysis" className="py-4">
-                  {analysis && imageUrl && (
-                    <Analysis analysis={analysis} imageUrl={imageUrl} />
+                  <FloorSwitcher
+                    floors={floors}
+                    activeFloorId={activeFloor?.id ?? null}
+                    isPropertyView={isPropertyView && propertyAnalysis !== null}
+                    onSelectFloor={handleSelectFloor}
+                    onSelectProperty={() => setIsPropertyView(true)}
+                    onRename={renameFloor}
+                    onMove={moveFloor}
+                    onRemove={handleRemoveFloor}
+                    onAddFloor={() => {
+                      setRevisionTargetId(null);
+                      setActiveTab("upload");
+                    }}
+                    onAddRevision={handleAddRevision}
+                  />
+                  {isPropertyView && propertyAnalysis ? (
+                    <PropertySummary
+                      analysis={propertyAnalysis}
+                      unitSystem={unitSystem}
+                      onSelectFloor={handleSelectFloor}
+                    />
+                  ) : activeFloor && activeRevision && (
+                    <>
+                      {activeFloor.revisions.length > 1 && (
+                        // Remounted when a revision is added so the comparison defaults to the latest two
+                        <RevisionTimeline
+                          key={`${activeFloor.id}-${activeFloor.revisions.length}`}
+                          revisions={activeFloor.revisions}
+                          activeRevision={activeRevision.number}
+                          onSelect={handleSelectRevision}
+                          onCompare={(before, after) => setRevisionPair({ before, after })}
+                        />
+                      )}
+                      {revisionPair && revisionComparison ? (
+                        <>
+                          <div className="mt-4 flex justify-center">
+                            <Button variant="ghost" size="sm" onClick={() => setRevisionPair(null)}>
+                              Back to revision {activeRevision.number}
+                            </Button>
+                          </div>
+                          <ComparisonView
+                            plans={{
+                              before: activeFloor.revisions.find(revision => revision.number === revisionPair.before) ?? null,
+                              after: activeFloor.revisions.find(revision => revision.number === revisionPair.after) ?? null,
+                            }}
+                            comparison={revisionComparison.diff}
+                            unitSystem={unitSystem}
+                            titles={{ before: `Revision ${revisionPair.before}`, after: `Revision ${revisionPair.after}` }}
+                          />
+                        </>
+                      ) : (
+                        // Keyed by floor and revision so room and recommendation selection start fresh
+                        <Analysis
+                          key={`${activeFloor.id}-${activeRevision.number}`}
+                          analysis={activeRevision.analysis}
+                          imageUrl={activeRevision.imageUrl}
+                          originalImageUrl={activeRevision.originalImageUrl}
+                          unitSystem={unitSystem}
+                          onScaleChange={handleScaleChange}
+                        />
+                      )}
+                    </>
+                  )}
+                </TabsContent>
+
+                <TabsContent value="compare" className="py-4">
+                  {pdfSelection?.side && (
+                    <div className="mb-4">
+                      <PdfPagePicker
+                        fileName={pdfSelection.file.name}
+                        pages={pdfSelection.pages}
+                        onConfirm={handlePdfPagesPicked}
+                        onCancel={() => setPdfSelection(null)}
+                      />
+                    </div>
+                  )}
+                  <ComparisonView
+                    plans={comparedPlans}
+                    comparison={comparison}
+                    isComparing={isComparing}
+                    compareError={compareError}
+                    analyzingSide={analyzingSide}
+                    analyzingProgress={analyzingProgress}
+                    unitSystem={unitSystem}
+                    onUpload={handleCompareUpload}
+                    onRemove={removePlan}
+                    onCancel={(side) => comparisonControllersRef.current[side]?.abort()}
+                  />
+                </TabsContent>
+
+                <TabsContent value="batch" className="py-4">
+                  {selectedBatchItem?.analysis ? (
+                    <>
+                      <div className="mb-2 flex items-center justify-between gap-2 px-6">
+                        <span className="text-sm font-medium truncate">{selectedBatchItem.file.name}</span>
+                        <Button variant="outline" size="sm" onClick={() => setSelectedBatchId(null)}>
+                          Back to the batch
+                        </Button>
+                      </div>
+                      <Analysis
+                        key={selectedBatchItem.id}
+                        analysis={selectedBatchItem.analysis}
+                        imageUrl={selectedBatchItem.imageUrl ?? ""}
+                        unitSystem={unitSystem}
+                      />
+                    </>
+                  ) : (
+                    <div className="flex flex-col gap-6">
+                      {/* Every plan is analyzed on its own, with the options of the upload tab */}
+                      <UploadArea
+                        multiple
+                        onUpload={(file) => addBatchFiles([file])}
+                      />
+                      {batchItems.length > 0 && (
+                        <BatchQueue
+                          items={batchItems}
+                          onCancel={cancelBatchItem}
+                          onRetry={retryBatchItem}
+                          onRemove={removeBatchItem}
+                          onClear={clearBatch}
+                        />
+                      )}
+                      {isBatchFinished && (
+                        <BatchSummary items={batchItems} unitSystem={unitSystem} onSelect={setSelectedBatchId} />
+                      )}
+                    </div>
                   )}
                 </TabsContent>
               </Tabs>
@@ -216,8 +835,9 @@ export default function Home() {
                 <ChatInterface
                   messages={messages}
                   onSendMessage={sendMessage}
+                  onCancelMessage={cancelMessage}
                   isAssistantTyping={isTyping}
-                  isAnalyzing={!analysis}
+                  isAnalyzing={!analysis && !comparisonContext}
                 />
               </div>
             </div>
@@ -3,18 +3,37 @@ import Image from 'next/image';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Card, CardContent } from "../ui/card";
 import { Button } from '../ui/button';
-import { Maximize2, X } from 'lucide-react';
+import { ImageIcon, Layers, Maximize2, Ruler, ScanEye, X } from 'lucide-react';
 import { useScroll } from '@/hooks/use-scroll';
+import { cn } from '@/lib/utils';
+import { createPlanScale } from '@/lib/measurements';
+import { PlanScale, Room, ScaleReference, UnitSystem } from '@/types/floor-analysis';
+import { RoomOverlay } from './room-overlay';
+import { ScaleTool } from './scale-tool';
 
 /**
  * Interface for the component props
  * 
  * @interface FloorplanCardProps
- * @property {string} imageUrl - The URL of the floor plan image
+ * @property {string} imageUrl - The URL of the floor plan image (the processed image the model saw)
+ * @property {string} [originalImageUrl] - The URL of the uploaded image, enables switching to it
+ * @property {Room[]} [rooms] - The rooms to draw over the image
+ * @property {string[]} [highlightedRoomIds] - The rooms to emphasize on the image
+ * @property {function} [onRoomClick] - Callback for clicking a room region
+ * @property {function} [onScaleChange] - Callback with a scale set by hand, enables the ruler
+ * @property {UnitSystem} [unitSystem] - The units the ruler length is typed in
+ * @property {React.Ref<HTMLDivElement>} [cardRef] - Ref to the card, used to scroll it into view
  * @property {React.ReactNode} children - The child elements (scores and metrics)
  */
 interface FloorplanCardProps {
   imageUrl: string;
+  originalImageUrl?: string;
+  rooms?: Room[];
+  highlightedRoomIds?: string[];
+  onRoomClick?: (roomId: string) => void;
+  onScaleChange?: (scale: PlanScale) => void;
+  unitSystem?: UnitSystem;
+  cardRef?: React.Ref<HTMLDivElement>;
   children: React.ReactNode;
 }
 
@@ -24,24 +43,83 @@ interface FloorplanCardProps {
  * 
  * Displays the floor plan image with the ability to view in full screen mode.
  * Includes a button for expanding, animations, and handling the Escape key.
+ * When rooms are provided, they can be shown as a toggleable overlay.
+ * Highlighted rooms stay visible even when the overlay is switched off.
+ * With `onScaleChange`, a ruler button lets the user set the scale by
+ * drawing a line of known length on the image.
+ * With `originalImageUrl`, a button switches between the processed image
+ * and the upload. Rooms and the ruler only apply to the processed image.
  * 
  * @component
  * @param {FloorplanCardProps} props - The component props
  * 
  * @example
  * ```tsx
- * <FloorplanCard imageUrl="/path/to/image.jpg">
+ * <FloorplanCard imageUrl="/path/to/image.jpg" rooms={analysis.rooms}>
  *   <ScoreMetrics />
  * </FloorplanCard>
  * ```
  */
-export const FloorplanCard = ({ imageUrl, children }: FloorplanCardProps) => {
+export const FloorplanCard = ({
+  imageUrl,
+  originalImageUrl,
+  rooms = [],
+  highlightedRoomIds = [],
+  onRoomClick,
+  onScaleChange,
+  unitSystem = "metric",
+  cardRef,
+  children,
+}: FloorplanCardProps) => {
   // State for full screen mode
   const [isFullscreen, setIsFullscreen] = useState(false);
+  // State for the room overlay visibility
+  const [showRooms, setShowRooms] = useState(true);
+  // Natural size of the image, needed to align the overlay
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+  // State for the manual scale tool
+  const [isMeasuring, setIsMeasuring] = useState(false);
+  // State for showing the uploaded image instead of the processed one
+  const [showOriginal, setShowOriginal] = useState(false);
+
+  // The room bounds refer to the processed image, the upload may be rotated or cropped differently
+  const isOriginalShown = showOriginal && originalImageUrl !== undefined;
+  const displayedUrl = isOriginalShown ? originalImageUrl : imageUrl;
+
+  // With the overlay switched off, only the highlighted rooms are drawn
+  const visibleRooms = isOriginalShown
+    ? []
+    : showRooms
+      ? rooms
+      : rooms.filter(room => highlightedRoomIds.includes(room.id));
+
+  // The overlay is drawn only once the image size is known
+  const isOverlayVisible = visibleRooms.length > 0 && imageSize !== null;
 
   // Hook for handling scroll
   useScroll(isFullscreen);
 
+  /**
+   * Handler for applying a line drawn with the scale tool
+   * 
+   * @param {ScaleReference} reference - The line and its real length
+   */
+  const handleScaleApply = (reference: ScaleReference) => {
+    const scale = imageSize && createPlanScale(reference, imageSize);
+    if (scale) onScaleChange?.(scale);
+    setIsMeasuring(false);
+  };
+
+  /**
+   * Handler for switching between the processed and the uploaded image
+   * The size is measured again once the other image has loaded
+   */
+  const handleImageToggle = () => {
+    setImageSize(null);
+    setIsMeasuring(false);
+    setShowOriginal(prev => !prev);
+  };
+
   /**
    * Effect for handling the Escape key
    * Closes the full screen mode when the Escape key is pressed
@@ -65,25 +143,104 @@ export const FloorplanCard = ({ imageUrl, children }: FloorplanCardProps) => {
   return (
     <>
       {/* Main card with floor plan */}
-      <Card className="shadow-card overflow-hidden max-h-[600px] flex flex-col">
+      <Card ref={cardRef} className="shadow-card overflow-hidden max-h-[600px] flex flex-col scroll-mt-4">
         {/* Container with image and expand button */}
         <div className="relative aspect-[3/4] w-full shrink-0 group">
-          <Image
-            src={imageUrl}
-            alt="Floorplan"
-            className="object-contain w-full h-full p-1.5"
-            width={1000}
-            height={800}
-          />
-          {/* Expand button (appears on hover) */}
-          <Button
-            variant="secondary"
-            size="icon"
-            className="absolute bottom-3 right-3 opacity-0 group-hover:opacity-100 transition-opacity cursor-pointer"
-            onClick={() => setIsFullscreen(true)}
-          >
-            <Maximize2 className="h-4 w-4" />
-          </Button>
+          {displayedUrl ? (
+            <Image
+              src={displayedUrl}
+              alt={isOriginalShown ? "Uploaded floorplan" : "Floorplan"}
+              className="object-contain w-full h-full p-1.5"
+              width={1000}
+              height={800}
+              onLoad={(e) => setImageSize({
+                width: e.currentTarget.naturalWidth,
+                height: e.currentTarget.naturalHeight,
+              })}
+            />
+          ) : (
+            // Drawings have no preview until the server has rendered them
+            <div className="flex w-full h-full items-center justify-center text-sm text-muted-foreground">
+              No preview yet
+            </div>
+          )}
+          {/* Room regions over the image (inset matches the image padding) */}
+          {isOverlayVisible && (
+            <RoomOverlay
+              rooms={visibleRooms}
+              imageSize={imageSize}
+              highlightedRoomIds={highlightedRoomIds}
+              onRoomClick={onRoomClick}
+              className="inset-1.5"
+            />
+          )}
+          {/* Manual scale tool, drawn over the rooms so it gets the clicks */}
+          {isMeasuring && imageSize && !isOriginalShown && (
+            <ScaleTool
+              imageSize={imageSize}
+              unitSystem={unitSystem}
+              onApply={handleScaleApply}
+              onCancel={() => setIsMeasuring(false)}
+              className="inset-1.5"
+            />
+          )}
+          {/* Image controls (appear on hover) */}
+          <div className="absolute bottom-3 right-3 flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+            {/* Manual scale toggle */}
+            {onScaleChange && imageSize && !isOriginalShown && (
+              <Button
+                variant="secondary"
+                size="icon"
+                className={cn("cursor-pointer", isMeasuring && "ring-2 ring-primary")}
+                onClick={() => setIsMeasuring(prev => !prev)}
+                aria-pressed={isMeasuring}
+                aria-label="Set the scale"
+                title="Set the scale by drawing a line of known length"
+              >
+                <Ruler className="h-4 w-4" />
+              </Button>
+            )}
+            {/* Processed or uploaded image toggle */}
+            {originalImageUrl && (
+              <Button
+                variant="secondary"
+                size="icon"
+                className={cn("cursor-pointer", isOriginalShown && "ring-2 ring-primary")}
+                onClick={handleImageToggle}
+                aria-pressed={isOriginalShown}
+                aria-label={isOriginalShown ? "Show the analyzed image" : "Show the uploaded image"}
+                title={isOriginalShown
+                  ? "Show the image as the AI saw it"
+                  : "Show the uploaded image"}
+              >
+                {isOriginalShown ? <ScanEye className="h-4 w-4" /> : <ImageIcon className="h-4 w-4" />}
+              </Button>
+            )}
+            {/* Room overlay toggle */}
+            {rooms.length > 0 && !isOriginalShown && (
+              <Button
+                variant="secondary"
+                size="icon"
+                className={cn("cursor-pointer", showRooms && "ring-2 ring-primary")}
+                onClick={() => setShowRooms(prev => !prev)}
+                aria-pressed={showRooms}
+                aria-label={showRooms ? "Hide rooms" : "Show rooms"}
+              >
+                <Layers className="h-4 w-4" />
+              </Button>
+            )}
+            {/* Expand button */}
+            {displayedUrl && (
+              <Button
+                variant="secondary"
+                size="icon"
+                className="cursor-pointer"
+                onClick={() => setIsFullscreen(true)}
+              >
+                <Maximize2 className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
         </div>
         {/* Container for child elements (metrics) */}
         <CardContent className="pt-6 overflow-y-auto">
@@ -122,13 +279,22 @@ export const FloorplanCard = ({ imageUrl, children }: FloorplanCardProps) => {
               </Button>
               {/* Full screen image */}
               <Image
-                src={imageUrl}
+                src={displayedUrl}
                 alt="Floorplan Fullscreen"
                 className="w-full h-full object-contain"
                 onClick={(e) => e.stopPropagation()}
                 width={1000}
                 height={800}
               />
+              {/* Room regions over the full screen image (inset matches the container padding) */}
+              {isOverlayVisible && (
+                <RoomOverlay
+                  rooms={visibleRooms}
+                  imageSize={imageSize}
+                  highlightedRoomIds={highlightedRoomIds}
+                  className="inset-8"
+                />
+              )}
             </motion.div>
           </motion.div>
         )}
@@ -1,21 +1,28 @@
 import { Badge } from "../ui/badge";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "../ui/card";
 import { cn } from "@/lib/utils";
+import { Priority } from "@/types/floor-analysis";
 
 /**
  * Interface for the component props
  * 
  * @interface RecommendationCardProps
  * @property {string} area - The area of the floor plan to which the recommendation belongs
- * @property {string} priority - The priority of the recommendation ('high', 'medium', 'low')
+ * @property {Priority} priority - The priority of the recommendation ('high', 'medium', 'low')
  * @property {string} issue - The description of the problem
  * @property {string} suggestion - The suggested solution
+ * @property {boolean} [isActive=false] - Whether the card is the selected one
+ * @property {function} [onHoverChange] - Callback for the pointer entering or leaving the card
+ * @property {function} [onSelect] - Callback for clicking the card
  */
 interface RecommendationCardProps {
   area: string;
-  priority: string;
+  priority: Priority;
   issue: string;
   suggestion: string;
+  isActive?: boolean;
+  onHoverChange?: (isHovered: boolean) => void;
+  onSelect?: () => void;
 }
 
 /**
@@ -23,6 +30,7 @@ interface RecommendationCardProps {
  * 
  * Displays a recommendation for improving the floor plan with the specified area,
  * priority, problem description, and suggested solution.
+ * Hovering or clicking the card lets the parent highlight the related rooms.
  * 
  * @component
  * @param {RecommendationCardProps} props - The component props
@@ -37,15 +45,23 @@ interface RecommendationCardProps {
  * />
  * ```
  */
-export const RecommendationCard = ({ area, priority, issue, suggestion }: RecommendationCardProps) => {
+export const RecommendationCard = ({
+  area,
+  priority,
+  issue,
+  suggestion,
+  isActive = false,
+  onHoverChange,
+  onSelect,
+}: RecommendationCardProps) => {
   /**
    * Determines the color scheme of the badge depending on the priority
    * 
-   * @param {string} priority - The priority of the recommendation
+   * @param {Priority} priority - The priority of the recommendation
    * @returns {string} CSS classes for styling the badge
    */
-  const getPriorityColor = (priority: string) => {
-    switch (priority.toLowerCase()) {
+  const getPriorityColor = (priority: Priority) => {
+    switch (priority) {
       case "high":
         return "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300";
       case "medium":
@@ -58,7 +74,25 @@ export const RecommendationCard = ({ area, priority, issue, suggestion }: Recomm
   };
 
   return (
-    <Card className="analysis-card shadow-card hover:shadow-card-hover transition-shadow animate-fade-in">
+    <Card
+      className={cn(
+        "analysis-card shadow-card hover:shadow-card-hover transition-shadow animate-fade-in",
+        onSelect && "cursor-pointer",
+        isActive && "ring-2 ring-primary"
+      )}
+      onMouseEnter={() => onHoverChange?.(true)}
+      onMouseLeave={() => onHoverChange?.(false)}
+      onClick={onSelect}
+      onKeyDown={(e) => {
+        if (onSelect && (e.key === "Enter" || e.key === " ")) {
+          e.preventDefault();
+          onSelect();
+        }
+      }}
+      role={onSelect ? "button" : undefined}
+      tabIndex={onSelect ? 0 : undefined}
+      aria-pressed={onSelect ? isActive : undefined}
+    >
       {/* Header with area and priority */}
       <CardHeader className="pb-3">
         <div className="flex justify-between items-start">
@@ -83,4 +117,32 @@ export const RecommendationCard = ({ area, priority, issue, suggestion }: Recomm
       </CardContent>
     </Card>
   )
-}
\ No newline at end of file
+}
+
+/**
+ * Component of a recommendation that is still being written
+ * 
+ * Takes the place of the next recommendation card while the analysis is
+ * streamed, so the list grows into it when the recommendation arrives.
+ * 
+ * @component
+ * 
+ * @example
+ * ```tsx
+ * {isStreaming && <RecommendationCardPlaceholder />}
+ * ```
+ */
+export const RecommendationCardPlaceholder = () => (
+  <Card className="analysis-card shadow-card" aria-busy="true" aria-label="Finding in progress">
+    <CardHeader className="pb-3">
+      <div className="flex justify-between items-start">
+        <span className="h-5 w-32 rounded bg-muted animate-pulse" />
+        <span className="ml-2 h-5 w-24 rounded-full bg-muted animate-pulse" />
+      </div>
+      <span className="mt-1 h-4 w-3/4 rounded bg-muted animate-pulse" />
+    </CardHeader>
+    <CardContent>
+      <span className="block h-4 w-2/3 rounded bg-muted animate-pulse" />
+    </CardContent>
+  </Card>
+)
@@ -0,0 +1,101 @@
+import { Ruler } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { formatArea, formatLength, totalArea } from "@/lib/measurements";
+import { PlanScale, Room, UnitSystem } from "@/types/floor-analysis";
+
+/**
+ * Descriptions of where the scale comes from
+ */
+const SCALE_SOURCE_LABELS: Record<PlanScale["source"], string> = {
+  scale_bar: "scale bar",
+  dimension_text: "dimension",
+  manual: "your measurement",
+  drawing: "the drawing",
+};
+
+/**
+ * Interface for the component props
+ *
+ * @interface RoomDimensionsProps
+ * @property {Room[]} rooms - The rooms of the analysis
+ * @property {PlanScale} [scale] - The plan scale, rooms are measured only when it is set
+ * @property {UnitSystem} [unitSystem="metric"] - The units to show the measurements in
+ * @property {string | null} [selectedRoomId] - The room selected on the plan
+ * @property {function} [onRoomClick] - Callback for clicking a room in the list
+ */
+interface RoomDimensionsProps {
+  rooms: Room[];
+  scale?: PlanScale;
+  unitSystem?: UnitSystem;
+  selectedRoomId?: string | null;
+  onRoomClick?: (roomId: string) => void;
+}
+
+/**
+ * Component of the room dimensions list
+ *
+ * Lists the width, depth and area of each room and the total area.
+ * Without a scale, explains how to set one with the ruler on the plan.
+ *
+ * @component
+ * @param {RoomDimensionsProps} props - The component props
+ *
+ * @example
+ * ```tsx
+ * <RoomDimensions rooms={analysis.rooms} scale={analysis.scale} />
+ * ```
+ */
+export const RoomDimensions = ({
+  rooms,
+  scale,
+  unitSystem = "metric",
+  selectedRoomId,
+  onRoomClick,
+}: RoomDimensionsProps) => {
+  if (rooms.length === 0) return null;
+
+  const total = totalArea(rooms);
+
+  return (
+    <div className="mt-6 border-t pt-4">
+      {/* Title with the total area */}
+      <div className="flex items-baseline justify-between">
+        <span className="text-sm font-medium">Rooms</span>
+        {total !== null && (
+          <span className="text-xs text-muted-foreground">Total {formatArea(total, unitSystem)}</span>
+        )}
+      </div>
+
+      {/* Source of the scale, or how to set it */}
+      <p className="mt-1 flex items-center gap-1 text-xs text-muted-foreground">
+        <Ruler className="h-3 w-3 shrink-0" />
+        {scale
+          ? `Scale from ${SCALE_SOURCE_LABELS[scale.source]} "${scale.label}"`
+          : "No scale found on the plan. Use the ruler on the image to draw a line of known length."}
+      </p>
+
+      {/* Room list */}
+      <ul className="mt-2 space-y-1">
+        {rooms.map(room => (
+          <li key={room.id}>
+            <button
+              type="button"
+              className={cn(
+                "flex w-full items-baseline justify-between gap-2 rounded px-1 py-0.5 text-left text-sm hover:bg-muted",
+                selectedRoomId === room.id && "bg-muted"
+              )}
+              onClick={() => onRoomClick?.(room.id)}
+            >
+              <span className="truncate">{room.label}</span>
+              {room.dimensions && (
+                <span className="shrink-0 text-xs text-muted-foreground tabular-nums">
+                  {formatLength(room.dimensions.width, unitSystem)} × {formatLength(room.dimensions.depth, unitSystem)} · {formatArea(room.dimensions.area, unitSystem)}
+                </span>
+              )}
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,127 @@
+import { cn } from "@/lib/utils";
+import { Room, RoomType } from "@/types/floor-analysis";
+
+/**
+ * Fill and stroke classes for each room type
+ */
+const ROOM_COLORS: Record<RoomType, string> = {
+  living: "fill-blue-500/15 stroke-blue-500",
+  kitchen: "fill-orange-500/15 stroke-orange-500",
+  dining: "fill-amber-500/15 stroke-amber-500",
+  bedroom: "fill-violet-500/15 stroke-violet-500",
+  bathroom: "fill-cyan-500/15 stroke-cyan-500",
+  hallway: "fill-slate-500/15 stroke-slate-500",
+  office: "fill-emerald-500/15 stroke-emerald-500",
+  storage: "fill-stone-500/15 stroke-stone-500",
+  laundry: "fill-teal-500/15 stroke-teal-500",
+  balcony: "fill-lime-500/15 stroke-lime-500",
+  stairs: "fill-rose-500/15 stroke-rose-500",
+  other: "fill-gray-500/15 stroke-gray-500",
+};
+
+/**
+ * Interface for the component props
+ *
+ * @interface RoomOverlayProps
+ * @property {Room[]} rooms - The rooms detected on the plan
+ * @property {Object} imageSize - The natural size of the plan image in pixels
+ * @property {string[]} [highlightedRoomIds] - The rooms to emphasize, the others are dimmed
+ * @property {function} [onRoomClick] - Callback for clicking a room region
+ * @property {string} [className] - Classes positioning the overlay over the image
+ */
+interface RoomOverlayProps {
+  rooms: Room[];
+  imageSize: { width: number; height: number };
+  highlightedRoomIds?: string[];
+  onRoomClick?: (roomId: string) => void;
+  className?: string;
+}
+
+/**
+ * Component of the room overlay
+ *
+ * Draws the room regions on top of the plan image. The SVG uses the natural
+ * image size as its viewBox with `xMidYMid meet`, so it lines up with an
+ * image rendered with `object-contain` in the same box.
+ * Only the room shapes receive clicks, the rest of the image stays interactive.
+ *
+ * @component
+ * @param {RoomOverlayProps} props - The component props
+ *
+ * @example
+ * ```tsx
+ * <RoomOverlay rooms={analysis.rooms} imageSize={{ width: 1200, height: 900 }} className="inset-0" />
+ * ```
+ */
+export const RoomOverlay = ({
+  rooms,
+  imageSize,
+  highlightedRoomIds = [],
+  onRoomClick,
+  className,
+}: RoomOverlayProps) => {
+  const { width, height } = imageSize;
+  const hasHighlight = highlightedRoomIds.length > 0;
+  // Label size relative to the image, so it reads the same at any resolution
+  const fontSize = Math.max(width, height) * 0.022;
+
+  return (
+    <svg
+      viewBox={`0 0 ${width} ${height}`}
+      preserveAspectRatio="xMidYMid meet"
+      className={cn("absolute pointer-events-none", className)}
+      aria-hidden={!onRoomClick}
+    >
+      {rooms.map((room) => {
+        const { x, y, width: w, height: h } = room.bounds;
+        const isHighlighted = highlightedRoomIds.includes(room.id);
+
+        return (
+          <g
+            key={room.id}
+            className={cn(
+              ROOM_COLORS[room.type],
+              "transition-opacity",
+              hasHighlight && !isHighlighted && "opacity-30",
+              isHighlighted && "fill-yellow-300/40",
+              onRoomClick && "pointer-events-auto cursor-pointer"
+            )}
+            onClick={onRoomClick && ((e) => {
+              e.stopPropagation();
+              onRoomClick(room.id);
+            })}
+          >
+            <title>{room.label}</title>
+            {room.polygon ? (
+              <polygon
+                points={room.polygon.map((point) => `${point.x * width},${point.y * height}`).join(" ")}
+                strokeWidth={isHighlighted ? 4 : 2}
+                vectorEffect="non-scaling-stroke"
+              />
+            ) : (
+              <rect
+                x={x * width}
+                y={y * height}
+                width={w * width}
+                height={h * height}
+                strokeWidth={isHighlighted ? 4 : 2}
+                vectorEffect="non-scaling-stroke"
+              />
+            )}
+            {/* Room label in the middle of the bounding box */}
+            <text
+              x={(x + w / 2) * width}
+              y={(y + h / 2) * height}
+              fontSize={fontSize}
+              textAnchor="middle"
+              dominantBaseline="middle"
+              className="fill-foreground stroke-none font-medium"
+            >
+              {room.label}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
@@ -0,0 +1,171 @@
+import { useRef, useState } from "react";
+import { cn } from "@/lib/utils";
+import { lengthUnit, toMeters } from "@/lib/measurements";
+import { ImageSize, Point, ScaleReference, UnitSystem } from "@/types/floor-analysis";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+/**
+ * Interface for the component props
+ *
+ * @interface ScaleToolProps
+ * @property {ImageSize} imageSize - The natural size of the plan image in pixels
+ * @property {UnitSystem} [unitSystem="metric"] - The units the length is typed in
+ * @property {function} onApply - Callback with the drawn line and its real length
+ * @property {function} onCancel - Callback for leaving the tool without a scale
+ * @property {string} [className] - Classes positioning the tool over the image
+ */
+interface ScaleToolProps {
+  imageSize: ImageSize;
+  unitSystem?: UnitSystem;
+  onApply: (reference: ScaleReference) => void;
+  onCancel: () => void;
+  className?: string;
+}
+
+/**
+ * Component for setting the plan scale by hand
+ *
+ * The user clicks both ends of something with a known length (a wall,
+ * a dimension line) and enters that length. Like the room overlay, the SVG
+ * uses the natural image size as its viewBox, so the points are measured
+ * in image coordinates regardless of how the image is scaled on screen.
+ *
+ * @component
+ * @param {ScaleToolProps} props - The component props
+ *
+ * @example
+ * ```tsx
+ * <ScaleTool imageSize={imageSize} onApply={handleApply} onCancel={() => setIsMeasuring(false)} />
+ * ```
+ */
+export const ScaleTool = ({
+  imageSize,
+  unitSystem = "metric",
+  onApply,
+  onCancel,
+  className,
+}: ScaleToolProps) => {
+  // Ref to the SVG, used to convert pointer positions to image coordinates
+  const svgRef = useRef<SVGSVGElement>(null);
+  // Ends of the line, normalized to the image size
+  const [start, setStart] = useState<Point | null>(null);
+  const [end, setEnd] = useState<Point | null>(null);
+  // Real length of the line as typed by the user
+  const [length, setLength] = useState("");
+
+  const typedLength = Number(length);
+  const canApply = start !== null && end !== null && Number.isFinite(typedLength) && typedLength > 0;
+
+  /**
+   * Handler for clicking the image
+   * The first click sets the start, the second the end, a third starts over
+   *
+   * @param {React.MouseEvent<SVGSVGElement>} e - The click event
+   */
+  const handleClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    const svg = svgRef.current;
+    const matrix = svg?.getScreenCTM();
+    if (!svg || !matrix) return;
+
+    const point = new DOMPoint(e.clientX, e.clientY).matrixTransform(matrix.inverse());
+    const normalized = {
+      x: Math.min(1, Math.max(0, point.x / imageSize.width)),
+      y: Math.min(1, Math.max(0, point.y / imageSize.height)),
+    };
+
+    if (!start || end) {
+      setStart(normalized);
+      setEnd(null);
+    } else {
+      setEnd(normalized);
+    }
+  };
+
+  /**
+   * Handler for submitting the length
+   *
+   * @param {React.FormEvent} e - The submit event
+   */
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canApply) return;
+
+    onApply({
+      source: "manual",
+      label: `${typedLength} ${lengthUnit(unitSystem)}`,
+      start,
+      end,
+      lengthMeters: toMeters(typedLength, unitSystem),
+    });
+  };
+
+  // Converts a normalized point to image coordinates
+  const toImage = ({ x, y }: Point) => ({ x: x * imageSize.width, y: y * imageSize.height });
+  const strokeWidth = Math.max(imageSize.width, imageSize.height) / 300;
+
+  return (
+    <div className={cn("absolute", className)}>
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${imageSize.width} ${imageSize.height}`}
+        preserveAspectRatio="xMidYMid meet"
+        className="h-full w-full cursor-crosshair"
+        onClick={handleClick}
+      >
+        {start && end && (
+          <line
+            x1={toImage(start).x}
+            y1={toImage(start).y}
+            x2={toImage(end).x}
+            y2={toImage(end).y}
+            className="stroke-rose-500"
+            strokeWidth={strokeWidth}
+          />
+        )}
+        {[start, end].map((point, index) => point && (
+          <circle
+            key={index}
+            cx={toImage(point).x}
+            cy={toImage(point).y}
+            r={strokeWidth * 2}
+            className="fill-rose-500"
+          />
+        ))}
+      </svg>
+
+      {/* Instructions and the length form */}
+      <form
+        onSubmit={handleSubmit}
+        className="absolute top-2 left-2 right-2 flex flex-wrap items-center gap-2 rounded-lg border bg-background/95 p-2 text-xs shadow-md"
+      >
+        {end ? (
+          <>
+            <label htmlFor="scale-length" className="text-muted-foreground">Real length ({lengthUnit(unitSystem)})</label>
+            <Input
+              id="scale-length"
+              type="number"
+              inputMode="decimal"
+              min="0"
+              step="any"
+              autoFocus
+              className="h-7 w-20 text-xs"
+              value={length}
+              onChange={(e) => setLength(e.target.value)}
+            />
+            <Button type="submit" size="sm" className="h-7" disabled={!canApply}>
+              Apply
+            </Button>
+          </>
+        ) : (
+          <span className="text-muted-foreground">
+            {start ? "Click the other end of the line" : "Click both ends of a wall or dimension with a known length"}
+          </span>
+        )}
+        <Button type="button" variant="ghost" size="sm" className="ml-auto h-7" onClick={onCancel}>
+          Cancel
+        </Button>
+      </form>
+    </div>
+  );
+};
@@ -1,4 +1,18 @@
+import { useEffect, useRef, useState } from "react";
+import { AnimatePresence, motion } from "framer-motion";
+import { AlertTriangle, ChevronDown, Shuffle } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { ScoreDetail, ScoreSpread } from "@/types/floor-analysis";
+
+/**
+ * Confidence below which a score is marked as uncertain
+ */
+const LOW_CONFIDENCE_THRESHOLD = 0.5;
+
+/**
+ * Range of the sampled scores (max - min) above which a score is marked as unstable
+ */
+const UNSTABLE_SPREAD_THRESHOLD = 15;
 
 
 /**
@@ -6,27 +20,72 @@ import { cn } from "@/lib/utils";
  * 
  * @interface ScoreItemProps
  * @property {string} label - The label of the score item
+ * @property {string} [description] - What the score measures, shown on hover
  * @property {number} score - The score value
+ * @property {ScoreDetail} [detail] - The rationale, evidence and confidence of the score
+ * @property {ScoreSpread} [spread] - The spread of the score across ensemble samples
+ * @property {number} [delta] - The change from the compared plan, shown next to the score
  */
 interface ScoreItemProps {
   label: string;
+  description?: string;
   score: number;
+  detail?: ScoreDetail;
+  spread?: ScoreSpread;
+  delta?: number;
 }
 
 /**
  * Component of the score item
  * 
  * Displays a score item with a label and score value.
+ * When details are provided, clicking the score opens a popover with the
+ * rationale and evidence, and low-confidence scores are marked.
+ * Scores whose ensemble samples disagree a lot are marked as unstable.
+ * In a comparison, the change from the other plan is shown next to the score.
  * 
  * @component
  * @param {ScoreItemProps} props - The component props
  * 
  * @example
  * ```tsx
- * <ScoreItem label="Lighting" score={85} />
+ * <ScoreItem label="Lighting" score={85} detail={analysis.scoreDetails.lighting} />
  * ```
  */
-export const ScoreItem = ({ label, score }: ScoreItemProps) => {
+export const ScoreItem = ({ label, description, score, detail, spread, delta }: ScoreItemProps) => {
+  // State for the rationale popover
+  const [isOpen, setIsOpen] = useState(false);
+  // Ref for closing the popover on outside clicks
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const isLowConfidence = detail !== undefined && detail.confidence < LOW_CONFIDENCE_THRESHOLD;
+  const isUnstable = spread !== undefined && spread.max - spread.min > UNSTABLE_SPREAD_THRESHOLD;
+
+  /**
+   * Effect for closing the popover
+   * Closes it on a click outside the score or when the Escape key is pressed
+   */
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === "Escape") setIsOpen(false);
+    };
+
+    document.addEventListener("mousedown", handleClickOutside);
+    document.addEventListener("keydown", handleEscape);
+
+    return () => {
+      document.removeEventListener("mousedown", handleClickOutside);
+      document.removeEventListener("keydown", handleEscape);
+    };
+  }, [isOpen]);
+
   /**
    * Determines the color of the score text based on the score value
    * 
@@ -40,13 +99,77 @@ export const ScoreItem = ({ label, score }: ScoreItemProps) => {
   }
 
   return (
-    <div className="flex flex-col">
+    <div ref={containerRef} className="relative flex flex-col" title={description}>
       {/* Label */}
       <span className="text-sm text-muted-foreground">{label}</span>
-      {/* Score */}
-      <span className={cn("text-lg font-medium", getScoreColor(score))}>
+      {/* Score, opens the rationale when details are available */}
+      <button
+        type="button"
+        className={cn(
+          "flex items-center gap-1 text-left text-lg font-medium",
+          getScoreColor(score),
+          detail ? "cursor-pointer" : "cursor-default",
+          isLowConfidence && "opacity-70 underline decoration-dashed underline-offset-4"
+        )}
+        onClick={() => detail && setIsOpen(prev => !prev)}
+        aria-expanded={detail ? isOpen : undefined}
+        disabled={!detail}
+      >
         {score} / 100
-      </span>
+        {delta !== undefined && (
+          <span
+            className={cn(
+              "text-xs font-normal tabular-nums",
+              delta > 0 ? "text-green-600" : delta < 0 ? "text-red-600" : "text-muted-foreground"
+            )}
+          >
+            {delta > 0 ? `+${delta}` : delta === 0 ? "±0" : delta}
+          </span>
+        )}
+        {isLowConfidence && (
+          <AlertTriangle className="h-3.5 w-3.5 text-amber-500" aria-label="Low confidence" />
+        )}
+        {isUnstable && (
+          <Shuffle
+            className="h-3.5 w-3.5 text-orange-500"
+            aria-label={`Unstable: samples ranged from ${spread.min} to ${spread.max}`}
+          />
+        )}
+        {detail && (
+          <ChevronDown className={cn("h-3.5 w-3.5 text-muted-foreground transition-transform", isOpen && "rotate-180")} />
+        )}
+      </button>
+
+      {/* Rationale popover */}
+      <AnimatePresence>
+        {isOpen && detail && (
+          <motion.div
+            initial={{ opacity: 0, y: -4 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -4 }}
+            className="absolute top-full left-0 z-20 mt-1 w-64 rounded-lg border bg-popover p-3 text-sm text-popover-foreground shadow-lg"
+          >
+            <p>{detail.rationale}</p>
+            {detail.evidence.length > 0 && (
+              <ul className="mt-2 list-disc pl-4 text-xs text-muted-foreground space-y-0.5">
+                {detail.evidence.map((item, index) => (
+                  <li key={index}>{item}</li>
+                ))}
+              </ul>
+            )}
+            <p className={cn("mt-2 text-xs", isLowConfidence ? "text-amber-600" : "text-muted-foreground")}>
+              Confidence: {Math.round(detail.confidence * 100)}%
+              {isLowConfidence && " (low, check this score manually)"}
+            </p>
+            {spread && (
+              <p className={cn("mt-1 text-xs", isUnstable ? "text-orange-600" : "text-muted-foreground")}>
+                Samples: {spread.min}-{spread.max} (±{spread.stdDev})
+                {isUnstable && ", the samples disagree"}
+              </p>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
     </div>
   )
-}
\ No newline at end of file
+}
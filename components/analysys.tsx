@@ -1,9 +1,14 @@
-import { FloorPlanAnalysis } from "@/types/floor-analysis";
+import { useRef, useState } from "react";
+import { X } from "lucide-react";
+import { FloorPlanAnalysis, PartialAnalysis, PlanScale, UnitSystem } from "@/types/floor-analysis";
+import { getRubric } from "@/lib/rubrics";
 import { ScoreItem } from "@/components/analysis/score-card";
-import { RecommendationCard } from "@/components/analysis/recommendation-card";
+import { RecommendationCard, RecommendationCardPlaceholder } from "@/components/analysis/recommendation-card";
 import { FloorplanCard } from "@/components/analysis/floorplan-card";
+import { RoomDimensions } from "@/components/analysis/room-dimensions";
 import { Card, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { Button } from "@/components/ui/button";
 
 
 
@@ -11,12 +16,20 @@ import { ScrollArea } from "@/components/ui/scroll-area";
  * Interface for the analysis component props
  * 
  * @interface AnalysisProps
- * @property {FloorPlanAnalysis} analysis - The floor plan analysis data
- * @property {string} imageUrl - The URL of the uploaded floor plan image
+ * @property {FloorPlanAnalysis | PartialAnalysis} analysis - The floor plan analysis data, or the part received so far
+ * @property {string} imageUrl - The URL of the floor plan image the analysis was made on
+ * @property {string} [originalImageUrl] - The URL of the image as uploaded, before preprocessing
+ * @property {UnitSystem} [unitSystem] - The units for measurements, defaults to the units of the analysis
+ * @property {function} [onScaleChange] - Callback with a scale the user set on the image
+ * @property {boolean} [isStreaming=false] - Whether the analysis is still being received
  */
 interface AnalysisProps {
-  analysis: FloorPlanAnalysis;
+  analysis: FloorPlanAnalysis | PartialAnalysis;
   imageUrl: string;
+  originalImageUrl?: string;
+  unitSystem?: UnitSystem;
+  onScaleChange?: (scale: PlanScale) => void;
+  isStreaming?: boolean;
 }
 
 
@@ -24,10 +37,19 @@ interface AnalysisProps {
  * Component for displaying the floor plan analysis results
  * 
  * Displays:
- * - Floor plan image
- * - Scores for different criteria (lighting, space, flow, accessibility)
+ * - Floor plan image with the detected rooms
+ * - Scores for each dimension of the rubric (lighting, space, storage, etc.)
+ * - Room dimensions and areas, when the plan scale is known
  * - List of recommendations for improving the floor plan
  * 
+ * Hovering or clicking a recommendation highlights its rooms on the image,
+ * clicking a room on the image filters the recommendations to that room.
+ * 
+ * While streaming, the analysis is the part received so far: the scores
+ * show up once they are complete and the recommendations one by one, with
+ * placeholders for what is still to come. Rooms, score details and the ruler
+ * are only available once the analysis is complete.
+ * 
  * @component
  * @param {AnalysisProps} props - The props for the component
  * @returns {JSX.Element} The component with the analysis results
@@ -41,31 +63,127 @@ interface AnalysisProps {
  * ```
  */
 
-export default function Analysis({ analysis, imageUrl }: AnalysisProps) {
+export default function Analysis({
+  analysis,
+  imageUrl,
+  originalImageUrl,
+  unitSystem,
+  onScaleChange,
+  isStreaming = false,
+}: AnalysisProps) {
+  // A partial analysis has no rooms yet, and maybe no scores
+  const complete = "rooms" in analysis ? analysis : null;
+  const rooms = complete?.rooms ?? [];
+  const units = unitSystem ?? complete?.unitSystem ?? "metric";
+
   /**
    * Array of scores for display
-   * Converts the analysis data into a format suitable for display
+   * Built from the dimensions of the rubric the analysis was scored with
+   */
+  const scores = (getRubric(analysis.rubricId)?.dimensions ?? []).map(dimension => ({
+    id: dimension.id,
+    label: dimension.label,
+    description: dimension.description,
+    score: analysis.scores?.[dimension.id],
+    detail: complete?.scoreDetails[dimension.id],
+    spread: complete?.ensemble?.spread[dimension.id],
+  }));
+
+  // Ref to the plan card, scrolled into view when a recommendation is selected
+  const floorplanRef = useRef<HTMLDivElement>(null);
+
+  // Recommendation under the pointer and the clicked one (indexes in the full list)
+  const [hoveredIndex, setHoveredIndex] = useState<number | null>(null);
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  // Room clicked on the image, used to filter the recommendations
+  const [selectedRoomId, setSelectedRoomId] = useState<string | null>(null);
+
+  // Keep the original index so selection survives filtering
+  const visibleRecommendations = analysis.recommendations
+    .map((recommendation, index) => ({ recommendation, index }))
+    .filter(({ recommendation }) =>
+      !selectedRoomId || recommendation.roomIds.includes(selectedRoomId)
+    );
+
+  // Rooms of the hovered recommendation win over the selected one and the room filter
+  const activeIndex = hoveredIndex ?? selectedIndex;
+  const highlightedRoomIds = activeIndex !== null
+    ? analysis.recommendations[activeIndex]?.roomIds ?? []
+    : selectedRoomId ? [selectedRoomId] : [];
+
+  const selectedRoom = rooms.find(room => room.id === selectedRoomId);
+
+  /**
+   * Handler for clicking a recommendation
+   * Toggles the selection and brings the plan image into view
+   * 
+   * @param {number} index - The index of the recommendation
+   */
+  const handleSelectRecommendation = (index: number) => {
+    const isSelected = selectedIndex === index;
+    setSelectedIndex(isSelected ? null : index);
+
+    if (!isSelected) {
+      floorplanRef.current?.scrollIntoView({ behavior: "smooth", block: "nearest" });
+    }
+  };
+
+  /**
+   * Handler for clicking a room on the image
+   * Toggles the room filter for the recommendations
+   * 
+   * @param {string} roomId - The id of the clicked room
    */
-  const scores = [
-    { label: "Lighting", score: analysis.scores.lighting },
-    { label: "Space", score: analysis.scores.space },
-    { label: "Flow", score: analysis.scores.flow },
-    { label: "Accessibility", score: analysis.scores.accessibility },
-  ];
+  const handleRoomClick = (roomId: string) => {
+    setSelectedRoomId(prev => prev === roomId ? null : roomId);
+    setSelectedIndex(null);
+  };
 
   return (
     <div className="w-full max-w-6xl mx-auto grid grid-cols-1 lg:grid-cols-3 gap-8 p-6">
       {/* Section with the floor plan image and scores */}
-      <FloorplanCard imageUrl={imageUrl}>
+      <FloorplanCard
+        imageUrl={imageUrl}
+        originalImageUrl={originalImageUrl}
+        rooms={rooms}
+        highlightedRoomIds={highlightedRoomIds}
+        onRoomClick={handleRoomClick}
+        onScaleChange={complete ? onScaleChange : undefined}
+        unitSystem={units}
+        cardRef={floorplanRef}
+      >
         <div className="grid grid-cols-2 gap-4">
-          {scores.map(({ label, score }) => (
+          {scores.map(({ id, label, description, score, detail, spread }) => score !== undefined ? (
             <ScoreItem
-              key={label}
+              key={id}
               label={label}
+              description={description}
               score={score}
+              detail={detail}
+              spread={spread}
             />
+          ) : (
+            // Score still being written by the model
+            <div key={id} className="flex flex-col" title={description}>
+              <span className="text-sm text-muted-foreground">{label}</span>
+              <span className="mt-1.5 h-5 w-16 rounded bg-muted animate-pulse" />
+            </div>
           ))}
         </div>
+        {complete?.ensemble && (
+          <p className="mt-3 text-xs text-muted-foreground">
+            Median of {complete.ensemble.samples} analyses
+          </p>
+        )}
+        {complete && (
+          <RoomDimensions
+            rooms={complete.rooms}
+            scale={complete.scale}
+            unitSystem={units}
+            selectedRoomId={selectedRoomId}
+            onRoomClick={handleRoomClick}
+          />
+        )}
       </FloorplanCard>
 
       {/* Section with the recommendations */}
@@ -75,7 +193,25 @@ export default function Analysis({ analysis, imageUrl }: AnalysisProps) {
           <CardHeader>
             <CardTitle>Analysis Results</CardTitle>
             <CardDescription>
-              We&apos;ve analyzed your floorplan and identified the following issues and recommendations.
+              {selectedRoom ? (
+                // Active room filter with a button to clear it
+                <span className="flex items-center gap-2">
+                  Showing {visibleRecommendations.length} of {analysis.recommendations.length} findings for {selectedRoom.label}.
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 px-2 gap-1"
+                    onClick={() => setSelectedRoomId(null)}
+                  >
+                    <X className="h-3 w-3" />
+                    Show all
+                  </Button>
+                </span>
+              ) : isStreaming ? (
+                <>Analyzing your floorplan, the findings appear here as soon as they are written.</>
+              ) : (
+                <>We&apos;ve analyzed your floorplan and identified the following issues and recommendations.</>
+              )}
             </CardDescription>
           </CardHeader>
         </Card>
@@ -83,12 +219,19 @@ export default function Analysis({ analysis, imageUrl }: AnalysisProps) {
         {/* Scrollable area for the recommendations */}
         <ScrollArea className="h-[calc(100%-100px)]">
           <div className="space-y-4 pr-4">
-            {analysis.recommendations.map((recommendation, index) => (
+            {visibleRecommendations.map(({ recommendation, index }) => (
               <RecommendationCard
                 key={`${recommendation.area}-${index}`}
-                {...recommendation}
+                area={recommendation.area}
+                priority={recommendation.priority}
+                issue={recommendation.issue}
+                suggestion={recommendation.suggestion}
+                isActive={selectedIndex === index}
+                onHoverChange={(isHovered) => setHoveredIndex(isHovered ? index : null)}
+                onSelect={() => handleSelectRecommendation(index)}
               />
             ))}
+            {isStreaming && <RecommendationCardPlaceholder />}
           </div>
         </ScrollArea>
       </div>
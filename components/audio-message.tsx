@@ -60,6 +60,7 @@ export function AudioMessage({ text, className }: AudioMessageProps) {
    * This effect is used to clean up the audio resources when the component is unmounted
    * - Stops the playback of the audio
    * - Revokes the URL of the audio
+   * - Cancels the speech still being generated
    */
   useEffect(() => {
     return () => {
@@ -96,14 +97,15 @@ export function AudioMessage({ text, className }: AudioMessageProps) {
       }
 
       setIsLoading(true);
-      const audioBlob = await apiService.generateSpeech(text);
+      // Unmounting aborts the request, which cancels the synthesis on the server
+      abortControllerRef.current = new AbortController();
+      const audioBlob = await apiService.generateSpeech(text, { signal: abortControllerRef.current.signal });
       const url = URL.createObjectURL(audioBlob);
 
       cleanupAudio();
 
       // Creates and sets up a new audio element
       const audio = new Audio();
-      abortControllerRef.current = new AbortController();
 
       // Sets up handlers before setting the source
       audio.oncanplaythrough = async () => {
@@ -137,6 +139,9 @@ export function AudioMessage({ text, className }: AudioMessageProps) {
       audioRef.current = audio;
 
     } catch (error) {
+      // The message was closed before the speech arrived
+      if (abortControllerRef.current?.signal.aborted) return;
+
       console.error('Audio operation error:', error);
       setIsPlaying(false);
     } finally {
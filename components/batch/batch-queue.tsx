@@ -0,0 +1,121 @@
+import { Loader2, RotateCcw, X } from "lucide-react";
+import { getProgressLabel, getProgressPercent } from "@/lib/analysis-progress";
+import { BatchItem, BatchItemStatus } from "@/types/batch";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+
+/**
+ * Label and badge style of each item status
+ */
+const STATUS_BADGES: Record<BatchItemStatus, { label: string; className: string }> = {
+  queued: { label: "Queued", className: "text-muted-foreground" },
+  analyzing: { label: "Analyzing", className: "text-primary border-primary/40" },
+  done: { label: "Done", className: "text-green-600 border-green-600/40" },
+  failed: { label: "Failed", className: "text-destructive border-destructive/40" },
+  cancelled: { label: "Cancelled", className: "text-muted-foreground" },
+};
+
+/**
+ * Interface for the component props
+ *
+ * @interface BatchQueueProps
+ * @property {BatchItem[]} items - The plans of the batch in upload order
+ * @property {function} onCancel - Callback with the id of a queued or running plan to cancel
+ * @property {function} onRetry - Callback with the id of a failed or cancelled plan to analyze again
+ * @property {function} onRemove - Callback with the id of a plan to remove from the batch
+ * @property {function} onClear - Callback for removing every plan
+ */
+interface BatchQueueProps {
+  items: BatchItem[];
+  onCancel: (id: string) => void;
+  onRetry: (id: string) => void;
+  onRemove: (id: string) => void;
+  onClear: () => void;
+}
+
+/**
+ * Component of the batch queue
+ *
+ * Lists the uploaded plans with their status, the progress of the running
+ * analyses and the reason of failed ones, with actions to cancel, retry or
+ * remove each plan.
+ *
+ * @component
+ * @param {BatchQueueProps} props - The component props
+ *
+ * @example
+ * ```tsx
+ * <BatchQueue items={items} onCancel={cancel} onRetry={retry} onRemove={remove} onClear={clear} />
+ * ```
+ */
+export const BatchQueue = ({ items, onCancel, onRetry, onRemove, onClear }: BatchQueueProps) => {
+  const done = items.filter(item => item.status === "done").length;
+  const failed = items.filter(item => item.status === "failed").length;
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle>Queue</CardTitle>
+          <CardDescription>
+            {done} of {items.length} plan{items.length > 1 ? "s" : ""} analyzed{failed > 0 ? `, ${failed} failed` : ""}
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={onClear}>
+          Clear
+        </Button>
+      </CardHeader>
+      <CardContent>
+        <ul className="divide-y">
+          {items.map(item => {
+            const badge = STATUS_BADGES[item.status];
+            const isActive = item.status === "queued" || item.status === "analyzing";
+
+            return (
+              <li key={item.id} className="py-2 flex flex-col gap-1">
+                <div className="flex items-center gap-2">
+                  {item.status === "analyzing" && <Loader2 className="h-4 w-4 shrink-0 text-primary animate-spin" />}
+                  <span className="flex-1 truncate text-sm" title={item.file.name}>{item.file.name}</span>
+                  <Badge variant="outline" className={badge.className}>{badge.label}</Badge>
+                  {(item.status === "failed" || item.status === "cancelled") && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      title={`Retry ${item.file.name}`}
+                      onClick={() => onRetry(item.id)}
+                    >
+                      <RotateCcw className="h-3 w-3" />
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    title={isActive ? `Cancel ${item.file.name}` : `Remove ${item.file.name}`}
+                    onClick={() => isActive ? onCancel(item.id) : onRemove(item.id)}
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                </div>
+                {item.status === "analyzing" && item.progress && (
+                  <div className="flex items-center gap-2">
+                    <Progress value={getProgressPercent(item.progress)} className="h-1.5 flex-1" />
+                    <span className="w-48 truncate text-right text-xs text-muted-foreground">
+                      {getProgressLabel(item.progress)}
+                    </span>
+                  </div>
+                )}
+                {item.status === "failed" && item.error && (
+                  <p className="text-xs text-destructive">{item.error}</p>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,93 @@
+import { getRubric } from "@/lib/rubrics";
+import { formatArea, totalArea } from "@/lib/measurements";
+import { UnitSystem } from "@/types/floor-analysis";
+import { BatchItem } from "@/types/batch";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+
+/**
+ * Interface for the component props
+ *
+ * @interface BatchSummaryProps
+ * @property {BatchItem[]} items - The plans of the batch, only analyzed plans are listed
+ * @property {UnitSystem} [unitSystem="metric"] - The units to show the areas in
+ * @property {function} onSelect - Callback with the id of the plan whose analysis to open
+ */
+interface BatchSummaryProps {
+  items: BatchItem[];
+  unitSystem?: UnitSystem;
+  onSelect: (id: string) => void;
+}
+
+/**
+ * Component of the batch results
+ *
+ * Shows the scores of every analyzed plan in one table, one column per
+ * dimension of the rubric plus the average and the measured area.
+ * Clicking a row opens the full analysis of that plan.
+ *
+ * @component
+ * @param {BatchSummaryProps} props - The component props
+ *
+ * @example
+ * ```tsx
+ * <BatchSummary items={items} unitSystem={unitSystem} onSelect={setSelectedId} />
+ * ```
+ */
+export const BatchSummary = ({ items, unitSystem = "metric", onSelect }: BatchSummaryProps) => {
+  const analyzed = items.flatMap(item => item.analysis ? [{ ...item, analysis: item.analysis }] : []);
+  // The plans of a batch are scored with the same rubric, unless it was changed in between
+  const rubric = analyzed.length > 0 ? getRubric(analyzed[0].analysis.rubricId) : undefined;
+  const dimensions = rubric?.dimensions ?? [];
+
+  if (analyzed.length === 0) return null;
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle>Batch Results</CardTitle>
+        <CardDescription>Scores of {analyzed.length} plan{analyzed.length > 1 ? "s" : ""}, click a plan to open its analysis</CardDescription>
+      </CardHeader>
+      <CardContent className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-muted-foreground">
+              <th className="pb-2 font-normal">Plan</th>
+              {dimensions.map(dimension => (
+                <th key={dimension.id} className="pb-2 px-1 font-normal text-center" title={dimension.description}>
+                  {dimension.label}
+                </th>
+              ))}
+              <th className="pb-2 px-1 font-normal text-center">Average</th>
+              <th className="pb-2 font-normal text-right">Area</th>
+            </tr>
+          </thead>
+          <tbody>
+            {analyzed.map(({ id, file, analysis }) => {
+              const scores = dimensions.map(dimension => analysis.scores[dimension.id]);
+              const known = scores.filter((score): score is number => score !== undefined);
+              const average = known.length > 0
+                ? Math.round(known.reduce((sum, score) => sum + score, 0) / known.length)
+                : null;
+              const area = totalArea(analysis.rooms);
+
+              return (
+                <tr key={id} className="border-t cursor-pointer hover:bg-muted" onClick={() => onSelect(id)}>
+                  <td className="py-2 pr-2 max-w-48 truncate" title={file.name}>{file.name}</td>
+                  {scores.map((score, index) => (
+                    <td key={dimensions[index].id} className="py-2 px-1 text-center tabular-nums">
+                      {score ?? "—"}
+                    </td>
+                  ))}
+                  <td className="py-2 px-1 text-center font-medium tabular-nums">{average ?? "—"}</td>
+                  <td className="py-2 text-right text-xs text-muted-foreground tabular-nums">
+                    {area !== null ? formatArea(area, unitSystem) : "—"}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </CardContent>
+    </Card>
+  );
+};
@@ -17,12 +17,14 @@ import { Message } from "@/types/chat"
  * @interface ChatInterfaceProps
  * @property {Message[]} messages - The messages to be displayed in the chat
  * @property {function} onSendMessage - The function to be called when a message is sent
+ * @property {function} [onCancelMessage] - The function to be called to stop the answer being written
  * @property {boolean} [isAssistantTyping] - Flag indicating if the assistant is typing
  * @property {boolean} [isAnalyzing] - Flag indicating if the analysis is in progress
  */
 interface ChatInterfaceProps {
   messages: Message[]
   onSendMessage: (message: string) => void
+  onCancelMessage?: () => void
   isAssistantTyping?: boolean
   isAnalyzing?: boolean
 }
@@ -52,6 +54,7 @@ interface ChatInterfaceProps {
 export function ChatInterface({
   messages,
   onSendMessage,
+  onCancelMessage,
   isAssistantTyping = false,
   isAnalyzing = false,
 }: ChatInterfaceProps) {
@@ -126,6 +129,7 @@ export function ChatInterface({
         value={inputValue}
         onChange={setInputValue}
         onSubmit={handleSendMessage}
+        onCancel={onCancelMessage}
         isAnalyzing={isAnalyzing}
         isAssistantTyping={isAssistantTyping}
       />
@@ -2,7 +2,7 @@ import { useState } from "react";
 import { cn } from "@/lib/utils";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
-import { ArrowUp, Loader2 } from "lucide-react";
+import { ArrowUp, Loader2, Square } from "lucide-react";
 
 
 /**
@@ -12,6 +12,7 @@ import { ArrowUp, Loader2 } from "lucide-react";
  * @property {string} value - The current value of the input field
  * @property {function} onChange - Callback for updating the input value
  * @property {function} onSubmit - Callback for sending a message
+ * @property {function} [onCancel] - Callback for stopping the answer, the button turns into a stop button while the assistant is typing
  * @property {boolean} isAnalyzing - Flag indicating if the analysis is in progress
  * @property {boolean} isAssistantTyping - Flag indicating if the assistant is typing
  */
@@ -19,6 +20,7 @@ interface ChatInputProps {
   value: string;
   onChange: (value: string) => void;
   onSubmit: (value: string) => void;
+  onCancel?: () => void;
   isAnalyzing: boolean;
   isAssistantTyping: boolean;
 }
@@ -50,6 +52,7 @@ export function ChatInput({
   value,
   onChange,
   onSubmit,
+  onCancel,
   isAnalyzing,
   isAssistantTyping
 }: ChatInputProps) {
@@ -94,26 +97,39 @@ export function ChatInput({
         disabled={isAnalyzing}
       />
 
-      {/* Button for sending a message */}
-      <Button
-        type="submit"
-        size="icon"
-        className={cn(
-          "transition-all duration-200",
-          // Change the style of the button depending on the presence of text
-          value.trim()
-            ? "bg-primary hover:bg-primary/90 hover:scale-105"
-            : "bg-muted text-muted-foreground",
-        )}
-        disabled={isAnalyzing || !value.trim()}
-      >
+      {/* Button for stopping the answer, or for sending a message */}
+      {isAssistantTyping && onCancel ? (
+        <Button
+          type="button"
+          size="icon"
+          variant="outline"
+          onClick={onCancel}
+          aria-label="Stop the answer"
+          title="Stop the answer"
+        >
+          <Square className="h-4 w-4" />
+        </Button>
+      ) : (
+        <Button
+          type="submit"
+          size="icon"
+          className={cn(
+            "transition-all duration-200",
+            // Change the style of the button depending on the presence of text
+            value.trim()
+              ? "bg-primary hover:bg-primary/90 hover:scale-105"
+              : "bg-muted text-muted-foreground",
+          )}
+          disabled={isAnalyzing || !value.trim()}
+        >
 
-        {/* Loading indicator or send icon */}
-        {isAssistantTyping
-          ? <Loader2 className="h-4 w-4 animate-spin" />
-          : <ArrowUp className="h-4 w-4" />
-        }
-      </Button>
+          {/* Loading indicator or send icon */}
+          {isAssistantTyping
+            ? <Loader2 className="h-4 w-4 animate-spin" />
+            : <ArrowUp className="h-4 w-4" />
+          }
+        </Button>
+      )}
     </form>
   );
 }
\ No newline at end of file
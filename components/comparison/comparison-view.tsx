@@ -0,0 +1,243 @@
+import { Loader2, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { getRubric } from "@/lib/rubrics";
+import { formatArea } from "@/lib/measurements";
+import { Recommendation, UnitSystem } from "@/types/floor-analysis";
+import { ComparisonPlan, ComparisonSide, PlanComparison } from "@/types/comparison";
+import { AnalysisProgress } from "@/types/analysis-progress";
+import { FloorplanCard } from "@/components/analysis/floorplan-card";
+import { ScoreItem } from "@/components/analysis/score-card";
+import { RecommendationCard } from "@/components/analysis/recommendation-card";
+import { UploadArea } from "@/components/upload-area";
+import { Button } from "@/components/ui/button";
+import { Card, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+
+/**
+ * Titles of the two sides of a comparison
+ */
+const SIDE_TITLES: Record<ComparisonSide, string> = {
+  before: "Existing layout",
+  after: "Proposal",
+};
+
+/**
+ * Columns of the recommendation diff
+ */
+const CHANGE_COLUMNS = [
+  { key: "resolved", title: "Resolved", description: "Only in the earlier plan", className: "text-green-600" },
+  { key: "new", title: "New", description: "Only in the later plan", className: "text-red-600" },
+  { key: "unchanged", title: "Unchanged", description: "In both plans", className: "text-muted-foreground" },
+] as const;
+
+/**
+ * Interface for the component props
+ *
+ * @interface ComparisonViewProps
+ * @property {Record<ComparisonSide, ComparisonPlan | null>} plans - The existing layout and the proposal
+ * @property {PlanComparison | null} comparison - The diff, once both plans are analyzed
+ * @property {boolean} [isComparing=false] - Whether the diff is being calculated
+ * @property {string | null} [compareError] - Why the plans could not be compared
+ * @property {ComparisonSide | null} [analyzingSide] - The side whose plan is being analyzed
+ * @property {AnalysisProgress | null} [analyzingProgress] - The upload and analysis progress of that side
+ * @property {UnitSystem} [unitSystem="metric"] - The units for the areas
+ * @property {Record<ComparisonSide, string>} [titles] - The titles of the sides, the existing layout and the proposal by default
+ * @property {function} [onUpload] - Callback with the plan uploaded for a side, enables uploading missing plans
+ * @property {function} [onRemove] - Callback for removing the plan of a side, enables replacing plans
+ * @property {function} [onCancel] - Callback for cancelling the analysis of a side, shows a cancel button while analyzing
+ */
+interface ComparisonViewProps {
+  plans: Record<ComparisonSide, ComparisonPlan | null>;
+  comparison: PlanComparison | null;
+  isComparing?: boolean;
+  compareError?: string | null;
+  analyzingSide?: ComparisonSide | null;
+  analyzingProgress?: AnalysisProgress | null;
+  unitSystem?: UnitSystem;
+  titles?: Record<ComparisonSide, string>;
+  onUpload?: (side: ComparisonSide, file: File) => void;
+  onRemove?: (side: ComparisonSide) => void;
+  onCancel?: (side: ComparisonSide) => void;
+}
+
+/**
+ * Component of the before/after comparison
+ *
+ * Shows the existing layout and the proposal side by side, each in a
+ * floor plan card with its scores. The proposal's scores show the change
+ * from the existing layout, and the recommendations are split into
+ * resolved, new and unchanged findings.
+ *
+ * @component
+ * @param {ComparisonViewProps} props - The component props
+ *
+ * @example
+ * ```tsx
+ * <ComparisonView plans={plans} comparison={comparison} onUpload={handleUpload} onRemove={removePlan} />
+ * ```
+ */
+export const ComparisonView = ({
+  plans,
+  comparison,
+  isComparing = false,
+  compareError,
+  analyzingSide,
+  analyzingProgress = null,
+  unitSystem = "metric",
+  titles = SIDE_TITLES,
+  onUpload,
+  onRemove,
+  onCancel,
+}: ComparisonViewProps) => {
+  // Score changes by dimension id, shown on the proposal
+  const deltas = new Map(comparison?.scores.map(score => [score.dimensionId, score.delta]));
+
+  /**
+   * Renders one side: the upload area, or the plan with its scores
+   *
+   * @param {ComparisonSide} side - The side to render
+   * @returns {JSX.Element} The side of the comparison
+   */
+  const renderSide = (side: ComparisonSide) => {
+    const plan = plans[side];
+
+    if (!plan) {
+      return (
+        <div className="flex flex-col gap-3">
+          <h3 className="text-sm font-medium text-center">{titles[side]}</h3>
+          {onUpload && (
+            <UploadArea
+              onUpload={(file) => onUpload(side, file)}
+              onCancel={onCancel && analyzingSide === side ? () => onCancel(side) : undefined}
+              isAnalyzing={analyzingSide === side}
+              progress={analyzingSide === side ? analyzingProgress : null}
+            />
+          )}
+        </div>
+      );
+    }
+
+    const dimensions = getRubric(plan.analysis.rubricId)?.dimensions ?? [];
+
+    return (
+      <div className="flex flex-col gap-3">
+        <div className="flex items-center justify-center gap-2">
+          <h3 className="text-sm font-medium">{titles[side]}</h3>
+          {onRemove && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              title={`Replace the ${titles[side].toLowerCase()}`}
+              onClick={() => onRemove(side)}
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          )}
+        </div>
+        <FloorplanCard imageUrl={plan.imageUrl} originalImageUrl={plan.originalImageUrl} rooms={plan.analysis.rooms} unitSystem={unitSystem}>
+          <div className="grid grid-cols-2 gap-4">
+            {dimensions.map(dimension => (
+              <ScoreItem
+                key={dimension.id}
+                label={dimension.label}
+                description={dimension.description}
+                score={plan.analysis.scores[dimension.id]}
+                detail={plan.analysis.scoreDetails[dimension.id]}
+                spread={plan.analysis.ensemble?.spread[dimension.id]}
+                delta={side === "after" ? deltas.get(dimension.id) : undefined}
+              />
+            ))}
+          </div>
+        </FloorplanCard>
+      </div>
+    );
+  };
+
+  /**
+   * Renders a finding of the recommendation diff
+   *
+   * @param {Recommendation} recommendation - The finding
+   * @param {string} key - The React key
+   * @returns {JSX.Element} The recommendation card
+   */
+  const renderRecommendation = (recommendation: Recommendation, key: string) => (
+    <RecommendationCard
+      key={key}
+      area={recommendation.area}
+      priority={recommendation.priority}
+      issue={recommendation.issue}
+      suggestion={recommendation.suggestion}
+    />
+  );
+
+  const formatDelta = (delta: number) => delta > 0 ? `+${delta}` : `${delta}`;
+
+  return (
+    <div className="w-full max-w-6xl mx-auto flex flex-col gap-8 p-6">
+      {/* Both plans side by side */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {renderSide("before")}
+        {renderSide("after")}
+      </div>
+
+      {isComparing && (
+        <p className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Comparing the plans...
+        </p>
+      )}
+      {compareError && (
+        <p className="text-center text-sm text-destructive">
+          The plans could not be compared: {compareError}
+        </p>
+      )}
+
+      {comparison && (
+        <>
+          {/* Summary of the change */}
+          <Card className="shadow-card">
+            <CardHeader>
+              <CardTitle>
+                Overall score {comparison.overall.before} → {comparison.overall.after}{" "}
+                <span
+                  className={cn(
+                    "text-base",
+                    comparison.overall.delta > 0 ? "text-green-600" : comparison.overall.delta < 0 ? "text-red-600" : "text-muted-foreground"
+                  )}
+                >
+                  ({formatDelta(comparison.overall.delta)})
+                </span>
+              </CardTitle>
+              <CardDescription>
+                {comparison.recommendations.resolved.length} resolved, {comparison.recommendations.new.length} new
+                and {comparison.recommendations.unchanged.length} unchanged findings.
+                {comparison.area.before !== null && comparison.area.after !== null && (
+                  <> Total area {formatArea(comparison.area.before, unitSystem)} → {formatArea(comparison.area.after, unitSystem)}.</>
+                )}
+              </CardDescription>
+            </CardHeader>
+          </Card>
+
+          {/* Recommendations sorted by what happened to them */}
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            {CHANGE_COLUMNS.map(({ key, title, description, className }) => (
+              <div key={key} className="flex flex-col gap-4">
+                <div>
+                  <h3 className={cn("font-medium", className)}>
+                    {title} ({comparison.recommendations[key].length})
+                  </h3>
+                  <p className="text-xs text-muted-foreground">{description}</p>
+                </div>
+                {key === "unchanged"
+                  ? comparison.recommendations.unchanged.map(({ after }, index) =>
+                    renderRecommendation(after, `${key}-${index}`))
+                  : comparison.recommendations[key].map((recommendation, index) =>
+                    renderRecommendation(recommendation, `${key}-${index}`))}
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
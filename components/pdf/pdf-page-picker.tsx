@@ -0,0 +1,123 @@
+import { useState } from "react";
+import Image from "next/image";
+import { Check } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { PdfPage } from "@/types/pdf";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+
+/**
+ * Interface for the component props
+ *
+ * @interface PdfPagePickerProps
+ * @property {string} fileName - The name of the PDF
+ * @property {PdfPage[]} pages - The pages with their thumbnails
+ * @property {boolean} [multiple=false] - Whether several pages can be picked, each is analyzed on its own
+ * @property {function} onConfirm - Callback with the picked pages, in page order
+ * @property {function} onCancel - Callback for closing the picker without analyzing
+ */
+interface PdfPagePickerProps {
+  fileName: string;
+  pages: PdfPage[];
+  multiple?: boolean;
+  onConfirm: (pages: PdfPage[]) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Component for picking the pages of a PDF to analyze
+ *
+ * Shows a thumbnail of every page. With `multiple`, pages are toggled
+ * (e.g. one page per floor), otherwise clicking a page picks it alone.
+ *
+ * @component
+ * @param {PdfPagePickerProps} props - The component props
+ *
+ * @example
+ * ```tsx
+ * <PdfPagePicker fileName={file.name} pages={pages} multiple onConfirm={handleConfirm} onCancel={close} />
+ * ```
+ */
+export const PdfPagePicker = ({
+  fileName,
+  pages,
+  multiple = false,
+  onConfirm,
+  onCancel,
+}: PdfPagePickerProps) => {
+  // Numbers of the picked pages, the first page by default
+  const [selected, setSelected] = useState<number[]>([pages[0].number]);
+
+  /**
+   * Handler for clicking a page
+   *
+   * @param {number} number - The page number
+   */
+  const handleToggle = (number: number) => {
+    if (!multiple) {
+      setSelected([number]);
+      return;
+    }
+    setSelected(prev => prev.includes(number)
+      ? prev.filter(item => item !== number)
+      : [...prev, number].sort((a, b) => a - b));
+  };
+
+  return (
+    <Card className="shadow-card w-full max-w-2xl mx-auto">
+      <CardHeader>
+        <CardTitle className="truncate">{fileName}</CardTitle>
+        <CardDescription>
+          {multiple
+            ? "Pick the pages with floor plans. Each page is analyzed as its own floor."
+            : "Pick the page with the floor plan."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-3 max-h-[420px] overflow-y-auto p-1">
+          {pages.map(page => {
+            const isSelected = selected.includes(page.number);
+            return (
+              <button
+                key={page.number}
+                type="button"
+                className={cn(
+                  "relative flex flex-col items-center gap-1 rounded-md border p-2 text-xs transition-colors",
+                  isSelected ? "border-primary ring-2 ring-primary" : "hover:border-primary/50"
+                )}
+                aria-pressed={isSelected}
+                onClick={() => handleToggle(page.number)}
+              >
+                <Image
+                  src={page.thumbnailUrl}
+                  alt={`Page ${page.number}`}
+                  className="h-32 w-full object-contain bg-white"
+                  width={240}
+                  height={240}
+                />
+                <span className="text-muted-foreground">Page {page.number}</span>
+                {isSelected && (
+                  <span className="absolute top-1 right-1 rounded-full bg-primary p-0.5 text-primary-foreground">
+                    <Check className="h-3 w-3" />
+                  </span>
+                )}
+              </button>
+            );
+          })}
+        </div>
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" size="sm" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button
+            size="sm"
+            disabled={selected.length === 0}
+            onClick={() => onConfirm(pages.filter(page => selected.includes(page.number)))}
+          >
+            Analyze {selected.length > 1 ? `${selected.length} pages` : "page"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,191 @@
+import { useState } from "react";
+import { ArrowDown, ArrowUp, Building2, Check, FilePlus2, Pencil, Plus, Trash2 } from "lucide-react";
+import { PropertyFloor } from "@/types/property";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+/**
+ * Interface for the component props
+ *
+ * @interface FloorSwitcherProps
+ * @property {PropertyFloor[]} floors - The floors, from the lowest
+ * @property {string | null} activeFloorId - The id of the floor on screen
+ * @property {boolean} isPropertyView - Whether the property overview is on screen instead of a floor
+ * @property {function} onSelectFloor - Callback for choosing a floor
+ * @property {function} onSelectProperty - Callback for choosing the property overview
+ * @property {function} onRename - Callback with the new label of the active floor
+ * @property {function} onMove - Callback for moving the active floor down (-1) or up (1)
+ * @property {function} onRemove - Callback for removing the active floor
+ * @property {function} onAddFloor - Callback for uploading another floor
+ * @property {function} onAddRevision - Callback for uploading a revision of the active floor
+ */
+interface FloorSwitcherProps {
+  floors: PropertyFloor[];
+  activeFloorId: string | null;
+  isPropertyView: boolean;
+  onSelectFloor: (id: string) => void;
+  onSelectProperty: () => void;
+  onRename: (id: string, label: string) => void;
+  onMove: (id: string, direction: -1 | 1) => void;
+  onRemove: (id: string) => void;
+  onAddFloor: () => void;
+  onAddRevision: (id: string) => void;
+}
+
+/**
+ * Component for switching between the floors of a property
+ *
+ * Shows a chip per floor (lowest first) and, with more than one floor,
+ * a chip for the property overview. The active floor can be renamed,
+ * moved up or down, removed or get a new revision of its plan.
+ *
+ * @component
+ * @param {FloorSwitcherProps} props - The component props
+ *
+ * @example
+ * ```tsx
+ * <FloorSwitcher
+ *   floors={floors}
+ *   activeFloorId={activeFloor?.id ?? null}
+ *   isPropertyView={false}
+ *   onSelectFloor={setActiveFloorId}
+ *   ...
+ * />
+ * ```
+ */
+export const FloorSwitcher = ({
+  floors,
+  activeFloorId,
+  isPropertyView,
+  onSelectFloor,
+  onSelectProperty,
+  onRename,
+  onMove,
+  onRemove,
+  onAddFloor,
+  onAddRevision,
+}: FloorSwitcherProps) => {
+  // Label being typed while renaming the active floor, null when not renaming
+  const [draftLabel, setDraftLabel] = useState<string | null>(null);
+
+  const activeIndex = floors.findIndex(floor => floor.id === activeFloorId);
+  const activeFloor = isPropertyView ? undefined : floors[activeIndex];
+
+  /**
+   * Handler for submitting the new floor label
+   *
+   * @param {React.FormEvent} e - The submit event
+   */
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    const label = draftLabel?.trim();
+    if (activeFloor && label) onRename(activeFloor.id, label);
+    setDraftLabel(null);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 px-6">
+      {/* Property overview, only useful with several floors */}
+      {floors.length > 1 && (
+        <Button
+          variant={isPropertyView ? "default" : "outline"}
+          size="sm"
+          className="gap-1"
+          onClick={onSelectProperty}
+        >
+          <Building2 className="h-4 w-4" />
+          Property
+        </Button>
+      )}
+
+      {/* Floor chips, from the lowest floor */}
+      {floors.map(floor => (
+        <Button
+          key={floor.id}
+          variant={!isPropertyView && floor.id === activeFloorId ? "default" : "outline"}
+          size="sm"
+          onClick={() => {
+            setDraftLabel(null);
+            onSelectFloor(floor.id);
+          }}
+        >
+          {floor.label}
+        </Button>
+      ))}
+
+      <Button variant="ghost" size="sm" className="gap-1" onClick={onAddFloor}>
+        <Plus className="h-4 w-4" />
+        Add floor
+      </Button>
+
+      {/* Actions for the active floor */}
+      {activeFloor && (
+        <div className="ml-auto flex items-center gap-1">
+          {draftLabel !== null ? (
+            <form onSubmit={handleRename} className="flex items-center gap-1">
+              <Input
+                aria-label="Floor name"
+                autoFocus
+                className="h-8 w-36 text-sm"
+                value={draftLabel}
+                onChange={(e) => setDraftLabel(e.target.value)}
+                onKeyDown={(e) => e.key === "Escape" && setDraftLabel(null)}
+              />
+              <Button type="submit" variant="ghost" size="icon" className="h-8 w-8" title="Save name">
+                <Check className="h-4 w-4" />
+              </Button>
+            </form>
+          ) : (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              title="Rename floor"
+              onClick={() => setDraftLabel(activeFloor.label)}
+            >
+              <Pencil className="h-4 w-4" />
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            title="Upload a revision of this plan"
+            onClick={() => onAddRevision(activeFloor.id)}
+          >
+            <FilePlus2 className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            title="Move floor down"
+            disabled={activeIndex === 0}
+            onClick={() => onMove(activeFloor.id, -1)}
+          >
+            <ArrowDown className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            title="Move floor up"
+            disabled={activeIndex === floors.length - 1}
+            onClick={() => onMove(activeFloor.id, 1)}
+          >
+            <ArrowUp className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 text-muted-foreground hover:text-destructive"
+            title="Remove floor"
+            onClick={() => onRemove(activeFloor.id)}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
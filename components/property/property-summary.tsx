@@ -0,0 +1,114 @@
+import { Check, X } from "lucide-react";
+import { formatArea } from "@/lib/measurements";
+import { UnitSystem } from "@/types/floor-analysis";
+import { PropertyAnalysis } from "@/types/property";
+import { RecommendationCard } from "@/components/analysis/recommendation-card";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+
+/**
+ * Interface for the component props
+ *
+ * @interface PropertySummaryProps
+ * @property {PropertyAnalysis} analysis - The property-level analysis
+ * @property {UnitSystem} [unitSystem="metric"] - The units to show the areas in
+ * @property {function} [onSelectFloor] - Callback for clicking a floor in the table
+ */
+interface PropertySummaryProps {
+  analysis: PropertyAnalysis;
+  unitSystem?: UnitSystem;
+  onSelectFloor?: (floorId: string) => void;
+}
+
+/**
+ * Component of the property overview
+ *
+ * Shows the rooms of every floor side by side (from the top floor down,
+ * like the building itself) and the findings that concern several floors:
+ * stairs, bathrooms per floor and the split of living areas and bedrooms.
+ *
+ * @component
+ * @param {PropertySummaryProps} props - The component props
+ *
+ * @example
+ * ```tsx
+ * <PropertySummary analysis={propertyAnalysis} onSelectFloor={setActiveFloorId} />
+ * ```
+ */
+export const PropertySummary = ({
+  analysis,
+  unitSystem = "metric",
+  onSelectFloor,
+}: PropertySummaryProps) => {
+  // Labels of the floors, findings name the floors they concern
+  const labels = new Map(analysis.floors.map(floor => [floor.floorId, floor.label]));
+
+  return (
+    <div className="w-full max-w-6xl mx-auto grid grid-cols-1 lg:grid-cols-3 gap-8 p-6">
+      {/* Floors of the property */}
+      <Card className="shadow-card">
+        <CardHeader>
+          <CardTitle>Floors</CardTitle>
+          <CardDescription>Rooms per floor, top floor first</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-muted-foreground">
+                <th className="pb-2 font-normal">Floor</th>
+                <th className="pb-2 font-normal text-center">Beds</th>
+                <th className="pb-2 font-normal text-center">Baths</th>
+                <th className="pb-2 font-normal text-center">Stairs</th>
+                <th className="pb-2 font-normal text-right">Area</th>
+              </tr>
+            </thead>
+            <tbody>
+              {[...analysis.floors].reverse().map(floor => (
+                <tr
+                  key={floor.floorId}
+                  className="border-t cursor-pointer hover:bg-muted"
+                  onClick={() => onSelectFloor?.(floor.floorId)}
+                >
+                  <td className="py-2 pr-2 truncate">{floor.label}</td>
+                  <td className="py-2 text-center tabular-nums">{floor.bedrooms}</td>
+                  <td className="py-2 text-center tabular-nums">{floor.bathrooms}</td>
+                  <td className="py-2">
+                    {floor.stairs
+                      ? <Check className="mx-auto h-4 w-4 text-green-600" aria-label="Stairs found" />
+                      : <X className="mx-auto h-4 w-4 text-destructive" aria-label="No stairs found" />}
+                  </td>
+                  <td className="py-2 text-right text-xs text-muted-foreground tabular-nums">
+                    {floor.area !== null ? formatArea(floor.area, unitSystem) : "—"}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </CardContent>
+      </Card>
+
+      {/* Findings across floors */}
+      <div className="lg:col-span-2 flex flex-col gap-4">
+        <Card className="shadow-card">
+          <CardHeader>
+            <CardTitle>Property Results</CardTitle>
+            <CardDescription>
+              {analysis.findings.length > 0
+                ? "How the floors work together: stairs, bathrooms on each floor and where living and sleeping happen."
+                : "The floors work well together, no issues found with the stairs, bathrooms or the living and bedroom split."}
+            </CardDescription>
+          </CardHeader>
+        </Card>
+
+        {analysis.findings.map((finding, index) => (
+          <RecommendationCard
+            key={`${finding.floorIds.join("-")}-${index}`}
+            area={finding.floorIds.map(id => labels.get(id) ?? id).join(" / ")}
+            priority={finding.priority}
+            issue={finding.issue}
+            suggestion={finding.suggestion}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,205 @@
+import { useState } from "react";
+import { Columns2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { getRubric } from "@/lib/rubrics";
+import { PlanRevision } from "@/types/property";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+
+/**
+ * Colors of the score lines, in the order of the rubric dimensions
+ */
+const LINE_COLORS = [
+  { stroke: "stroke-sky-500", fill: "fill-sky-500", swatch: "bg-sky-500" },
+  { stroke: "stroke-amber-500", fill: "fill-amber-500", swatch: "bg-amber-500" },
+  { stroke: "stroke-emerald-500", fill: "fill-emerald-500", swatch: "bg-emerald-500" },
+  { stroke: "stroke-violet-500", fill: "fill-violet-500", swatch: "bg-violet-500" },
+  { stroke: "stroke-rose-500", fill: "fill-rose-500", swatch: "bg-rose-500" },
+  { stroke: "stroke-teal-500", fill: "fill-teal-500", swatch: "bg-teal-500" },
+];
+
+/**
+ * Size of the chart in SVG units
+ */
+const CHART = { width: 400, height: 160, padding: 24 };
+
+/**
+ * Interface for the component props
+ *
+ * @interface RevisionTimelineProps
+ * @property {PlanRevision[]} revisions - The revisions of the plan, oldest first
+ * @property {number} activeRevision - The number of the revision on screen
+ * @property {function} onSelect - Callback with the number of the chosen revision
+ * @property {function} onCompare - Callback with the numbers of two revisions to open side by side
+ */
+interface RevisionTimelineProps {
+  revisions: PlanRevision[];
+  activeRevision: number;
+  onSelect: (number: number) => void;
+  onCompare: (before: number, after: number) => void;
+}
+
+/**
+ * Component of the revision timeline of a plan
+ *
+ * Draws a line per rubric dimension showing how the score moved across
+ * the revisions, lets the user open any revision and pick two revisions
+ * to compare side by side.
+ *
+ * @component
+ * @param {RevisionTimelineProps} props - The component props
+ *
+ * @example
+ * ```tsx
+ * <RevisionTimeline
+ *   revisions={floor.revisions}
+ *   activeRevision={floor.activeRevision}
+ *   onSelect={(number) => setActiveRevision(floor.id, number)}
+ *   onCompare={handleCompareRevisions}
+ * />
+ * ```
+ */
+export const RevisionTimeline = ({
+  revisions,
+  activeRevision,
+  onSelect,
+  onCompare,
+}: RevisionTimelineProps) => {
+  const latest = revisions[revisions.length - 1];
+  // Revisions picked for the side-by-side view, the previous and the latest by default
+  const [compareBefore, setCompareBefore] = useState(revisions[revisions.length - 2]?.number ?? latest.number);
+  const [compareAfter, setCompareAfter] = useState(latest.number);
+
+  const dimensions = getRubric(latest.analysis.rubricId)?.dimensions ?? [];
+
+  // Converts a revision index and a score to chart coordinates
+  const innerWidth = CHART.width - CHART.padding * 2;
+  const innerHeight = CHART.height - CHART.padding * 2;
+  const toX = (index: number) =>
+    CHART.padding + (revisions.length > 1 ? (index / (revisions.length - 1)) * innerWidth : innerWidth / 2);
+  const toY = (score: number) => CHART.padding + ((100 - score) / 100) * innerHeight;
+
+  return (
+    <Card className="shadow-card mx-6">
+      <CardHeader>
+        <CardTitle>Revisions</CardTitle>
+        <CardDescription>How the scores moved across {revisions.length} revisions of this plan</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Score lines */}
+        <svg viewBox={`0 0 ${CHART.width} ${CHART.height}`} className="w-full h-auto" role="img" aria-label="Scores by revision">
+          {[0, 50, 100].map(score => (
+            <g key={score}>
+              <line
+                x1={CHART.padding}
+                x2={CHART.width - CHART.padding}
+                y1={toY(score)}
+                y2={toY(score)}
+                className="stroke-border"
+                strokeDasharray="4 4"
+              />
+              <text x={CHART.padding - 6} y={toY(score) + 3} textAnchor="end" className="fill-muted-foreground text-[9px]">
+                {score}
+              </text>
+            </g>
+          ))}
+          {revisions.map((revision, index) => (
+            <text
+              key={revision.number}
+              x={toX(index)}
+              y={CHART.height - 6}
+              textAnchor="middle"
+              className={cn("text-[9px] cursor-pointer", revision.number === activeRevision ? "fill-foreground font-medium" : "fill-muted-foreground")}
+              onClick={() => onSelect(revision.number)}
+            >
+              Rev {revision.number}
+            </text>
+          ))}
+          {dimensions.map((dimension, dimensionIndex) => {
+            const color = LINE_COLORS[dimensionIndex % LINE_COLORS.length];
+            const points = revisions
+              .map((revision, index) => ({ revision, index, score: revision.analysis.scores[dimension.id] }))
+              .filter(({ score }) => score !== undefined);
+
+            return (
+              <g key={dimension.id}>
+                <polyline
+                  points={points.map(({ index, score }) => `${toX(index)},${toY(score)}`).join(" ")}
+                  className={cn("fill-none", color.stroke)}
+                  strokeWidth={2}
+                />
+                {points.map(({ revision, index, score }) => (
+                  <circle
+                    key={revision.number}
+                    cx={toX(index)}
+                    cy={toY(score)}
+                    r={revision.number === activeRevision ? 4 : 3}
+                    className={cn("cursor-pointer", color.fill)}
+                    onClick={() => onSelect(revision.number)}
+                  >
+                    <title>{`${dimension.label}, revision ${revision.number}: ${score}`}</title>
+                  </circle>
+                ))}
+              </g>
+            );
+          })}
+        </svg>
+
+        {/* Legend */}
+        <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+          {dimensions.map((dimension, index) => (
+            <span key={dimension.id} className="flex items-center gap-1">
+              <span className={cn("h-2 w-2 rounded-full", LINE_COLORS[index % LINE_COLORS.length].swatch)} />
+              {dimension.label}
+            </span>
+          ))}
+        </div>
+
+        {/* Revision picker */}
+        <div className="flex flex-wrap gap-2">
+          {revisions.map(revision => (
+            <Button
+              key={revision.number}
+              variant={revision.number === activeRevision ? "default" : "outline"}
+              size="sm"
+              onClick={() => onSelect(revision.number)}
+            >
+              Revision {revision.number}
+            </Button>
+          ))}
+        </div>
+
+        {/* Two revisions side by side */}
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-muted-foreground">Compare</span>
+          {[
+            { value: compareBefore, onChange: setCompareBefore, label: "First revision" },
+            { value: compareAfter, onChange: setCompareAfter, label: "Second revision" },
+          ].map(({ value, onChange, label }) => (
+            <select
+              key={label}
+              aria-label={label}
+              className="h-8 rounded-md border bg-background px-2 text-sm"
+              value={value}
+              onChange={(e) => onChange(Number(e.target.value))}
+            >
+              {revisions.map(revision => (
+                <option key={revision.number} value={revision.number}>Revision {revision.number}</option>
+              ))}
+            </select>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-1"
+            disabled={compareBefore === compareAfter}
+            onClick={() => onCompare(compareBefore, compareAfter)}
+          >
+            <Columns2 className="h-4 w-4" />
+            Side by side
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
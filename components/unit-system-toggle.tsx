@@ -0,0 +1,62 @@
+import { cn } from "@/lib/utils";
+import { UnitSystem } from "@/types/floor-analysis";
+
+/**
+ * Labels of the unit systems
+ */
+const UNIT_SYSTEM_LABELS: Record<UnitSystem, string> = {
+  metric: "m²",
+  imperial: "ft²",
+};
+
+/**
+ * Interface for the component props
+ * 
+ * @interface UnitSystemToggleProps
+ * @property {UnitSystem} value - The selected unit system
+ * @property {function} onChange - Callback for choosing a unit system
+ * @property {string} [className] - Additional classes
+ */
+interface UnitSystemToggleProps {
+  value: UnitSystem;
+  onChange: (value: UnitSystem) => void;
+  className?: string;
+}
+
+/**
+ * Component for switching between metric and imperial units
+ * 
+ * @component
+ * @param {UnitSystemToggleProps} props - The component props
+ * 
+ * @example
+ * ```tsx
+ * <UnitSystemToggle value={unitSystem} onChange={setUnitSystem} />
+ * ```
+ */
+export const UnitSystemToggle = ({ value, onChange, className }: UnitSystemToggleProps) => {
+  return (
+    <div
+      role="radiogroup"
+      aria-label="Units"
+      className={cn("inline-flex rounded-md border border-gray-100 bg-white/70 p-0.5 shadow-card", className)}
+    >
+      {(Object.keys(UNIT_SYSTEM_LABELS) as UnitSystem[]).map(system => (
+        <button
+          key={system}
+          type="button"
+          role="radio"
+          aria-checked={value === system}
+          title={system === "metric" ? "Metric units" : "Imperial units"}
+          className={cn(
+            "rounded px-3 py-1 text-sm transition-colors cursor-pointer",
+            value === system ? "bg-primary text-primary-foreground" : "text-muted-foreground hover:text-foreground"
+          )}
+          onClick={() => onChange(system)}
+        >
+          {UNIT_SYSTEM_LABELS[system]}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -5,6 +5,8 @@ import { Upload, Loader2, FileText, CheckCircle, AlertCircle, X } from "lucide-r
 import { Button } from "@/components/ui/button"
 import { Progress } from "@/components/ui/progress"
 import { cn } from "@/lib/utils"
+import { getProgressLabel, getProgressPercent } from "@/lib/analysis-progress"
+import { AnalysisProgress } from "@/types/analysis-progress"
 import { useFileUpload } from "@/hooks/use-file-upload"
 import { AnimatePresence, motion } from "framer-motion"
 import Image from "next/image"
@@ -27,24 +29,47 @@ interface FileInfo {
  * Interface for the component props
  * 
  * @interface UploadAreaProps
- * @property {function} onUpload - Callback for processing the uploaded file
+ * @property {function} onUpload - Callback for processing the uploaded file, called for each file with `multiple`
  * @property {function} [onReset] - Optional callback for resetting the state
+ * @property {function} [onCancel] - Callback for cancelling the analysis in progress, shows a cancel button while analyzing
  * @property {number} [maxSizeMB=10] - Maximum file size in MB
- * @property {string[]} [allowedTypes] - Allowed file types
- * @property {boolean} [multiple=false] - Allow multiple uploads
+ * @property {string[]} [allowedTypes] - Allowed MIME types, or extensions such as ".dxf" for files browsers report without a type
+ * @property {boolean} [multiple=false] - Accept several files at once, e.g. for a batch queue shown elsewhere
  * @property {boolean} [isAnalyzing=false] - Flag for the analysis process
+ * @property {AnalysisProgress | null} [progress] - The upload and analysis progress, shown while analyzing
  * @property {boolean} [isUploaded=false] - Flag for successful upload
  */
 interface UploadAreaProps {
   onUpload: (file: File) => void
   onReset?: () => void
+  onCancel?: () => void
   maxSizeMB?: number
   allowedTypes?: string[]
   multiple?: boolean
   isAnalyzing?: boolean
+  progress?: AnalysisProgress | null
   isUploaded?: boolean
 }
 
+/**
+ * Checks whether a file is of an allowed type, extensions are matched against the file name
+ * 
+ * @param {File} file - The file to check
+ * @param {string} type - A MIME type or an extension
+ * @returns {boolean} True, if the file is of the type
+ */
+const matchesType = (file: File, type: string): boolean =>
+  type.startsWith(".") ? file.name.toLowerCase().endsWith(type) : file.type === type
+
+/**
+ * Returns the short name of a file type, e.g. "PNG" for "image/png" and "SVG" for "image/svg+xml"
+ * 
+ * @param {string} type - A MIME type or an extension
+ * @returns {string} The name to display
+ */
+const typeLabel = (type: string): string =>
+  (type.startsWith(".") ? type.slice(1) : type.split("/")[1].split("+")[0]).toUpperCase()
+
 
 /**
  * Component of the upload area
@@ -58,14 +83,14 @@ interface UploadAreaProps {
 export const UploadArea = ({
   onUpload,
   onReset,
+  onCancel,
   maxSizeMB = 10,
-  allowedTypes = ["image/jpeg", "image/png", "application/pdf"],
+  allowedTypes = ["image/jpeg", "image/png", "image/webp", "application/pdf", "image/svg+xml", ".dxf"],
   multiple = false,
   isAnalyzing = false,
+  progress = null,
   isUploaded = false,
 }: UploadAreaProps) => {
-  // State for upload progress
-  const [uploadProgress, setUploadProgress] = useState<number>(0)
   // State for upload error
   const [uploadError, setUploadError] = useState<string | null>(null)
   // State for preview URL
@@ -82,23 +107,19 @@ export const UploadArea = ({
    * File validation
    * 
    * @param {File} file - The file to check
-   * @returns {boolean} The result of validation
+   * @returns {string | null} Why the file cannot be uploaded, or null if it is valid
    */
-  const validateFile = (file: File): boolean => {
-    if (!allowedTypes.includes(file.type)) {
-      setUploadError(
-        `Invalid file type. Please upload ${allowedTypes.map((type) => type.split("/")[1]).join(", ")} files.`,
-      )
-      return false
+  const getFileError = (file: File): string | null => {
+    if (!allowedTypes.some((type) => matchesType(file, type))) {
+      return `Invalid file type. Please upload ${allowedTypes.map(typeLabel).join(", ")} files.`
     }
 
     // Check file size
     if (file.size > maxSizeMB * 1024 * 1024) {
-      setUploadError(`File is too large. Maximum size is ${maxSizeMB}MB.`)
-      return false
+      return `File is too large. Maximum size is ${maxSizeMB}MB.`
     }
 
-    return true
+    return null
   }
 
 
@@ -121,15 +142,16 @@ export const UploadArea = ({
    * @returns {boolean} The result of the upload
    */
   const handleUploadStart = (file: File) => {
-    setUploadError(null)
+    const error = getFileError(file)
+    setUploadError(error)
 
-    if (!validateFile(file)) return false
+    if (error) return false
 
     // Set file info
     setFileInfo(prev => ({
       ...prev,
       fileName: file.name,
-      fileType: file.type,
+      fileType: allowedTypes.find((type) => matchesType(file, type)) ?? file.type,
       fileSize: formatFileSize(file.size),
     }))
 
@@ -148,6 +170,23 @@ export const UploadArea = ({
   }
 
 
+  /**
+   * Handle several files at once
+   * Every valid file is passed on, the upload area itself stays ready for more
+   * 
+   * @param {File[]} files - The dropped or selected files
+   */
+  const handleUploadMany = (files: File[]) => {
+    const rejected = files.filter((file) => getFileError(file) !== null)
+
+    setUploadError(rejected.length > 0
+      ? `Skipped ${rejected.map((file) => file.name).join(", ")}. Please upload ${allowedTypes.map(typeLabel).join(", ")} files up to ${maxSizeMB}MB.`
+      : null)
+
+    files.filter((file) => !rejected.includes(file)).forEach((file) => onUpload(file))
+  }
+
+
   /**
    * Reset upload state
    */
@@ -159,7 +198,6 @@ export const UploadArea = ({
       fileType: null,
       fileSize: null,
     }))
-    setUploadProgress(0)
     setUploadError(null)
 
     if (fileInputRef.current) {
@@ -174,7 +212,6 @@ export const UploadArea = ({
   // Hook for handling file uploads
   const {
     isDragging,
-    isUploading,
     fileInputRef,
     handleDragOver,
     handleDragLeave,
@@ -182,10 +219,16 @@ export const UploadArea = ({
     handleClick,
     handleFileChange,
   } = useFileUpload({
-    onUpload: (file) => {
-      const isValid = handleUploadStart(file)
-      if (isValid) onUpload(file)
+    onUpload: (files) => {
+      if (multiple) {
+        handleUploadMany(files)
+        return
+      }
+
+      const isValid = handleUploadStart(files[0])
+      if (isValid) onUpload(files[0])
     },
+    multiple,
   })
 
   return (
@@ -227,7 +270,7 @@ export const UploadArea = ({
               : uploadError
                 ? "border-destructive bg-destructive/5"
                 : "border-border hover:border-primary/50 hover:bg-primary/5",
-          (isUploading || isAnalyzing)
+          isAnalyzing
             ? "pointer-events-none"
             : "cursor-pointer",
           previewUrl
@@ -243,7 +286,7 @@ export const UploadArea = ({
           type="file"
           ref={fileInputRef}
           onChange={handleFileChange}
-          accept="image/*"
+          accept={allowedTypes.join(",")}
           multiple={multiple}
           className="hidden"
           aria-label="Upload file"
@@ -259,28 +302,33 @@ export const UploadArea = ({
               className="flex flex-col items-center w-full p-4"
             >
               <Loader2 className="h-10 w-10 text-primary animate-spin mb-4" />
-              <p className="text-lg font-medium">Analyzing your floorplan...</p>
-              <p className="text-sm text-muted-foreground mt-2 mb-4">
-                This will only take a moment
+              <p className="text-lg font-medium">
+                {progress?.stage === "uploading" ? "Uploading your floorplan..." : "Analyzing your floorplan..."}
               </p>
-            </motion.div>
-          ) : isUploading ? (
-            <motion.div
-              key="uploading"
-              initial={{ opacity: 0, scale: 0.9 }}
-              animate={{ opacity: 1, scale: 1 }}
-              exit={{ opacity: 0, scale: 0.9 }}
-              className="flex flex-col items-center w-full p-4"
-            >
-              <Loader2 className="h-10 w-10 text-primary animate-spin mb-4" />
-              <p className="text-lg font-medium">Processing your floorplan...</p>
               <p className="text-sm text-muted-foreground mt-2 mb-4">
-                This will only take a moment
+                {progress ? getProgressLabel(progress) : "This will only take a moment"}
               </p>
-              <div className="w-full max-w-md">
-                <Progress value={uploadProgress} className="h-2" />
-                <p className="text-xs text-right mt-1 text-muted-foreground">{uploadProgress}%</p>
-              </div>
+              {progress && (
+                <div className="w-full max-w-md">
+                  <Progress value={getProgressPercent(progress)} className="h-2" />
+                  <p className="text-xs text-right mt-1 text-muted-foreground">{getProgressPercent(progress)}%</p>
+                </div>
+              )}
+              {onCancel && (
+                // The area ignores the pointer while analyzing, the button takes it back
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="mt-4 gap-2 pointer-events-auto"
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    onCancel()
+                  }}
+                >
+                  <X className="h-4 w-4" />
+                  <span>Cancel analysis</span>
+                </Button>
+              )}
             </motion.div>
           ) : isUploaded ? (
             <motion.div
@@ -331,7 +379,7 @@ export const UploadArea = ({
                 <div className="flex-1">
                   <h3 className="font-medium text-lg truncate">{fileInfo.fileName}</h3>
                   <div className="text-sm text-muted-foreground space-y-1 mt-1">
-                    <p>{fileInfo.fileType?.split("/")[1].toUpperCase()}</p>
+                    <p>{fileInfo.fileType && typeLabel(fileInfo.fileType)}</p>
                     <p>{fileInfo.fileSize}</p>
                   </div>
                   <div className="mt-3 flex gap-2">
@@ -360,14 +408,14 @@ export const UploadArea = ({
               <div className="w-16 h-16 rounded-full bg-primary/10 flex items-center justify-center mb-4">
                 <Upload className="h-8 w-8 text-primary" />
               </div>
-              <h3 className="text-lg font-medium mb-1">Upload your floorplan</h3>
+              <h3 className="text-lg font-medium mb-1">Upload your floorplan{multiple && "s"}</h3>
               <p className="text-sm text-muted-foreground text-center mb-6 max-w-md">
-                Drag and drop your floorplan image, or click to browse. We support{" "}
-                {allowedTypes.map((type) => type.split("/")[1].toUpperCase()).join(", ")} files up to {maxSizeMB}MB.
+                Drag and drop your floorplan {multiple ? "images" : "image"}, or click to browse. We support{" "}
+                {allowedTypes.map(typeLabel).join(", ")} files up to {maxSizeMB}MB.
               </p>
               <Button variant="outline" className="gap-2 group">
                 <Upload className="h-4 w-4 transition-transform group-hover:-translate-y-1" />
-                <span>Select File</span>
+                <span>{multiple ? "Select Files" : "Select File"}</span>
               </Button>
             </motion.div>
           )}
@@ -0,0 +1,199 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { AnalysisMode, UnitSystem } from "@/types/floor-analysis";
+import { BatchItem } from "@/types/batch";
+import { getVectorFormat } from "@/lib/vector-plan";
+import { apiService } from "@/services/api.service";
+
+/**
+ * Number of plans analyzed at the same time
+ */
+const BATCH_CONCURRENCY = 3;
+
+/**
+ * Interface for the options every plan of the batch is analyzed with
+ *
+ * @interface BatchAnalyzeOptions
+ * @property {AnalysisMode} [mode] - The analysis mode
+ * @property {number} [samples] - The number of samples of an ensemble analysis
+ * @property {UnitSystem} [unitSystem] - The units the findings are written in
+ */
+interface BatchAnalyzeOptions {
+  mode?: AnalysisMode;
+  samples?: number;
+  unitSystem?: UnitSystem;
+}
+
+/**
+ * Releases the object URL of an item's image, data URLs need no release
+ *
+ * @param {BatchItem} item - The item
+ */
+const releaseItem = (item: BatchItem) => {
+  if (item.imageUrl?.startsWith("blob:")) URL.revokeObjectURL(item.imageUrl);
+};
+
+/**
+ * Hook for analyzing many plans as a queue
+ *
+ * Added files wait in the queue and are analyzed a few at a time, each with
+ * its own status and progress. Failed or cancelled plans can be retried,
+ * queued and running plans can be cancelled. The options are read when a
+ * plan starts, so changing them affects the plans still waiting.
+ *
+ * @param {BatchAnalyzeOptions} options - The analysis options
+ * @returns {Object} The items, whether the batch is finished and the actions
+ *
+ * @example
+ * ```tsx
+ * const { items, isFinished, addFiles, cancel, retry } = useBatchQueue({ unitSystem });
+ * ```
+ */
+export const useBatchQueue = (options: BatchAnalyzeOptions) => {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  // Cancels the running analyses by item id
+  const controllers = useRef(new Map<string, AbortController>());
+  const nextId = useRef(1);
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  /**
+   * Changes the fields of one item
+   *
+   * @param {string} id - The id of the item
+   * @param {Partial<BatchItem>} changes - The changed fields
+   */
+  const updateItem = useCallback((id: string, changes: Partial<BatchItem>) => {
+    setItems(prev => prev.map(item => item.id === id ? { ...item, ...changes } : item));
+  }, []);
+
+  /**
+   * Analyzes one item, its result or failure is stored on the item
+   *
+   * @param {BatchItem} item - The queued item
+   */
+  const startItem = useCallback((item: BatchItem) => {
+    const controller = new AbortController();
+    controllers.current.set(item.id, controller);
+    updateItem(item.id, { status: "analyzing", progress: null, error: undefined });
+
+    apiService.analyzeImage(item.file, {
+      ...optionsRef.current,
+      onProgress: progress => updateItem(item.id, { progress }),
+      signal: controller.signal,
+    })
+      .then(outcome => {
+        if (outcome.status !== "ok") {
+          updateItem(item.id, { status: "failed", progress: null, error: outcome.message });
+          return;
+        }
+
+        // PDFs and DXF drawings cannot be shown as an image, the rendered page or drawing stands in for the upload
+        const isPreviewable = item.file.type !== "application/pdf" && getVectorFormat(item.file) !== "dxf";
+        const imageUrl = outcome.image?.imageUrl ?? (isPreviewable ? URL.createObjectURL(item.file) : "");
+        updateItem(item.id, { status: "done", progress: null, analysis: outcome.analysis, imageUrl });
+      })
+      .catch((error: Error) => {
+        // Cancelled items are already marked as such
+        if (controller.signal.aborted) return;
+        updateItem(item.id, { status: "failed", progress: null, error: error.message });
+      })
+      .finally(() => {
+        // A retried item may already run with a new controller
+        if (controllers.current.get(item.id) === controller) controllers.current.delete(item.id);
+      });
+  }, [updateItem]);
+
+  /**
+   * Effect for working through the queue
+   * Starts the next queued items while fewer than BATCH_CONCURRENCY are running
+   */
+  useEffect(() => {
+    const running = items.filter(item => item.status === "analyzing").length;
+
+    items
+      .filter(item => item.status === "queued" && !controllers.current.has(item.id))
+      .slice(0, Math.max(0, BATCH_CONCURRENCY - running))
+      .forEach(startItem);
+  }, [items, startItem]);
+
+  /**
+   * Effect for cancelling the running analyses when the page is left
+   */
+  useEffect(() => {
+    const running = controllers.current;
+    return () => running.forEach(controller => controller.abort());
+  }, []);
+
+  /**
+   * Adds files to the end of the queue
+   *
+   * @param {File[]} files - The plans to analyze
+   */
+  const addFiles = useCallback((files: File[]) => {
+    const added: BatchItem[] = files.map(file => ({
+      id: `batch-${nextId.current++}`,
+      file,
+      status: "queued",
+      progress: null,
+    }));
+    setItems(prev => [...prev, ...added]);
+  }, []);
+
+  /**
+   * Cancels a queued or running item
+   *
+   * @param {string} id - The id of the item
+   */
+  const cancel = useCallback((id: string) => {
+    controllers.current.get(id)?.abort();
+    controllers.current.delete(id);
+    updateItem(id, { status: "cancelled", progress: null });
+  }, [updateItem]);
+
+  /**
+   * Puts a failed or cancelled item back into the queue
+   *
+   * @param {string} id - The id of the item
+   */
+  const retry = useCallback((id: string) => {
+    updateItem(id, { status: "queued", progress: null, error: undefined });
+  }, [updateItem]);
+
+  /**
+   * Removes an item, cancelling it if it still runs
+   *
+   * @param {string} id - The id of the item
+   */
+  const remove = useCallback((id: string) => {
+    controllers.current.get(id)?.abort();
+    setItems(prev => {
+      const item = prev.find(candidate => candidate.id === id);
+      if (item) releaseItem(item);
+      return prev.filter(candidate => candidate.id !== id);
+    });
+  }, []);
+
+  /**
+   * Cancels every analysis and empties the queue
+   */
+  const clear = useCallback(() => {
+    controllers.current.forEach(controller => controller.abort());
+    setItems(prev => {
+      prev.forEach(releaseItem);
+      return [];
+    });
+  }, []);
+
+  // The batch is finished when nothing waits or runs any more
+  const isFinished = items.length > 0 && items.every(item => item.status !== "queued" && item.status !== "analyzing");
+
+  return {
+    items,
+    isFinished,
+    addFiles,
+    cancel,
+    retry,
+    remove,
+    clear,
+  };
+};
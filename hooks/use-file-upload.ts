@@ -9,10 +9,12 @@ import { useRef, useState, useCallback } from "react"
  * Interface for the useFileUpload hook
  * 
  * @interface UseFileUploadProps
- * @property {function} onUpload - Callback for processing the uploaded file
+ * @property {function} onUpload - Callback for processing the uploaded files
+ * @property {boolean} [multiple=false] - Pass on every dropped or selected file, not only the first
  */
 interface UseFileUploadProps {
-  onUpload: (file: File) => void
+  onUpload: (files: File[]) => void
+  multiple?: boolean
 }
 
 
@@ -22,7 +24,6 @@ interface UseFileUploadProps {
  * Provides functionality for:
  * - Drag and drop file uploads
  * - Selecting files through a dialog
- * - Managing upload state
  * 
  * @param {UseFileUploadProps} props - The hook props
  * @returns {Object} The object with the states and event handlers
@@ -31,23 +32,41 @@ interface UseFileUploadProps {
  * ```tsx
  * const {
  *   isDragging,
- *   isUploading,
  *   fileInputRef,
  *   handleDrop,
  *   handleClick
  * } = useFileUpload({
- *   onUpload: (file) => handleFileUpload(file)
+ *   onUpload: (files) => handleFileUpload(files[0])
  * });
  * ```
  */
-export const useFileUpload = ({ onUpload }: UseFileUploadProps) => {
-  // States for tracking dragging and uploading
+export const useFileUpload = ({ onUpload, multiple = false }: UseFileUploadProps) => {
+  // State for tracking dragging, the upload itself is reported by the caller
   const [isDragging, setIsDragging] = useState(false)
-  const [isUploading, setIsUploading] = useState(false)
 
   // Ref for the file input
   const fileInputRef = useRef<HTMLInputElement>(null)
 
+  /**
+   * Passes the files on and resets the input, so the same file can be chosen again
+   * 
+   * @param {FileList | null} list - The dropped or selected files
+   */
+  const handleFiles = useCallback(
+    (list: FileList | null) => {
+      if (!list || list.length === 0) return
+
+      // Process the files
+      onUpload(Array.from(list).slice(0, multiple ? list.length : 1))
+
+      // Reset the input
+      if (fileInputRef.current) {
+        fileInputRef.current.value = ""
+      }
+    },
+    [onUpload, multiple],
+  )
+
   /**
    * Handler for the drag over event
    * 
@@ -87,7 +106,7 @@ export const useFileUpload = ({ onUpload }: UseFileUploadProps) => {
 
   /**
    * Handler for the drop event
-   * Handles the file and calls the onUpload callback
+   * Handles the files and calls the onUpload callback
    * 
    * @param {React.DragEvent<HTMLDivElement>} e - The drop event
    * 
@@ -103,26 +122,9 @@ export const useFileUpload = ({ onUpload }: UseFileUploadProps) => {
       e.preventDefault()
       e.stopPropagation()
       setIsDragging(false)
-
-      if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-        const file = e.dataTransfer.files[0]
-        setIsUploading(true)
-
-        // Process the file
-        onUpload(file)
-
-        // Reset the input
-        if (fileInputRef.current) {
-          fileInputRef.current.value = ""
-        }
-
-        // Simulate upload completion after some time
-        setTimeout(() => {
-          setIsUploading(false)
-        }, 2000)
-      }
+      handleFiles(e.dataTransfer.files)
     },
-    [onUpload],
+    [handleFiles],
   )
 
   /**
@@ -143,30 +145,13 @@ export const useFileUpload = ({ onUpload }: UseFileUploadProps) => {
    */
   const handleFileChange = useCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => {
-      if (e.target.files && e.target.files.length > 0) {
-        const file = e.target.files[0]
-        setIsUploading(true)
-
-        // Process the file
-        onUpload(file)
-
-        // Reset the input
-        if (fileInputRef.current) {
-          fileInputRef.current.value = ""
-        }
-
-        // Simulate upload completion after some time
-        setTimeout(() => {
-          setIsUploading(false)
-        }, 2000)
-      }
+      handleFiles(e.target.files)
     },
-    [onUpload],
+    [handleFiles],
   )
 
   return {
     isDragging,
-    isUploading,
     fileInputRef,
     handleDragOver,
     handleDragLeave,
@@ -1,6 +1,8 @@
-import { useState, useCallback, useEffect } from "react";
-import { FloorPlanAnalysis } from "@/types/floor-analysis";
+import { useState, useCallback, useEffect, useMemo, useRef } from "react";
+import { FloorPlanAnalysis, UnitSystem } from "@/types/floor-analysis";
 import { ChatMessage } from "@/types/chat";
+import { PropertyChatContext } from "@/types/property";
+import { ComparisonChatContext } from "@/types/comparison";
 import { apiService } from "@/services/api.service";
 
 
@@ -9,9 +11,17 @@ import { apiService } from "@/services/api.service";
  * 
  * @interface UseFloorPlanChatProps
  * @property {FloorPlanAnalysis | null} [floorplanAnalysis] - The results of the floor plan analysis
+ * @property {UnitSystem} [unitSystem] - The units the assistant answers in
+ * @property {PropertyChatContext | null} [property] - The other floors of the property, if there are several
+ * @property {ComparisonChatContext | null} [comparison] - The compared plans, when the comparison is on screen
+ * @property {string} [conversationId="default"] - The conversation to show, e.g. one per plan revision
  */
 interface UseFloorPlanChatProps {
   floorplanAnalysis?: FloorPlanAnalysis | null;
+  unitSystem?: UnitSystem;
+  property?: PropertyChatContext | null;
+  comparison?: ComparisonChatContext | null;
+  conversationId?: string;
 }
 
 
@@ -22,31 +32,57 @@ interface UseFloorPlanChatProps {
  * - Managing chat messages
  * - Sending messages to the assistant
  * - Displaying the typing state
+ * - Cancelling the answers in progress, also when the chat is closed
  * - Automatic welcome message
+ * - Separate conversations (e.g. per plan revision), each kept when switching away
  * 
  * @param {UseFloorPlanChatProps} props - The props of the hook
  * @returns {Object} The object with the chat state and methods for managing
  * 
  * @example
  * ```tsx
- * const { messages, isTyping, sendMessage } = useFloorPlanChat({
+ * const { messages, isTyping, sendMessage, cancelMessage } = useFloorPlanChat({
  *   floorplanAnalysis: analysis
  * });
  * ```
  */
-export const useFloorPlanChat = ({ floorplanAnalysis }: UseFloorPlanChatProps) => {
-  // State for storing the chat history
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
+export const useFloorPlanChat = ({
+  floorplanAnalysis,
+  unitSystem,
+  property,
+  comparison,
+  conversationId = "default",
+}: UseFloorPlanChatProps) => {
+  // State for storing the chat history of each conversation
+  const [conversations, setConversations] = useState<Record<string, ChatMessage[]>>({});
   // State for indicating the assistant's typing
   const [isTyping, setIsTyping] = useState<boolean>(false);
+  // Controllers of the answers still being written
+  const pendingRef = useRef(new Set<AbortController>());
 
+  const messages = useMemo(() => conversations[conversationId] ?? [], [conversations, conversationId]);
+
+  // A conversation starts with its first analysis and carries on when
+  // the analysis is updated (e.g. measured with a manual scale)
+  const hasAnalysis = Boolean(floorplanAnalysis);
+
+  /**
+   * Adds a message to a conversation
+   * 
+   * @param {string} id - The id of the conversation
+   * @param {ChatMessage} message - The message to add
+   */
+  const appendMessage = useCallback((id: string, message: ChatMessage) => {
+    setConversations(prev => ({ ...prev, [id]: [...(prev[id] ?? []), message] }));
+  }, []);
 
   /**
    * Effect for sending the welcome message
-   * Triggers when the floor plan analysis results are received
+   * Triggers when a conversation with an analysis is opened for the first time,
+   * but not when the current analysis is updated or a conversation is reopened
    */
   useEffect(() => {
-    if (!floorplanAnalysis) return;
+    if (!hasAnalysis) return;
 
     const welcomeMessage: ChatMessage = {
       id: Date.now().toString() + "-welcome",
@@ -55,8 +91,17 @@ export const useFloorPlanChat = ({ floorplanAnalysis }: UseFloorPlanChatProps) =
       timestamp: Date.now(),
     };
 
-    setMessages([welcomeMessage]);
-  }, [floorplanAnalysis])
+    setConversations(prev => prev[conversationId] ? prev : { ...prev, [conversationId]: [welcomeMessage] });
+  }, [hasAnalysis, conversationId])
+
+  /**
+   * Effect for cancelling the answers nobody will read
+   * Aborts the requests in progress when the chat is unmounted
+   */
+  useEffect(() => {
+    const pending = pendingRef.current;
+    return () => pending.forEach(controller => controller.abort());
+  }, [])
 
 
   /**
@@ -66,7 +111,7 @@ export const useFloorPlanChat = ({ floorplanAnalysis }: UseFloorPlanChatProps) =
    * 1. Adding the user's message to the history
    * 2. Sending a request to the API
    * 3. Adding the assistant's answer to the history
-   * 4. Handling errors
+   * 4. Handling errors, a cancelled answer adds nothing
    * 
    * @param {string} message - The text of the message to send
    */
@@ -82,28 +127,40 @@ export const useFloorPlanChat = ({ floorplanAnalysis }: UseFloorPlanChatProps) =
     };
 
     // Adding the user's message to the history
-    setMessages((prevMessages) => [...prevMessages, userMessage]);
+    // The answer goes to the same conversation, even if another one is opened meanwhile
+    const id = conversationId;
+    appendMessage(id, userMessage);
     // Indicating the assistant's typing
     setIsTyping(true);
 
+    const controller = new AbortController();
+    pendingRef.current.add(controller);
+
     try {
       // Sending a request to the API
-      const data = await apiService.sendChatMessage(message, {
+      const reply = await apiService.sendChatMessage(message, {
         analysis: floorplanAnalysis,
         previousMessages: messages,
-      });
+        unitSystem,
+        property: property ?? undefined,
+        comparison: comparison ?? undefined,
+      }, { signal: controller.signal });
 
       // Creating an assistant message
       const assistantMessage: ChatMessage = {
         id: Date.now().toString() + "-assistant",
-        text: data,
+        text: reply.text,
         sender: "assistant",
         timestamp: Date.now(),
+        prompts: reply.prompts,
       };
 
       // Adding the assistant's answer to the history
-      setMessages((prevMessages) => [...prevMessages, assistantMessage]);
+      appendMessage(id, assistantMessage);
     } catch (error) {
+      // Cancelled by the user, there is nothing to apologize for
+      if (controller.signal.aborted) return;
+
       // Creating an error message
       const errorMessage: ChatMessage = {
         id: Date.now().toString() + '-error',
@@ -112,15 +169,25 @@ export const useFloorPlanChat = ({ floorplanAnalysis }: UseFloorPlanChatProps) =
         timestamp: Date.now(),
       };
 
-      setMessages((prevMessages) => [...prevMessages, errorMessage]);
+      appendMessage(id, errorMessage);
     } finally {
-      setIsTyping(false);
+      pendingRef.current.delete(controller);
+      setIsTyping(pendingRef.current.size > 0);
     }
-  }, [floorplanAnalysis, messages]);
+  }, [floorplanAnalysis, messages, unitSystem, property, comparison, conversationId, appendMessage]);
+
+  /**
+   * Cancelling the answers in progress
+   * Aborts the requests, which cancels the replies on the server as well
+   */
+  const cancelMessage = useCallback(() => {
+    pendingRef.current.forEach(controller => controller.abort());
+  }, []);
 
   return {
     messages,
     isTyping,
     sendMessage,
+    cancelMessage,
   };
 }
\ No newline at end of file
@@ -0,0 +1,157 @@
+import { useCallback, useEffect, useState } from "react";
+import { AnalysisMode, AnalysisOutcome, UnitSystem } from "@/types/floor-analysis";
+import { ComparisonPlan, ComparisonSide, PlanComparison } from "@/types/comparison";
+import { PdfPage } from "@/types/pdf";
+import { AnalysisProgress } from "@/types/analysis-progress";
+import { getVectorFormat } from "@/lib/vector-plan";
+import { apiService } from "@/services/api.service";
+
+/**
+ * Interface for the options of an analysis in the comparison
+ *
+ * @interface ComparisonAnalyzeOptions
+ * @property {AnalysisMode} [mode] - The analysis mode
+ * @property {number} [samples] - The number of samples of an ensemble analysis
+ * @property {UnitSystem} [unitSystem] - The units the findings are written in
+ * @property {PdfPage} [page] - The page of a PDF to analyze
+ * @property {AbortSignal} [signal] - Cancels the analysis, on the server too
+ */
+interface ComparisonAnalyzeOptions {
+  mode?: AnalysisMode;
+  samples?: number;
+  unitSystem?: UnitSystem;
+  page?: PdfPage;
+  signal?: AbortSignal;
+}
+
+/**
+ * Hook for comparing an existing layout with a proposed renovation
+ *
+ * Analyzes each plan separately and, once both are analyzed, requests
+ * the structured diff from the compare API.
+ *
+ * @returns {Object} Both plans, the comparison and the actions
+ *
+ * @example
+ * ```tsx
+ * const { plans, comparison, analyzePlan } = usePlanComparison();
+ * const outcome = await analyzePlan("after", file, { unitSystem });
+ * ```
+ */
+export const usePlanComparison = () => {
+  const [plans, setPlans] = useState<Record<ComparisonSide, ComparisonPlan | null>>({
+    before: null,
+    after: null,
+  });
+  // Side whose plan is being analyzed and the progress of its request
+  const [analyzingSide, setAnalyzingSide] = useState<ComparisonSide | null>(null);
+  const [analyzingProgress, setAnalyzingProgress] = useState<AnalysisProgress | null>(null);
+  // Diff of the two analyses and its loading state
+  const [comparison, setComparison] = useState<PlanComparison | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const [compareError, setCompareError] = useState<string | null>(null);
+
+  const beforeAnalysis = plans.before?.analysis;
+  const afterAnalysis = plans.after?.analysis;
+
+  /**
+   * Effect for comparing the plans
+   * Triggers when both plans are analyzed or one of them is replaced
+   */
+  useEffect(() => {
+    setComparison(null);
+    setIsComparing(false);
+    setCompareError(null);
+    if (!beforeAnalysis || !afterAnalysis) return;
+
+    let isCurrent = true;
+    setIsComparing(true);
+
+    apiService.comparePlans(beforeAnalysis, afterAnalysis)
+      .then(result => {
+        if (isCurrent) setComparison(result);
+      })
+      .catch((error: Error) => {
+        if (isCurrent) setCompareError(error.message);
+      })
+      .finally(() => {
+        if (isCurrent) setIsComparing(false);
+      });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [beforeAnalysis, afterAnalysis]);
+
+  /**
+   * Analyzes the plan of one side of the comparison
+   *
+   * @param {ComparisonSide} side - The side the plan belongs to
+   * @param {File} file - The floor plan image
+   * @param {ComparisonAnalyzeOptions} [options] - The analysis options
+   * @returns {Promise<AnalysisOutcome>} The outcome, failures are left to the caller to report
+   *
+   * @throws {DOMException} An `AbortError` if the analysis was cancelled through the signal
+   */
+  const analyzePlan = useCallback(
+    async (side: ComparisonSide, file: File, options: ComparisonAnalyzeOptions = {}): Promise<AnalysisOutcome> => {
+      const { page, ...analyzeOptions } = options;
+      // PDFs and DXF drawings cannot be shown as an image, the rendered page or drawing stands in for the upload
+      const imageUrl = page || getVectorFormat(file) === "dxf" ? null : URL.createObjectURL(file);
+      setAnalyzingSide(side);
+
+      try {
+        const outcome = await apiService.analyzeImage(file, {
+          ...analyzeOptions,
+          page: page?.number,
+          onProgress: setAnalyzingProgress,
+        });
+
+        if (outcome.status !== "ok") {
+          if (imageUrl) URL.revokeObjectURL(imageUrl);
+          return outcome;
+        }
+
+        // Show the image the model saw, the upload stays available next to it
+        const plan: ComparisonPlan = outcome.image
+          ? { imageUrl: outcome.image.imageUrl, originalImageUrl: imageUrl ?? undefined, analysis: outcome.analysis }
+          : { imageUrl: imageUrl ?? page?.thumbnailUrl ?? "", analysis: outcome.analysis };
+
+        setPlans(prev => {
+          if (prev[side]) URL.revokeObjectURL(prev[side].originalImageUrl ?? prev[side].imageUrl);
+          return { ...prev, [side]: plan };
+        });
+        return outcome;
+      } catch (error) {
+        if (imageUrl) URL.revokeObjectURL(imageUrl);
+        throw error;
+      } finally {
+        setAnalyzingSide(null);
+        setAnalyzingProgress(null);
+      }
+    },
+    []
+  );
+
+  /**
+   * Removes the plan of one side and releases its image
+   *
+   * @param {ComparisonSide} side - The side to clear
+   */
+  const removePlan = useCallback((side: ComparisonSide) => {
+    const plan = plans[side];
+    if (plan) URL.revokeObjectURL(plan.originalImageUrl ?? plan.imageUrl);
+    setPlans(prev => ({ ...prev, [side]: null }));
+  }, [plans]);
+
+  return {
+    plans,
+    analyzingSide,
+    analyzingProgress,
+    comparison,
+    isComparing,
+    compareError,
+    analyzePlan,
+    removePlan,
+  };
+}
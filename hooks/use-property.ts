@@ -0,0 +1,225 @@
+import { useCallback, useMemo, useState } from "react";
+import { FloorPlanAnalysis } from "@/types/floor-analysis";
+import { PlanRevision, PropertyAnalysis, PropertyFloor } from "@/types/property";
+import { analyzeProperty, getActiveRevision } from "@/lib/property-analysis";
+
+/**
+ * Default labels for the first floors, later floors are numbered
+ */
+const FLOOR_LABELS = ["Ground floor", "First floor", "Second floor", "Third floor"];
+
+/**
+ * Returns the default label for the next floor
+ *
+ * @param {number} index - The number of floors already added
+ * @returns {string} The floor label
+ */
+export const defaultFloorLabel = (index: number): string =>
+  FLOOR_LABELS[index] ?? `Floor ${index}`;
+
+/**
+ * Releases the object URL of a revision's upload
+ *
+ * @param {PlanRevision} revision - The revision
+ */
+const releaseRevision = (revision: PlanRevision) =>
+  URL.revokeObjectURL(revision.originalImageUrl ?? revision.imageUrl);
+
+/**
+ * Hook for managing the floors of a property
+ *
+ * Keeps the analyzed floors with their label and order, the active floor
+ * and the property-level analysis, which is recalculated when floors change.
+ * Each floor keeps every revision of its plan, the active revision is the
+ * one shown and used for the property-level analysis.
+ * Images are the processed images the model saw (data URLs) or object URLs
+ * of the uploads, object URLs are revoked when floors are removed.
+ *
+ * @returns {Object} The floors, the active floor and revision, the property analysis and the actions
+ *
+ * @example
+ * ```tsx
+ * const { floors, activeFloor, activeRevision, addFloor, addRevision } = useProperty();
+ * ```
+ */
+export const useProperty = () => {
+  const [floors, setFloors] = useState<PropertyFloor[]>([]);
+  const [activeFloorId, setActiveFloorId] = useState<string | null>(null);
+
+  // Floors from the lowest to the highest
+  const sortedFloors = useMemo(
+    () => [...floors].sort((a, b) => a.order - b.order),
+    [floors]
+  );
+
+  const activeFloor = floors.find(floor => floor.id === activeFloorId) ?? null;
+  const activeRevision = activeFloor ? getActiveRevision(activeFloor) : null;
+
+  // The property-level pass only makes sense for more than one floor
+  const propertyAnalysis = useMemo<PropertyAnalysis | null>(
+    () => floors.length > 1
+      ? analyzeProperty(floors.map(floor => ({ ...floor, analysis: getActiveRevision(floor).analysis })))
+      : null,
+    [floors]
+  );
+
+  /**
+   * Adds an analyzed floor on top of the others and makes it active
+   *
+   * @param {string} label - The floor label
+   * @param {string} imageUrl - The URL of the floor image
+   * @param {FloorPlanAnalysis} analysis - The analysis of the floor
+   * @param {string} [originalImageUrl] - The object URL of the upload, when `imageUrl` is the processed image
+   */
+  const addFloor = useCallback((label: string, imageUrl: string, analysis: FloorPlanAnalysis, originalImageUrl?: string) => {
+    const id = `floor-${Date.now()}`;
+
+    setFloors(prev => [
+      ...prev,
+      {
+        id,
+        label,
+        order: prev.reduce((max, floor) => Math.max(max, floor.order + 1), 0),
+        revisions: [{ number: 1, imageUrl, originalImageUrl, analysis, createdAt: Date.now() }],
+        activeRevision: 1,
+      },
+    ]);
+    setActiveFloorId(id);
+  }, []);
+
+  /**
+   * Adds a new revision of a floor plan and makes it the active floor and revision
+   *
+   * @param {string} id - The id of the floor
+   * @param {string} imageUrl - The URL of the revised image
+   * @param {FloorPlanAnalysis} analysis - The analysis of the revised plan
+   * @param {string} [originalImageUrl] - The object URL of the upload, when `imageUrl` is the processed image
+   */
+  const addRevision = useCallback((id: string, imageUrl: string, analysis: FloorPlanAnalysis, originalImageUrl?: string) => {
+    setFloors(prev => prev.map(floor => {
+      if (floor.id !== id) return floor;
+
+      const revision: PlanRevision = {
+        number: floor.revisions.reduce((max, item) => Math.max(max, item.number), 0) + 1,
+        imageUrl,
+        originalImageUrl,
+        analysis,
+        createdAt: Date.now(),
+      };
+      return { ...floor, revisions: [...floor.revisions, revision], activeRevision: revision.number };
+    }));
+    setActiveFloorId(id);
+  }, []);
+
+  /**
+   * Chooses the revision of a floor that is shown
+   *
+   * @param {string} id - The id of the floor
+   * @param {number} number - The revision number
+   */
+  const setActiveRevision = useCallback((id: string, number: number) => {
+    setFloors(prev => prev.map(floor =>
+      floor.id === id && floor.revisions.some(revision => revision.number === number)
+        ? { ...floor, activeRevision: number }
+        : floor
+    ));
+  }, []);
+
+  /**
+   * Updates the analysis of the active revision of a floor (e.g. after setting the scale by hand)
+   *
+   * @param {string} id - The id of the floor
+   * @param {function} update - Returns the new analysis from the current one
+   */
+  const updateFloorAnalysis = useCallback(
+    (id: string, update: (analysis: FloorPlanAnalysis) => FloorPlanAnalysis) => {
+      setFloors(prev => prev.map(floor =>
+        floor.id === id
+          ? {
+            ...floor,
+            revisions: floor.revisions.map(revision =>
+              revision.number === floor.activeRevision
+                ? { ...revision, analysis: update(revision.analysis) }
+                : revision
+            ),
+          }
+          : floor
+      ));
+    },
+    []
+  );
+
+  /**
+   * Renames a floor
+   *
+   * @param {string} id - The id of the floor
+   * @param {string} label - The new label
+   */
+  const renameFloor = useCallback((id: string, label: string) => {
+    setFloors(prev => prev.map(floor => floor.id === id ? { ...floor, label } : floor));
+  }, []);
+
+  /**
+   * Moves a floor one step down or up by swapping it with its neighbour
+   *
+   * @param {string} id - The id of the floor
+   * @param {-1 | 1} direction - -1 to move down, 1 to move up
+   */
+  const moveFloor = useCallback((id: string, direction: -1 | 1) => {
+    setFloors(prev => {
+      const sorted = [...prev].sort((a, b) => a.order - b.order);
+      const index = sorted.findIndex(floor => floor.id === id);
+      const neighbour = sorted[index + direction];
+      if (index === -1 || !neighbour) return prev;
+
+      const current = sorted[index];
+      return prev.map(floor => {
+        if (floor.id === current.id) return { ...floor, order: neighbour.order };
+        if (floor.id === neighbour.id) return { ...floor, order: current.order };
+        return floor;
+      });
+    });
+  }, []);
+
+  /**
+   * Removes a floor and releases the images of all its revisions
+   *
+   * @param {string} id - The id of the floor
+   */
+  const removeFloor = useCallback((id: string) => {
+    const removed = floors.find(floor => floor.id === id);
+    if (!removed) return;
+
+    removed.revisions.forEach(releaseRevision);
+    const rest = floors.filter(floor => floor.id !== id);
+    setFloors(rest);
+    if (activeFloorId === id) {
+      setActiveFloorId(rest[0]?.id ?? null);
+    }
+  }, [floors, activeFloorId]);
+
+  /**
+   * Removes all floors and releases their images
+   */
+  const resetProperty = useCallback(() => {
+    floors.forEach(floor => floor.revisions.forEach(releaseRevision));
+    setFloors([]);
+    setActiveFloorId(null);
+  }, [floors]);
+
+  return {
+    floors: sortedFloors,
+    activeFloor,
+    activeRevision,
+    propertyAnalysis,
+    setActiveFloorId,
+    addFloor,
+    addRevision,
+    setActiveRevision,
+    updateFloorAnalysis,
+    renameFloor,
+    moveFloor,
+    removeFloor,
+    resetProperty,
+  };
+}
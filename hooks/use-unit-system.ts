@@ -0,0 +1,51 @@
+import { useCallback, useEffect, useState } from "react";
+import { UnitSystem } from "@/types/floor-analysis";
+import { UNIT_SYSTEMS } from "@/lib/floor-plan-schema";
+
+/**
+ * Key of the unit system preference in local storage
+ */
+const STORAGE_KEY = "floorplan-unit-system";
+
+/**
+ * Hook for the unit system preference of the user
+ * 
+ * The preference is kept in local storage, so it survives reloads.
+ * It starts as metric and switches to the stored value after mount
+ * to keep the server and client render the same.
+ * 
+ * @returns {Object} The unit system and the function to change it
+ * 
+ * @example
+ * ```tsx
+ * const { unitSystem, setUnitSystem } = useUnitSystem();
+ * ```
+ */
+export const useUnitSystem = () => {
+  const [unitSystem, setUnitSystemState] = useState<UnitSystem>("metric");
+
+  /**
+   * Effect for restoring the stored preference
+   */
+  useEffect(() => {
+    const stored = localStorage.getItem(STORAGE_KEY) as UnitSystem | null;
+    if (stored && UNIT_SYSTEMS.includes(stored)) {
+      setUnitSystemState(stored);
+    }
+  }, []);
+
+  /**
+   * Changes the unit system and stores the preference
+   * 
+   * @param {UnitSystem} value - The new unit system
+   */
+  const setUnitSystem = useCallback((value: UnitSystem) => {
+    setUnitSystemState(value);
+    localStorage.setItem(STORAGE_KEY, value);
+  }, []);
+
+  return {
+    unitSystem,
+    setUnitSystem,
+  };
+}
@@ -0,0 +1,40 @@
+import { AnalysisProgress, AnalysisStage } from "@/types/analysis-progress";
+
+/**
+ * Where each stage starts on the progress bar (percent) and its status text
+ * The upload fills the bar up to the start of `received`
+ */
+const STAGES: Record<AnalysisStage, { percent: number; label: string }> = {
+  uploading: { percent: 0, label: "Uploading your floor plan" },
+  received: { percent: 40, label: "Upload complete" },
+  queued: { percent: 42, label: "Waiting for a free analysis slot" },
+  preprocessing: { percent: 45, label: "Preparing the image" },
+  analyzing: { percent: 55, label: "Analyzing the layout" },
+  validating: { percent: 90, label: "Checking the results" },
+};
+
+/**
+ * Returns the progress of an analysis request in percent
+ *
+ * @param {AnalysisProgress} progress - The reported progress
+ * @returns {number} The progress from 0 to 100
+ */
+export const getProgressPercent = ({ stage, loaded, total }: AnalysisProgress): number => {
+  if (stage !== "uploading") return STAGES[stage].percent;
+  if (!total || loaded === undefined) return 0;
+  return Math.round((Math.min(loaded, total) / total) * STAGES.received.percent);
+};
+
+/**
+ * Returns the status text of an analysis request
+ *
+ * @param {AnalysisProgress} progress - The reported progress
+ * @returns {string} The status text, e.g. "Uploading your floor plan (1.2 of 3.4 MB)"
+ */
+export const getProgressLabel = ({ stage, loaded, total }: AnalysisProgress): string => {
+  const { label } = STAGES[stage];
+  if (stage !== "uploading" || !total || loaded === undefined) return label;
+
+  const toMegabytes = (bytes: number) => (bytes / 1048576).toFixed(1);
+  return `${label} (${toMegabytes(Math.min(loaded, total))} of ${toMegabytes(total)} MB)`;
+};
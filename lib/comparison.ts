@@ -0,0 +1,123 @@
+import { FloorPlanAnalysis, Recommendation, Room } from "@/types/floor-analysis";
+import { PlanComparison, ScoreDelta, UnchangedRecommendation } from "@/types/comparison";
+import { getRubric } from "@/lib/rubrics";
+import { totalArea } from "@/lib/measurements";
+import { SIMILARITY_THRESHOLD, textSimilarity } from "@/lib/recommendations";
+
+/**
+ * Names of the places a recommendation refers to
+ *
+ * Room ids are only unique within one analysis, so findings of two plans
+ * are matched by the labels of their rooms and their area name instead.
+ *
+ * @param {Recommendation} recommendation - The recommendation
+ * @param {Room[]} rooms - The rooms of the analysis it belongs to
+ * @returns {Set<string>} The lowercase room labels and area name
+ */
+const placesOf = (recommendation: Recommendation, rooms: Room[]): Set<string> => {
+  const labels = recommendation.roomIds
+    .map(id => rooms.find(room => room.id === id)?.label)
+    .filter((label): label is string => Boolean(label));
+
+  return new Set([recommendation.area, ...labels].map(place => place.trim().toLowerCase()));
+};
+
+/**
+ * Matches the findings of the existing layout with those of the proposal
+ *
+ * A finding is unchanged when the proposal has a finding about the same
+ * place with a similar issue, resolved when it has none, and new when
+ * only the proposal has it. Each finding is matched at most once.
+ *
+ * @param {FloorPlanAnalysis} before - The analysis of the existing layout
+ * @param {FloorPlanAnalysis} after - The analysis of the proposal
+ * @returns {PlanComparison["recommendations"]} The resolved, new and unchanged findings
+ */
+const compareRecommendations = (
+  before: FloorPlanAnalysis,
+  after: FloorPlanAnalysis
+): PlanComparison["recommendations"] => {
+  const afterPlaces = after.recommendations.map(recommendation => placesOf(recommendation, after.rooms));
+  const matched = new Set<number>();
+  const resolved: Recommendation[] = [];
+  const unchanged: UnchangedRecommendation[] = [];
+
+  for (const recommendation of before.recommendations) {
+    const places = placesOf(recommendation, before.rooms);
+    const index = after.recommendations.findIndex((candidate, i) =>
+      !matched.has(i) &&
+      [...places].some(place => afterPlaces[i].has(place)) &&
+      textSimilarity(recommendation.issue, candidate.issue) >= SIMILARITY_THRESHOLD
+    );
+
+    if (index === -1) {
+      resolved.push(recommendation);
+    } else {
+      matched.add(index);
+      unchanged.push({ before: recommendation, after: after.recommendations[index] });
+    }
+  }
+
+  return {
+    resolved,
+    new: after.recommendations.filter((_, index) => !matched.has(index)),
+    unchanged,
+  };
+};
+
+/**
+ * Compares the analysis of an existing layout with the analysis of a proposal
+ *
+ * Both analyses must be scored with the same rubric. Scores are compared
+ * per dimension and on average, the area only when both plans are measured.
+ *
+ * @param {FloorPlanAnalysis} before - The analysis of the existing layout
+ * @param {FloorPlanAnalysis} after - The analysis of the proposal (e.g. a renovation)
+ * @returns {PlanComparison} The structured diff
+ * @throws {Error} If the analyses are scored with different rubrics
+ *
+ * @example
+ * ```typescript
+ * const { scores, recommendations } = comparePlans(existing, proposal);
+ * ```
+ */
+export const comparePlans = (before: FloorPlanAnalysis, after: FloorPlanAnalysis): PlanComparison => {
+  if (before.rubricId !== after.rubricId) {
+    throw new Error(`Cannot compare analyses scored with different rubrics: ${before.rubricId} and ${after.rubricId}`);
+  }
+
+  const dimensions = getRubric(before.rubricId)?.dimensions
+    ?? Object.keys(before.scores).map(id => ({ id, label: id }));
+
+  const scores: ScoreDelta[] = dimensions
+    .filter(({ id }) => before.scores[id] !== undefined && after.scores[id] !== undefined)
+    .map(({ id, label }) => ({
+      dimensionId: id,
+      label,
+      before: before.scores[id],
+      after: after.scores[id],
+      delta: after.scores[id] - before.scores[id],
+    }));
+
+  const average = (values: number[]) =>
+    values.length > 0 ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length) : 0;
+  const overallBefore = average(scores.map(score => score.before));
+  const overallAfter = average(scores.map(score => score.after));
+
+  const areaBefore = totalArea(before.rooms);
+  const areaAfter = totalArea(after.rooms);
+
+  return {
+    rubricId: before.rubricId,
+    scores,
+    overall: { before: overallBefore, after: overallAfter, delta: overallAfter - overallBefore },
+    area: {
+      before: areaBefore,
+      after: areaAfter,
+      delta: areaBefore !== null && areaAfter !== null
+        ? Math.round((areaAfter - areaBefore) * 10) / 10
+        : null,
+    },
+    recommendations: compareRecommendations(before, after),
+  };
+};
@@ -0,0 +1,15 @@
+/**
+ * Decodes a base64 data URL
+ *
+ * @param {string} imageUrl - The data URL
+ * @returns {Buffer} The image bytes
+ *
+ * @throws {Error} If the URL is not a base64 data URL
+ */
+export const decodeDataUrl = (imageUrl: string): Buffer => {
+  const match = imageUrl.match(/^data:[^;]+;base64,(.+)$/);
+  if (!match) {
+    throw new Error("Expected a base64 data URL");
+  }
+  return Buffer.from(match[1], "base64");
+};
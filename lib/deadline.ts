@@ -0,0 +1,65 @@
+/**
+ * Error thrown when the time budget of an operation runs out
+ *
+ * @class DeadlineExceededError
+ * @extends Error
+ * @property {number} budgetMs - The budget that ran out, in milliseconds
+ */
+export class DeadlineExceededError extends Error {
+  constructor(public budgetMs: number) {
+    super(`The analysis did not finish within ${budgetMs / 1000}s`);
+    this.name = "DeadlineExceededError";
+  }
+}
+
+/**
+ * Time budget of an operation, shared by all its steps
+ *
+ * @interface Deadline
+ * @property {number} budgetMs - The whole budget, in milliseconds
+ * @property {number} expiresAt - When the budget runs out (epoch milliseconds)
+ * @property {AbortSignal} signal - Aborted when the budget runs out, for requests that take a signal
+ * @property {function} remaining - The milliseconds left, 0 once expired
+ * @property {function} hasExpired - Whether the budget ran out
+ * @property {function} throwIfExpired - Throws a `DeadlineExceededError` once the budget ran out
+ */
+export interface Deadline {
+  readonly budgetMs: number;
+  readonly expiresAt: number;
+  readonly signal: AbortSignal;
+  remaining(): number;
+  hasExpired(): boolean;
+  throwIfExpired(): void;
+}
+
+/**
+ * Creates a deadline that starts now
+ *
+ * @param {number} budgetMs - The time budget in milliseconds
+ * @returns {Deadline} The deadline
+ *
+ * @example
+ * ```typescript
+ * const deadline = createDeadline(25_000);
+ * await fetch(url, { signal: deadline.signal });
+ * if (deadline.remaining() < 5000) console.log("no time left for a retry");
+ * ```
+ */
+export const createDeadline = (budgetMs: number): Deadline => {
+  const expiresAt = Date.now() + budgetMs;
+  const signal = AbortSignal.timeout(budgetMs);
+
+  const remaining = () => Math.max(0, expiresAt - Date.now());
+  const hasExpired = () => signal.aborted || remaining() === 0;
+
+  return {
+    budgetMs,
+    expiresAt,
+    signal,
+    remaining,
+    hasExpired,
+    throwIfExpired() {
+      if (hasExpired()) throw new DeadlineExceededError(budgetMs);
+    },
+  };
+};
@@ -0,0 +1,135 @@
+/**
+ * Largest skew (degrees) that is searched, photos tilted further are left as they are
+ */
+const MAX_SKEW = 10;
+
+/**
+ * Steps (degrees) of the coarse and the fine search
+ */
+const COARSE_STEP = 0.5;
+const FINE_STEP = 0.1;
+
+/**
+ * Gray level below which a pixel counts as ink
+ */
+const INK_THRESHOLD = 128;
+
+/**
+ * Minimum number of ink pixels needed for an estimate
+ */
+const MIN_INK_PIXELS = 200;
+
+/**
+ * Maximum number of ink pixels used, larger images are sampled
+ */
+const MAX_INK_PIXELS = 40000;
+
+/**
+ * Scores how sharply the ink lines up in rows when the image is rotated by the angle
+ *
+ * Walls of a straight plan fall into a few rows, so the row histogram
+ * has tall peaks and its sum of squares is highest at the right angle.
+ *
+ * @param {Float64Array} xs - The x coordinates of the ink pixels
+ * @param {Float64Array} ys - The y coordinates of the ink pixels
+ * @param {number} degrees - The rotation to score
+ * @returns {number} The sum of squared row counts
+ */
+const alignmentScore = (xs: Float64Array, ys: Float64Array, degrees: number): number => {
+  const radians = (degrees * Math.PI) / 180;
+  const sin = Math.sin(radians);
+  const cos = Math.cos(radians);
+  const rows = new Map<number, number>();
+
+  for (let i = 0; i < xs.length; i++) {
+    const row = Math.round(ys[i] * cos - xs[i] * sin);
+    rows.set(row, (rows.get(row) ?? 0) + 1);
+  }
+
+  let score = 0;
+  rows.forEach(count => {
+    score += count * count;
+  });
+  return score;
+};
+
+/**
+ * Finds the best angle of a range
+ *
+ * @param {Float64Array} xs - The x coordinates of the ink pixels
+ * @param {Float64Array} ys - The y coordinates of the ink pixels
+ * @param {number} from - The first angle (degrees)
+ * @param {number} to - The last angle (degrees)
+ * @param {number} step - The step (degrees)
+ * @returns {number} The angle with the highest alignment score
+ */
+const searchAngle = (xs: Float64Array, ys: Float64Array, from: number, to: number, step: number): number => {
+  let best = 0;
+  let bestScore = -1;
+
+  for (let degrees = from; degrees <= to + step / 2; degrees += step) {
+    const score = alignmentScore(xs, ys, degrees);
+    // Prefer the smaller correction on ties, straight images stay straight
+    if (score > bestScore || (score === bestScore && Math.abs(degrees) < Math.abs(best))) {
+      best = degrees;
+      bestScore = score;
+    }
+  }
+
+  return best;
+};
+
+/**
+ * Estimates how far the content of a grayscale image is rotated
+ *
+ * Uses a projection profile: the ink pixels are projected onto rows at
+ * a range of angles and the angle where the walls line up best wins.
+ * Works on a downscaled image, a few hundred pixels wide is enough.
+ *
+ * @param {Uint8Array} pixels - The gray levels, one byte per pixel, row by row
+ * @param {number} width - The image width
+ * @param {number} height - The image height
+ * @returns {number} The clockwise rotation in degrees that straightens the content,
+ * 0 when there is too little ink or no clear angle
+ *
+ * @example
+ * ```typescript
+ * const { data, info } = await sharp(buffer).grayscale().raw().toBuffer({ resolveWithObject: true });
+ * const correction = estimateSkew(data, info.width, info.height);
+ * const straight = sharp(buffer).rotate(correction, { background: "#ffffff" });
+ * ```
+ */
+export const estimateSkew = (pixels: Uint8Array, width: number, height: number): number => {
+  let inkCount = 0;
+  for (let i = 0; i < width * height; i++) {
+    if (pixels[i] < INK_THRESHOLD) inkCount++;
+  }
+  if (inkCount < MIN_INK_PIXELS) return 0;
+
+  // Keep every n-th ink pixel so large images stay fast
+  const stride = Math.ceil(inkCount / MAX_INK_PIXELS);
+  const size = Math.ceil(inkCount / stride);
+  const xs = new Float64Array(size);
+  const ys = new Float64Array(size);
+
+  let seen = 0;
+  let kept = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (pixels[y * width + x] >= INK_THRESHOLD) continue;
+      if (seen++ % stride === 0 && kept < size) {
+        xs[kept] = x;
+        ys[kept] = y;
+        kept++;
+      }
+    }
+  }
+
+  const coarse = searchAngle(xs, ys, -MAX_SKEW, MAX_SKEW, COARSE_STEP);
+  // An angle at the edge of the range is not a real skew
+  if (Math.abs(coarse) >= MAX_SKEW) return 0;
+
+  const fine = searchAngle(xs, ys, coarse - COARSE_STEP, coarse + COARSE_STEP, FINE_STEP);
+  // Rows line up at the angle the content is turned clockwise, so turn it back
+  return -Math.round(fine * 10) / 10 || 0;
+};
@@ -0,0 +1,371 @@
+import { Drawing, DrawingEntity, DrawingPoint } from "@/types/vector-plan";
+
+/**
+ * A group code and its value, the basic unit of a DXF file
+ */
+type Group = {
+  code: number;
+  value: string;
+};
+
+/**
+ * An object of the file: the value of its 0 group and the groups after it
+ */
+type DxfRecord = {
+  type: string;
+  groups: Group[];
+};
+
+/**
+ * A block definition, placed in the drawing by INSERT entities
+ */
+type Block = {
+  base: DrawingPoint;
+  records: DxfRecord[];
+};
+
+/**
+ * Maps a point of a block to drawing coordinates
+ */
+type Transform = (point: DrawingPoint) => DrawingPoint;
+
+/**
+ * Meters per unit and the unit name for the values of the `$INSUNITS` header variable
+ */
+const UNITS: Record<number, { metersPerUnit: number; name: string }> = {
+  1: { metersPerUnit: 0.0254, name: "in" },
+  2: { metersPerUnit: 0.3048, name: "ft" },
+  4: { metersPerUnit: 0.001, name: "mm" },
+  5: { metersPerUnit: 0.01, name: "cm" },
+  6: { metersPerUnit: 1, name: "m" },
+  14: { metersPerUnit: 0.1, name: "dm" },
+};
+
+/**
+ * Largest angle (degrees) of one straight piece of a flattened arc
+ */
+const ARC_STEP = 15;
+
+/**
+ * Deepest nesting of blocks inside blocks that is expanded
+ */
+const MAX_BLOCK_DEPTH = 8;
+
+/**
+ * Most entities and block references a drawing may expand to,
+ * nested blocks multiply their content with every level
+ */
+const MAX_ENTITIES = 50_000;
+
+/**
+ * Identity transform for entities outside of blocks
+ */
+const identity: Transform = point => point;
+
+/**
+ * Splits the file into group code and value pairs
+ *
+ * @param {string} text - The DXF file
+ * @returns {Group[]} The groups
+ *
+ * @throws {Error} If the file is binary or not a DXF file
+ */
+const readGroups = (text: string): Group[] => {
+  if (text.startsWith("AutoCAD Binary DXF")) {
+    throw new Error("Binary DXF files are not supported, save the drawing as ASCII DXF");
+  }
+
+  const lines = text.split(/\r?\n/);
+  const groups: Group[] = [];
+
+  for (let index = 0; index + 1 < lines.length; index += 2) {
+    const code = Number(lines[index].trim());
+    if (lines[index].trim() === "" || !Number.isInteger(code)) {
+      throw new Error("The DXF file could not be read");
+    }
+    groups.push({ code, value: lines[index + 1].trim() });
+    if (code === 0 && lines[index + 1].trim() === "EOF") break;
+  }
+
+  return groups;
+};
+
+/**
+ * Groups the pairs into records, one per 0 group
+ *
+ * @param {Group[]} groups - The groups of the file
+ * @returns {DxfRecord[]} The records
+ */
+const readRecords = (groups: Group[]): DxfRecord[] => {
+  const records: DxfRecord[] = [];
+  for (const group of groups) {
+    if (group.code === 0) {
+      records.push({ type: group.value, groups: [] });
+    } else {
+      records[records.length - 1]?.groups.push(group);
+    }
+  }
+  return records;
+};
+
+/**
+ * Returns the value of the first group with the code
+ *
+ * @param {DxfRecord} record - The record
+ * @param {number} code - The group code
+ * @returns {string | undefined} The value, if the record has the group
+ */
+const text = (record: DxfRecord, code: number): string | undefined =>
+  record.groups.find(group => group.code === code)?.value;
+
+/**
+ * Returns the numeric value of the first group with the code
+ *
+ * @param {DxfRecord} record - The record
+ * @param {number} code - The group code
+ * @param {number} [fallback=0] - The value if the group is missing or not a number
+ * @returns {number} The value
+ */
+const number = (record: DxfRecord, code: number, fallback = 0): number => {
+  const value = Number(text(record, code));
+  return Number.isFinite(value) ? value : fallback;
+};
+
+/**
+ * Reads the point stored in the x group and the y group 10 codes above it
+ *
+ * @param {DxfRecord} record - The record
+ * @param {number} [code=10] - The group code of the x coordinate
+ * @returns {DrawingPoint} The point
+ */
+const point = (record: DxfRecord, code = 10): DrawingPoint => ({
+  x: number(record, code),
+  y: number(record, code + 10),
+});
+
+/**
+ * Approximates an arc with points
+ *
+ * @param {DrawingPoint} center - The center
+ * @param {number} radius - The radius
+ * @param {number} startAngle - The start angle in degrees, counterclockwise from the x axis
+ * @param {number} endAngle - The end angle in degrees
+ * @returns {DrawingPoint[]} The points along the arc
+ */
+const flattenArc = (center: DrawingPoint, radius: number, startAngle: number, endAngle: number): DrawingPoint[] => {
+  const sweep = ((endAngle - startAngle) % 360 + 360) % 360 || 360;
+  const steps = Math.max(2, Math.ceil(sweep / ARC_STEP));
+
+  return Array.from({ length: steps + 1 }, (_, step) => {
+    const angle = ((startAngle + (sweep * step) / steps) * Math.PI) / 180;
+    return { x: center.x + radius * Math.cos(angle), y: center.y + radius * Math.sin(angle) };
+  });
+};
+
+/**
+ * Removes the formatting codes of multiline text and decodes escaped characters
+ *
+ * @param {string} value - The raw text
+ * @returns {string} The plain text
+ */
+const cleanText = (value: string): string =>
+  value
+    .replace(/\\U\+([0-9A-Fa-f]{4})/g, (_, code) => String.fromCharCode(parseInt(code, 16)))
+    .replace(/\\P/g, " ")
+    .replace(/\\[A-Za-z][^;\\]*;/g, "")
+    .replace(/[{}]/g, "")
+    .replace(/%%[dD]/g, "°")
+    .replace(/%%[cC]/g, "Ø")
+    .replace(/\s+/g, " ")
+    .trim();
+
+/**
+ * Converts records to drawing entities, expanding block references
+ *
+ * @param {DxfRecord[]} records - The entity records
+ * @param {Map<string, Block>} blocks - The block definitions by name
+ * @param {Transform} transform - Maps the coordinates of the records to the drawing
+ * @param {string | null} parentLayer - The layer of the INSERT, for entities on layer 0 of a block
+ * @param {number} depth - The current block nesting
+ * @param {DrawingEntity[]} [entities=[]] - The entities so far, shared by the nested blocks
+ * @param {{ remaining: number }} [budget] - The entities and block references left to expand
+ * @returns {DrawingEntity[]} The entities
+ *
+ * @throws {Error} If the drawing expands to more than `MAX_ENTITIES`
+ */
+const toEntities = (
+  records: DxfRecord[],
+  blocks: Map<string, Block>,
+  transform: Transform,
+  parentLayer: string | null,
+  depth: number,
+  entities: DrawingEntity[] = [],
+  budget = { remaining: MAX_ENTITIES }
+): DrawingEntity[] => {
+  const spend = () => {
+    if (--budget.remaining < 0) throw new Error("The drawing has too many entities");
+  };
+
+  for (let index = 0; index < records.length; index++) {
+    const record = records[index];
+    const ownLayer = text(record, 8) ?? "0";
+    // Entities on layer 0 of a block take the layer of the block reference
+    const layer = ownLayer === "0" && parentLayer ? parentLayer : ownLayer;
+    const path = (points: DrawingPoint[], closed: boolean) => {
+      if (points.length < 2) return;
+      spend();
+      entities.push({ kind: "path", layer, points: points.map(transform), closed });
+    };
+
+    switch (record.type) {
+      case "LINE":
+        path([point(record), point(record, 11)], false);
+        break;
+
+      case "LWPOLYLINE": {
+        const points: DrawingPoint[] = [];
+        for (const group of record.groups) {
+          if (group.code === 10) points.push({ x: Number(group.value), y: 0 });
+          if (group.code === 20 && points.length > 0) points[points.length - 1].y = Number(group.value);
+        }
+        path(points, (number(record, 70) & 1) === 1);
+        break;
+      }
+
+      case "POLYLINE": {
+        // The vertices follow as their own records up to SEQEND
+        const points: DrawingPoint[] = [];
+        while (records[index + 1]?.type === "VERTEX") {
+          index++;
+          points.push(point(records[index]));
+        }
+        if (records[index + 1]?.type === "SEQEND") index++;
+        path(points, (number(record, 70) & 1) === 1);
+        break;
+      }
+
+      case "ARC":
+        path(flattenArc(point(record), number(record, 40), number(record, 50), number(record, 51)), false);
+        break;
+
+      case "CIRCLE":
+        path(flattenArc(point(record), number(record, 40), 0, 360).slice(0, -1), true);
+        break;
+
+      case "TEXT":
+      case "MTEXT": {
+        // MTEXT splits long text into 3 groups before the final 1 group
+        const value = cleanText(record.groups
+          .filter(group => group.code === 3 || group.code === 1)
+          .map(group => group.value)
+          .join(""));
+        // Aligned single-line text is placed by its alignment point
+        const aligned = record.type === "TEXT" && (number(record, 72) !== 0 || number(record, 73) !== 0);
+        if (value) {
+          spend();
+          entities.push({ kind: "text", layer, text: value, position: transform(point(record, aligned ? 11 : 10)) });
+        }
+        break;
+      }
+
+      case "INSERT": {
+        const name = text(record, 2) ?? "";
+        const block = blocks.get(name);
+        if (!block || depth >= MAX_BLOCK_DEPTH) break;
+        spend();
+
+        const insertion = point(record);
+        const scaleX = number(record, 41, 1);
+        const scaleY = number(record, 42, 1);
+        const radians = (number(record, 50) * Math.PI) / 180;
+        const cos = Math.cos(radians);
+        const sin = Math.sin(radians);
+
+        const blockTransform: Transform = ({ x, y }) => {
+          const scaledX = (x - block.base.x) * scaleX;
+          const scaledY = (y - block.base.y) * scaleY;
+          return transform({
+            x: insertion.x + scaledX * cos - scaledY * sin,
+            y: insertion.y + scaledX * sin + scaledY * cos,
+          });
+        };
+
+        // The block name classifies its content too, e.g. a "Door 900" block on layer 0
+        toEntities(block.records, blocks, blockTransform, `${layer} ${name}`, depth + 1, entities, budget);
+        break;
+      }
+    }
+  }
+
+  return entities;
+};
+
+/**
+ * Parses an ASCII DXF drawing
+ *
+ * Reads lines, polylines, arcs, circles and text from the ENTITIES section
+ * and expands block references (e.g. door and window symbols). Curves are
+ * flattened to straight pieces. The unit comes from the `$INSUNITS` header
+ * variable, drawings without one are unitless.
+ *
+ * @param {string} content - The DXF file
+ * @returns {Drawing} The entities with their layer names and the unit
+ *
+ * @throws {Error} If the file is binary or cannot be read, or expands to too many entities
+ *
+ * @example
+ * ```typescript
+ * const drawing = parseDxf(await file.text());
+ * ```
+ */
+export const parseDxf = (content: string): Drawing => {
+  const records = readRecords(readGroups(content.replace(/^\uFEFF/, "")));
+
+  const blocks = new Map<string, Block>();
+  const entityRecords: DxfRecord[] = [];
+  let insUnits = 0;
+  let section: string | null = null;
+  let block: Block | null = null;
+
+  for (const record of records) {
+    if (record.type === "SECTION") {
+      section = text(record, 2) ?? null;
+
+      // Header variables are the groups of the section record itself
+      if (section === "HEADER") {
+        const index = record.groups.findIndex(group => group.code === 9 && group.value === "$INSUNITS");
+        insUnits = Number(record.groups[index + 1]?.value ?? 0);
+      }
+      continue;
+    }
+
+    if (record.type === "ENDSEC") {
+      section = null;
+      continue;
+    }
+
+    if (section === "BLOCKS") {
+      if (record.type === "BLOCK") {
+        block = { base: point(record), records: [] };
+        blocks.set(text(record, 2) ?? "", block);
+      } else if (record.type === "ENDBLK") {
+        block = null;
+      } else {
+        block?.records.push(record);
+      }
+    } else if (section === "ENTITIES") {
+      entityRecords.push(record);
+    }
+  }
+
+  if (records.length === 0 || (entityRecords.length === 0 && blocks.size === 0)) {
+    throw new Error("The DXF file has no drawing entities");
+  }
+
+  const unit = UNITS[insUnits];
+  return {
+    entities: toEntities(entityRecords, blocks, identity, null, 0),
+    metersPerUnit: unit?.metersPerUnit ?? null,
+    unitName: unit?.name ?? null,
+  };
+};
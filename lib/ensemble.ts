@@ -0,0 +1,126 @@
+import { FloorPlanAnalysis, Recommendation, ScoreSpread } from "@/types/floor-analysis";
+import { groupRecommendations, mergeRecommendationGroup } from "@/lib/recommendations";
+
+/**
+ * Calculates the median of the values
+ *
+ * @param {number[]} values - The values, at least one
+ * @returns {number} The median (the mean of the middle pair for an even count)
+ */
+export const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+
+  return sorted.length % 2 === 0
+    ? (sorted[middle - 1] + sorted[middle]) / 2
+    : sorted[middle];
+};
+
+/**
+ * Calculates how far apart the sampled values of a score are
+ *
+ * @param {number[]} values - The values, at least one
+ * @returns {ScoreSpread} The minimum, maximum and standard deviation
+ */
+export const scoreSpread = (values: number[]): ScoreSpread => {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+
+  return {
+    min: Math.min(...values),
+    max: Math.max(...values),
+    stdDev: Math.round(Math.sqrt(variance) * 10) / 10,
+  };
+};
+
+/**
+ * Maps the room ids of a sample to the rooms of the base sample by label
+ *
+ * Every sample segments the plan on its own, so the same room can have
+ * a different id in each sample. Rooms without a match are dropped.
+ *
+ * @param {Recommendation} recommendation - The recommendation of a sample
+ * @param {FloorPlanAnalysis} sample - The sample it comes from
+ * @param {FloorPlanAnalysis} base - The sample whose rooms are kept
+ * @returns {Recommendation} The recommendation with the room ids of the base sample
+ */
+const remapRoomIds = (
+  recommendation: Recommendation,
+  sample: FloorPlanAnalysis,
+  base: FloorPlanAnalysis
+): Recommendation => {
+  if (sample === base) return recommendation;
+
+  const roomIds = recommendation.roomIds.flatMap(roomId => {
+    const label = sample.rooms.find(room => room.id === roomId)?.label.trim().toLowerCase();
+    const match = base.rooms.find(room => room.label.trim().toLowerCase() === label);
+    return match ? [match.id] : [];
+  });
+
+  return { ...recommendation, roomIds: Array.from(new Set(roomIds)) };
+};
+
+/**
+ * Combines several analyses of the same image into one
+ *
+ * - Each score is the median of the samples, with its spread reported in `ensemble`
+ * - The rooms come from the sample closest to the median scores
+ * - The rationale of each score comes from the sample closest to its median
+ * - Recommendations are grouped across samples and kept if at least half
+ *   of the samples report them, the most agreed-on first
+ *
+ * @param {FloorPlanAnalysis[]} samples - The analyses, at least one, scored with the same rubric
+ * @returns {FloorPlanAnalysis} The combined analysis
+ *
+ * @example
+ * ```typescript
+ * const analysis = combineSamples([first, second, third]);
+ * console.log(analysis.ensemble?.spread.lighting);
+ * ```
+ */
+export const combineSamples = (samples: FloorPlanAnalysis[]): FloorPlanAnalysis => {
+  const scoreKeys = Object.keys(samples[0].scores);
+  const medians = Object.fromEntries(
+    scoreKeys.map(key => [key, median(samples.map(sample => sample.scores[key]))])
+  );
+
+  // Distance of a sample's score from the median
+  const distance = (sample: FloorPlanAnalysis, key: string) =>
+    Math.abs(sample.scores[key] - medians[key]);
+  const closestTo = (score: (sample: FloorPlanAnalysis) => number) =>
+    samples.reduce((best, sample) => (score(sample) < score(best) ? sample : best));
+
+  const base = closestTo(sample => scoreKeys.reduce((sum, key) => sum + distance(sample, key), 0));
+
+  // Remember which sample each recommendation comes from to count the support of a group
+  const sampleOf = new Map<Recommendation, number>();
+  const recommendations = samples.flatMap((sample, index) =>
+    sample.recommendations.map(recommendation => {
+      const remapped = remapRoomIds(recommendation, sample, base);
+      sampleOf.set(remapped, index);
+      return remapped;
+    })
+  );
+
+  const minSupport = Math.ceil(samples.length / 2);
+  const groups = groupRecommendations(recommendations)
+    .map(group => ({ group, support: new Set(group.map(item => sampleOf.get(item))).size }))
+    .filter(({ support }) => support >= minSupport)
+    .sort((a, b) => b.support - a.support);
+
+  return {
+    ...base,
+    scores: Object.fromEntries(scoreKeys.map(key => [key, Math.round(medians[key])])),
+    scoreDetails: Object.fromEntries(scoreKeys.map(key => [
+      key,
+      closestTo(sample => distance(sample, key)).scoreDetails[key],
+    ])),
+    recommendations: groups.map(({ group }) => mergeRecommendationGroup(group)),
+    ensemble: {
+      samples: samples.length,
+      spread: Object.fromEntries(
+        scoreKeys.map(key => [key, scoreSpread(samples.map(sample => sample.scores[key]))])
+      ),
+    },
+  };
+};
@@ -0,0 +1,725 @@
+import {
+  BoundingBox,
+  EnsembleSummary,
+  FloorPlanAnalysis,
+  OpeningKind,
+  PartialAnalysis,
+  PlanGeometry,
+  PlanScale,
+  Point,
+  Priority,
+  Recommendation,
+  Room,
+  RoomType,
+  ScaleReference,
+  ScaleSource,
+  UnitSystem,
+  SchemaFieldError,
+  SchemaResult,
+  Score,
+  ScoreDetail
+} from "@/types/floor-analysis";
+import { Rubric } from "@/types/rubric";
+import { PromptUsage } from "@/types/prompt";
+
+/**
+ * Allowed recommendation priorities
+ */
+export const PRIORITIES: Priority[] = ["high", "medium", "low"];
+
+/**
+ * Allowed room types
+ */
+export const ROOM_TYPES: RoomType[] = [
+  "living",
+  "kitchen",
+  "dining",
+  "bedroom",
+  "bathroom",
+  "hallway",
+  "office",
+  "storage",
+  "laundry",
+  "balcony",
+  "stairs",
+  "other",
+];
+
+/**
+ * Allowed sources of a plan scale
+ */
+export const SCALE_SOURCES: ScaleSource[] = ["scale_bar", "dimension_text", "manual", "drawing"];
+
+/**
+ * Allowed kinds of openings and sources of a plan geometry
+ */
+export const OPENING_KINDS: OpeningKind[] = ["door", "window"];
+export const GEOMETRY_SOURCES: PlanGeometry["source"][] = ["dxf", "svg"];
+
+/**
+ * Allowed unit systems
+ */
+export const UNIT_SYSTEMS: UnitSystem[] = ["metric", "imperial"];
+
+/**
+ * Checks that the value is a plain object
+ *
+ * @param {unknown} value - The value to check
+ * @returns {boolean} True, if the value is a non-array object
+ */
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Checks that the field is a non-empty string
+ *
+ * @param {unknown} value - The value to check
+ * @param {string} path - The path of the field
+ * @param {SchemaFieldError[]} errors - The list collecting the errors
+ */
+const checkText = (value: unknown, path: string, errors: SchemaFieldError[]) => {
+  if (typeof value !== "string" || value.trim() === "") {
+    errors.push({ path, message: "must be a non-empty string" });
+  }
+};
+
+/**
+ * Checks that the field is a number between 0 and 1 (coordinates, confidence)
+ *
+ * @param {unknown} value - The value to check
+ * @param {string} path - The path of the field
+ * @param {SchemaFieldError[]} errors - The list collecting the errors
+ */
+const checkCoordinate = (value: unknown, path: string, errors: SchemaFieldError[]) => {
+  if (typeof value !== "number" || !Number.isFinite(value) || value < 0 || value > 1) {
+    errors.push({ path, message: "must be a number between 0 and 1" });
+  }
+};
+
+/**
+ * Checks that the field is a finite number greater than 0 (lengths, areas)
+ *
+ * @param {unknown} value - The value to check
+ * @param {string} path - The path of the field
+ * @param {SchemaFieldError[]} errors - The list collecting the errors
+ */
+const checkPositive = (value: unknown, path: string, errors: SchemaFieldError[]) => {
+  if (typeof value !== "number" || !Number.isFinite(value) || value <= 0) {
+    errors.push({ path, message: "must be a number greater than 0" });
+  }
+};
+
+/**
+ * Checks that the field is a point with normalized coordinates
+ *
+ * @param {unknown} value - The value to check
+ * @param {string} path - The path of the field
+ * @param {SchemaFieldError[]} errors - The list collecting the errors
+ */
+const checkPoint = (value: unknown, path: string, errors: SchemaFieldError[]) => {
+  if (!isRecord(value)) {
+    errors.push({ path, message: "must be an object with x and y" });
+    return;
+  }
+  checkCoordinate(value.x, `${path}.x`, errors);
+  checkCoordinate(value.y, `${path}.y`, errors);
+};
+
+/**
+ * Validates a scale reference (a line of known length on the plan)
+ *
+ * @param {unknown} value - The raw scale reference
+ * @param {string} path - The path of the reference
+ * @param {SchemaFieldError[]} errors - The list collecting the errors
+ */
+const checkScaleReference = (value: unknown, path: string, errors: SchemaFieldError[]) => {
+  if (!isRecord(value)) {
+    errors.push({ path, message: "must be an object" });
+    return;
+  }
+
+  if (!SCALE_SOURCES.includes(value.source as ScaleSource)) {
+    errors.push({ path: `${path}.source`, message: `must be one of: ${SCALE_SOURCES.join(", ")}` });
+  }
+  checkText(value.label, `${path}.label`, errors);
+  checkPoint(value.start, `${path}.start`, errors);
+  checkPoint(value.end, `${path}.end`, errors);
+  checkPositive(value.lengthMeters, `${path}.lengthMeters`, errors);
+};
+
+/**
+ * Validates the scores object against the rubric dimensions
+ *
+ * @param {unknown} value - The raw scores
+ * @param {string[]} scoreKeys - The dimension ids of the rubric
+ * @param {SchemaFieldError[]} errors - The list collecting the errors
+ */
+const validateScores = (value: unknown, scoreKeys: string[], errors: SchemaFieldError[]) => {
+  if (!isRecord(value)) {
+    errors.push({ path: "scores", message: "must be an object" });
+    return;
+  }
+
+  for (const key of scoreKeys) {
+    const score = value[key];
+    if (score === undefined) {
+      errors.push({ path: `scores.${key}`, message: "is required" });
+    } else if (typeof score !== "number" || !Number.isFinite(score) || score < 0 || score > 100) {
+      errors.push({ path: `scores.${key}`, message: "must be a number between 0 and 100" });
+    }
+  }
+
+  for (const key of Object.keys(value)) {
+    if (!scoreKeys.includes(key)) {
+      errors.push({ path: `scores.${key}`, message: "is not a known score" });
+    }
+  }
+};
+
+/**
+ * Validates the score details against the rubric dimensions
+ *
+ * @param {unknown} value - The raw score details
+ * @param {string[]} scoreKeys - The dimension ids of the rubric
+ * @param {SchemaFieldError[]} errors - The list collecting the errors
+ */
+const validateScoreDetails = (value: unknown, scoreKeys: string[], errors: SchemaFieldError[]) => {
+  if (!isRecord(value)) {
+    errors.push({ path: "scoreDetails", message: "must be an object" });
+    return;
+  }
+
+  for (const key of scoreKeys) {
+    const path = `scoreDetails.${key}`;
+    const detail = value[key];
+
+    if (!isRecord(detail)) {
+      errors.push({ path, message: "must be an object with rationale, evidence and confidence" });
+      continue;
+    }
+
+    checkText(detail.rationale, `${path}.rationale`, errors);
+
+    if (!Array.isArray(detail.evidence)) {
+      errors.push({ path: `${path}.evidence`, message: "must be an array of strings" });
+    } else {
+      detail.evidence.forEach((item, index) => checkText(item, `${path}.evidence[${index}]`, errors));
+    }
+
+    checkCoordinate(detail.confidence, `${path}.confidence`, errors);
+  }
+
+  for (const key of Object.keys(value)) {
+    if (!scoreKeys.includes(key)) {
+      errors.push({ path: `scoreDetails.${key}`, message: "is not a known score" });
+    }
+  }
+};
+
+/**
+ * Validates the optional ensemble summary against the rubric dimensions
+ *
+ * @param {unknown} value - The raw ensemble summary
+ * @param {string[]} scoreKeys - The dimension ids of the rubric
+ * @param {SchemaFieldError[]} errors - The list collecting the errors
+ */
+const validateEnsemble = (value: unknown, scoreKeys: string[], errors: SchemaFieldError[]) => {
+  if (!isRecord(value)) {
+    errors.push({ path: "ensemble", message: "must be an object with samples and spread" });
+    return;
+  }
+
+  if (!Number.isInteger(value.samples) || (value.samples as number) < 2) {
+    errors.push({ path: "ensemble.samples", message: "must be an integer of at least 2" });
+  }
+
+  if (!isRecord(value.spread)) {
+    errors.push({ path: "ensemble.spread", message: "must be an object" });
+    return;
+  }
+
+  for (const key of scoreKeys) {
+    const path = `ensemble.spread.${key}`;
+    const spread = value.spread[key];
+
+    if (!isRecord(spread)) {
+      errors.push({ path, message: "must be an object with min, max and stdDev" });
+      continue;
+    }
+
+    for (const field of ["min", "max", "stdDev"]) {
+      const number = spread[field];
+      if (typeof number !== "number" || !Number.isFinite(number) || number < 0 || number > 100) {
+        errors.push({ path: `${path}.${field}`, message: "must be a number between 0 and 100" });
+      }
+    }
+  }
+};
+
+/**
+ * Validates a single room
+ *
+ * @param {unknown} value - The raw room
+ * @param {string} path - The path of the room
+ * @param {SchemaFieldError[]} errors - The list collecting the errors
+ */
+const validateRoom = (value: unknown, path: string, errors: SchemaFieldError[]) => {
+  if (!isRecord(value)) {
+    errors.push({ path, message: "must be an object" });
+    return;
+  }
+
+  checkText(value.id, `${path}.id`, errors);
+  checkText(value.label, `${path}.label`, errors);
+
+  if (!ROOM_TYPES.includes(value.type as RoomType)) {
+    errors.push({ path: `${path}.type`, message: `must be one of: ${ROOM_TYPES.join(", ")}` });
+  }
+
+  if (!isRecord(value.bounds)) {
+    errors.push({ path: `${path}.bounds`, message: "must be an object with x, y, width and height" });
+  } else {
+    for (const key of ["x", "y", "width", "height"]) {
+      checkCoordinate(value.bounds[key], `${path}.bounds.${key}`, errors);
+    }
+  }
+
+  if (value.polygon !== undefined) {
+    if (!Array.isArray(value.polygon) || value.polygon.length < 3) {
+      errors.push({ path: `${path}.polygon`, message: "must be an array of at least 3 points" });
+    } else {
+      value.polygon.forEach((point, index) => checkPoint(point, `${path}.polygon[${index}]`, errors));
+    }
+  }
+
+  if (value.dimensions !== undefined) {
+    if (!isRecord(value.dimensions)) {
+      errors.push({ path: `${path}.dimensions`, message: "must be an object with width, depth and area" });
+    } else {
+      for (const key of ["width", "depth", "area"]) {
+        checkPositive(value.dimensions[key], `${path}.dimensions.${key}`, errors);
+      }
+    }
+  }
+};
+
+/**
+ * Validates a single recommendation
+ *
+ * @param {unknown} value - The raw recommendation
+ * @param {string} path - The path of the recommendation
+ * @param {Set<string> | null} roomIds - The ids of the rooms in the analysis, null to skip the room check
+ * @param {SchemaFieldError[]} errors - The list collecting the errors
+ */
+const validateRecommendation = (
+  value: unknown,
+  path: string,
+  roomIds: Set<string> | null,
+  errors: SchemaFieldError[]
+) => {
+  if (!isRecord(value)) {
+    errors.push({ path, message: "must be an object" });
+    return;
+  }
+
+  checkText(value.area, `${path}.area`, errors);
+
+  // Room ids are skipped when the rooms are not known (e.g. findings from a single tile)
+  if (roomIds) {
+    if (!Array.isArray(value.roomIds)) {
+      errors.push({ path: `${path}.roomIds`, message: "must be an array of room ids" });
+    } else {
+      value.roomIds.forEach((roomId, index) => {
+        if (typeof roomId !== "string" || !roomIds.has(roomId)) {
+          errors.push({ path: `${path}.roomIds[${index}]`, message: "must be the id of a room in rooms" });
+        }
+      });
+    }
+  }
+
+  checkText(value.issue, `${path}.issue`, errors);
+  checkText(value.suggestion, `${path}.suggestion`, errors);
+
+  if (!PRIORITIES.includes(value.priority as Priority)) {
+    errors.push({ path: `${path}.priority`, message: `must be one of: ${PRIORITIES.join(", ")}` });
+  }
+};
+
+/**
+ * Validates the geometry read from a drawing
+ *
+ * @param {unknown} value - The raw geometry
+ * @param {Set<string>} roomIds - The ids of the rooms in the analysis
+ * @param {SchemaFieldError[]} errors - The list collecting the errors
+ */
+const validateGeometry = (value: unknown, roomIds: Set<string>, errors: SchemaFieldError[]) => {
+  if (!isRecord(value)) {
+    errors.push({ path: "geometry", message: "must be an object with source, openings and adjacency" });
+    return;
+  }
+
+  if (!GEOMETRY_SOURCES.includes(value.source as PlanGeometry["source"])) {
+    errors.push({ path: "geometry.source", message: `must be one of: ${GEOMETRY_SOURCES.join(", ")}` });
+  }
+
+  const checkRoomIds = (ids: unknown, path: string) => {
+    if (!Array.isArray(ids)) {
+      errors.push({ path, message: "must be an array of room ids" });
+      return;
+    }
+    ids.forEach((roomId, index) => {
+      if (typeof roomId !== "string" || !roomIds.has(roomId)) {
+        errors.push({ path: `${path}[${index}]`, message: "must be the id of a room in rooms" });
+      }
+    });
+  };
+
+  if (!Array.isArray(value.openings)) {
+    errors.push({ path: "geometry.openings", message: "must be an array" });
+  } else {
+    value.openings.forEach((opening, index) => {
+      const path = `geometry.openings[${index}]`;
+      if (!isRecord(opening)) {
+        errors.push({ path, message: "must be an object" });
+        return;
+      }
+      if (!OPENING_KINDS.includes(opening.kind as OpeningKind)) {
+        errors.push({ path: `${path}.kind`, message: `must be one of: ${OPENING_KINDS.join(", ")}` });
+      }
+      checkPoint(opening.position, `${path}.position`, errors);
+      if (opening.width !== undefined) checkPositive(opening.width, `${path}.width`, errors);
+      checkRoomIds(opening.roomIds, `${path}.roomIds`);
+    });
+  }
+
+  if (!Array.isArray(value.adjacency)) {
+    errors.push({ path: "geometry.adjacency", message: "must be an array" });
+  } else {
+    value.adjacency.forEach((pair, index) => {
+      const path = `geometry.adjacency[${index}]`;
+      if (!isRecord(pair)) {
+        errors.push({ path, message: "must be an object" });
+        return;
+      }
+      if (!Array.isArray(pair.roomIds) || pair.roomIds.length !== 2) {
+        errors.push({ path: `${path}.roomIds`, message: "must be an array of 2 room ids" });
+      } else {
+        checkRoomIds(pair.roomIds, `${path}.roomIds`);
+      }
+      if (typeof pair.connected !== "boolean") {
+        errors.push({ path: `${path}.connected`, message: "must be a boolean" });
+      }
+    });
+  }
+};
+
+/**
+ * Validates the prompt versions an analysis was made with
+ *
+ * @param {unknown} value - The raw prompt versions
+ * @param {SchemaFieldError[]} errors - The list collecting the errors
+ */
+const validatePrompts = (value: unknown, errors: SchemaFieldError[]) => {
+  if (!Array.isArray(value)) {
+    errors.push({ path: "prompts", message: "must be an array" });
+    return;
+  }
+
+  value.forEach((usage, index) => {
+    const path = `prompts[${index}]`;
+    if (!isRecord(usage)) {
+      errors.push({ path, message: "must be an object with id and version" });
+      return;
+    }
+    checkText(usage.id, `${path}.id`, errors);
+    checkText(usage.version, `${path}.version`, errors);
+  });
+};
+
+/**
+ * Keeps the bounding box inside the image when the model overshoots the edge
+ *
+ * @param {BoundingBox} bounds - The validated bounding box
+ * @returns {BoundingBox} The bounding box clipped to the image
+ */
+const clampBounds = ({ x, y, width, height }: BoundingBox): BoundingBox => ({
+  x,
+  y,
+  width: Math.min(width, 1 - x),
+  height: Math.min(height, 1 - y),
+});
+
+/**
+ * Validates data against the FloorPlanAnalysis schema
+ *
+ * Used on the server for model output and on the client for API responses.
+ * The scores (and the spread of an ensemble analysis) must match the
+ * dimensions of the rubric exactly. A missing unit system defaults to metric.
+ * Unknown recommendation fields are dropped from the returned data,
+ * unknown score keys are reported as errors.
+ *
+ * @param {unknown} value - The data to validate
+ * @param {Rubric} rubric - The rubric the scores are checked against
+ * @returns {SchemaResult<FloorPlanAnalysis>} The validated analysis or field-level errors
+ *
+ * @example
+ * ```typescript
+ * const result = validateFloorPlanAnalysis(JSON.parse(content), getActiveRubric());
+ * if (!result.success) console.log(result.errors);
+ * ```
+ */
+export const validateFloorPlanAnalysis = (
+  value: unknown,
+  rubric: Rubric
+): SchemaResult<FloorPlanAnalysis> => {
+  const errors: SchemaFieldError[] = [];
+
+  if (!isRecord(value)) {
+    return { success: false, errors: [{ path: "", message: "must be an object" }] };
+  }
+
+  const scoreKeys = rubric.dimensions.map(dimension => dimension.id);
+  validateScores(value.scores, scoreKeys, errors);
+  validateScoreDetails(value.scoreDetails, scoreKeys, errors);
+
+  if (value.unitSystem !== undefined && !UNIT_SYSTEMS.includes(value.unitSystem as UnitSystem)) {
+    errors.push({ path: "unitSystem", message: `must be one of: ${UNIT_SYSTEMS.join(", ")}` });
+  }
+
+  if (value.ensemble !== undefined) {
+    validateEnsemble(value.ensemble, scoreKeys, errors);
+  }
+
+  if (value.scale !== undefined) {
+    checkScaleReference(value.scale, "scale", errors);
+    if (isRecord(value.scale)) {
+      for (const key of ["pixelsPerMeter", "imageWidth", "imageHeight"]) {
+        checkPositive(value.scale[key], `scale.${key}`, errors);
+      }
+    }
+  }
+
+  const roomIds = new Set<string>();
+  if (!Array.isArray(value.rooms)) {
+    errors.push({ path: "rooms", message: "must be an array" });
+  } else {
+    value.rooms.forEach((room, index) => {
+      validateRoom(room, `rooms[${index}]`, errors);
+
+      const id = isRecord(room) ? room.id : undefined;
+      if (typeof id !== "string") return;
+      if (roomIds.has(id)) {
+        errors.push({ path: `rooms[${index}].id`, message: "must be unique" });
+      }
+      roomIds.add(id);
+    });
+  }
+
+  if (!Array.isArray(value.recommendations)) {
+    errors.push({ path: "recommendations", message: "must be an array" });
+  } else {
+    value.recommendations.forEach((recommendation, index) =>
+      validateRecommendation(recommendation, `recommendations[${index}]`, roomIds, errors)
+    );
+  }
+
+  if (value.geometry !== undefined) {
+    validateGeometry(value.geometry, roomIds, errors);
+  }
+
+  if (value.prompts !== undefined) {
+    validatePrompts(value.prompts, errors);
+  }
+
+  if (errors.length > 0) return { success: false, errors };
+
+  const scores = value.scores as Score;
+  const scoreDetails = value.scoreDetails as Record<string, ScoreDetail>;
+  const rooms = value.rooms as Room[];
+  const recommendations = value.recommendations as Recommendation[];
+  const ensemble = value.ensemble as EnsembleSummary | undefined;
+  const scale = value.scale as PlanScale | undefined;
+  const geometry = value.geometry as PlanGeometry | undefined;
+  const prompts = value.prompts as PromptUsage[] | undefined;
+
+  return {
+    success: true,
+    data: {
+      rubricId: rubric.id,
+      unitSystem: (value.unitSystem as UnitSystem | undefined) ?? "metric",
+      scores: Object.fromEntries(scoreKeys.map(key => [key, scores[key]])),
+      scoreDetails: Object.fromEntries(scoreKeys.map(key => {
+        const { rationale, evidence, confidence } = scoreDetails[key];
+        return [key, { rationale, evidence, confidence }];
+      })),
+      rooms: rooms.map(({ id, type, label, bounds, polygon, dimensions }) => ({
+        id,
+        type,
+        label,
+        bounds: clampBounds(bounds),
+        ...(polygon && { polygon: polygon.map(({ x, y }: Point) => ({ x, y })) }),
+        ...(dimensions && {
+          dimensions: { width: dimensions.width, depth: dimensions.depth, area: dimensions.area },
+        }),
+      })),
+      recommendations: recommendations.map(({ area, roomIds, issue, suggestion, priority }) => ({
+        area,
+        roomIds,
+        issue,
+        suggestion,
+        priority,
+      })),
+      ...(ensemble && {
+        ensemble: {
+          samples: ensemble.samples,
+          spread: Object.fromEntries(scoreKeys.map(key => {
+            const { min, max, stdDev } = ensemble.spread[key];
+            return [key, { min, max, stdDev }];
+          })),
+        },
+      }),
+      ...(scale && {
+        scale: {
+          source: scale.source,
+          label: scale.label,
+          start: { x: scale.start.x, y: scale.start.y },
+          end: { x: scale.end.x, y: scale.end.y },
+          lengthMeters: scale.lengthMeters,
+          pixelsPerMeter: scale.pixelsPerMeter,
+          imageWidth: scale.imageWidth,
+          imageHeight: scale.imageHeight,
+        },
+      }),
+      ...(geometry && {
+        geometry: {
+          source: geometry.source,
+          openings: geometry.openings.map(({ kind, position, width, roomIds }) => ({
+            kind,
+            position: { x: position.x, y: position.y },
+            ...(width !== undefined && { width }),
+            roomIds,
+          })),
+          adjacency: geometry.adjacency.map(({ roomIds, connected }) => ({
+            roomIds: [roomIds[0], roomIds[1]] as [string, string],
+            connected,
+          })),
+        },
+      }),
+      ...(prompts && {
+        prompts: prompts.map(({ id, version }) => ({ id, version })),
+      }),
+    },
+  };
+};
+
+/**
+ * Validates the parts of an analysis received while the model is still answering
+ *
+ * The scores are optional but, once present, must match the rubric like in a
+ * full analysis. Room ids of the recommendations are not checked, the rooms
+ * may not be complete yet, and invalid room ids are dropped.
+ *
+ * @param {unknown} value - The data to validate
+ * @param {Rubric} rubric - The rubric the scores are checked against
+ * @returns {SchemaResult<PartialAnalysis>} The validated parts or field-level errors
+ */
+export const validatePartialAnalysis = (value: unknown, rubric: Rubric): SchemaResult<PartialAnalysis> => {
+  const errors: SchemaFieldError[] = [];
+
+  if (!isRecord(value) || !Array.isArray(value.recommendations)) {
+    return { success: false, errors: [{ path: "recommendations", message: "must be an array" }] };
+  }
+
+  if (value.rubricId !== rubric.id) {
+    errors.push({ path: "rubricId", message: `must be "${rubric.id}"` });
+  }
+
+  const scoreKeys = rubric.dimensions.map(dimension => dimension.id);
+  if (value.scores !== undefined) {
+    validateScores(value.scores, scoreKeys, errors);
+  }
+
+  value.recommendations.forEach((recommendation, index) =>
+    validateRecommendation(recommendation, `recommendations[${index}]`, null, errors)
+  );
+
+  if (errors.length > 0) return { success: false, errors };
+
+  const scores = value.scores as Score | undefined;
+  return {
+    success: true,
+    data: {
+      rubricId: rubric.id,
+      ...(scores && { scores: Object.fromEntries(scoreKeys.map(key => [key, scores[key]])) }),
+      recommendations: (value.recommendations as Recommendation[]).map(({ area, roomIds, issue, suggestion, priority }) => ({
+        area,
+        roomIds: Array.isArray(roomIds) ? roomIds.filter(id => typeof id === "string") : [],
+        issue,
+        suggestion,
+        priority,
+      })),
+    },
+  };
+};
+
+/**
+ * Formats field errors as one readable line per error
+ *
+ * @param {SchemaFieldError[]} errors - The field errors
+ * @returns {string} The formatted errors
+ */
+export const formatSchemaErrors = (errors: SchemaFieldError[]): string =>
+  errors.map(({ path, message }) => `- ${path || "(root)"} ${message}`).join("\n");
+
+/**
+ * Validates the findings returned for a single tile of a high fidelity analysis
+ *
+ * Tiles only report recommendations. Room ids are not checked and are
+ * returned empty, they are assigned when the tiles are merged.
+ *
+ * @param {unknown} value - The data to validate
+ * @returns {SchemaResult<Recommendation[]>} The recommendations or field-level errors
+ */
+export const validateTileFindings = (value: unknown): SchemaResult<Recommendation[]> => {
+  const errors: SchemaFieldError[] = [];
+
+  if (!isRecord(value) || !Array.isArray(value.recommendations)) {
+    return { success: false, errors: [{ path: "recommendations", message: "must be an array" }] };
+  }
+
+  value.recommendations.forEach((recommendation, index) =>
+    validateRecommendation(recommendation, `recommendations[${index}]`, null, errors)
+  );
+
+  if (errors.length > 0) return { success: false, errors };
+
+  return {
+    success: true,
+    data: (value.recommendations as Recommendation[]).map(({ area, issue, suggestion, priority }) => ({
+      area,
+      roomIds: [],
+      issue,
+      suggestion,
+      priority,
+    })),
+  };
+};
+
+/**
+ * Validates the scale reference returned by the scale extraction step
+ *
+ * @param {unknown} value - The data to validate
+ * @returns {SchemaResult<ScaleReference>} The scale reference or field-level errors
+ */
+export const validateScaleReference = (value: unknown): SchemaResult<ScaleReference> => {
+  const errors: SchemaFieldError[] = [];
+  checkScaleReference(value, "scale", errors);
+
+  if (errors.length > 0) return { success: false, errors };
+
+  const { source, label, start, end, lengthMeters } = value as ScaleReference;
+  return {
+    success: true,
+    data: { source, label, start: { x: start.x, y: start.y }, end: { x: end.x, y: end.y }, lengthMeters },
+  };
+};
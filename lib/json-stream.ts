@@ -0,0 +1,172 @@
+/**
+ * Path of a value in a JSON document: object keys and array indexes from the root
+ */
+export type JsonPath = (string | number)[];
+
+/**
+ * An object or array that is still open
+ */
+type Container = {
+  kind: "object" | "array";
+  // Offset of the opening bracket in the text
+  start: number;
+  // The key of the current member, or the index of the current element
+  key: string | number | null;
+  // Whether the next string of an object is a key
+  expectsKey: boolean;
+};
+
+/**
+ * Incremental JSON parser, fed the text of a document as it arrives
+ *
+ * @interface JsonStreamParser
+ * @property {function} write - Adds the next chunk of text
+ */
+export interface JsonStreamParser {
+  write(chunk: string): void;
+}
+
+/**
+ * Creates a parser that reports values as soon as they are complete
+ *
+ * Tracks where each value starts and ends while the text arrives, so a value
+ * is parsed once, when its last character is received, instead of waiting for
+ * the whole document. Only the values whose path is selected are parsed.
+ * Text outside the JSON grammar is not reported as an error, a value that
+ * cannot be parsed is skipped and the complete document is checked separately.
+ *
+ * @param {function} select - Whether to report the value at the path
+ * @param {function} onValue - Called with the path and the parsed value
+ * @returns {JsonStreamParser} The parser
+ *
+ * @example
+ * ```typescript
+ * const parser = createJsonStreamParser(
+ *   path => path[0] === "recommendations" && path.length === 2,
+ *   (path, value) => console.log(`recommendation ${path[1]}`, value)
+ * );
+ * parser.write('{"recommendations": [{"area": "Kitchen"}, ');
+ * ```
+ */
+export const createJsonStreamParser = (
+  select: (path: JsonPath) => boolean,
+  onValue: (path: JsonPath, value: unknown) => void
+): JsonStreamParser => {
+  const stack: Container[] = [];
+  let buffer = "";
+  // Start of the string or of the number or literal being read, -1 outside of one
+  let stringStart = -1;
+  let isKey = false;
+  let isEscaped = false;
+  let literalStart = -1;
+
+  /**
+   * Reports the value between the offsets if its path is selected
+   *
+   * @param {number} start - The offset of the first character
+   * @param {number} end - The offset after the last character
+   */
+  const complete = (start: number, end: number) => {
+    const path = stack.map(container => container.key as string | number);
+    if (!select(path)) return;
+
+    let value: unknown;
+    try {
+      value = JSON.parse(buffer.slice(start, end));
+    } catch {
+      // Not valid JSON, left to the check of the whole document
+      return;
+    }
+    onValue(path, value);
+  };
+
+  /**
+   * Reads one character outside of strings
+   *
+   * @param {string} char - The character
+   * @param {number} offset - Its offset in the text
+   */
+  const readStructure = (char: string, offset: number) => {
+    const top = stack[stack.length - 1];
+
+    // A number or literal ends at the first character that cannot be part of it
+    if (literalStart >= 0 && !/[\w.+-]/.test(char)) {
+      complete(literalStart, offset);
+      literalStart = -1;
+    }
+
+    switch (char) {
+      case "\"":
+        stringStart = offset;
+        isKey = top?.kind === "object" && top.expectsKey;
+        break;
+      case "{":
+      case "[":
+        stack.push({
+          kind: char === "{" ? "object" : "array",
+          start: offset,
+          key: char === "{" ? null : 0,
+          expectsKey: char === "{",
+        });
+        break;
+      case "}":
+      case "]": {
+        const container = stack.pop();
+        if (container) complete(container.start, offset + 1);
+        break;
+      }
+      case ":":
+        if (top) top.expectsKey = false;
+        break;
+      case ",":
+        if (top?.kind === "object") top.expectsKey = true;
+        if (top?.kind === "array") top.key = (top.key as number) + 1;
+        break;
+      default:
+        if (literalStart < 0 && /[\w.+-]/.test(char)) literalStart = offset;
+    }
+  };
+
+  /**
+   * Reads one character inside a string
+   *
+   * @param {string} char - The character
+   * @param {number} offset - Its offset in the text
+   */
+  const readString = (char: string, offset: number) => {
+    if (isEscaped) {
+      isEscaped = false;
+    } else if (char === "\\") {
+      isEscaped = true;
+    } else if (char === "\"") {
+      const start = stringStart;
+      stringStart = -1;
+
+      if (isKey) {
+        try {
+          stack[stack.length - 1].key = JSON.parse(buffer.slice(start, offset + 1));
+        } catch {
+          // An invalid escape, the key is kept as written
+          stack[stack.length - 1].key = buffer.slice(start + 1, offset);
+        }
+      } else {
+        complete(start, offset + 1);
+      }
+    }
+  };
+
+  return {
+    write(chunk: string) {
+      const offset = buffer.length;
+      buffer += chunk;
+
+      for (let index = 0; index < chunk.length; index++) {
+        if (stringStart >= 0) {
+          readString(chunk[index], offset + index);
+        } else {
+          readStructure(chunk[index], offset + index);
+        }
+      }
+    },
+  };
+};
@@ -0,0 +1,169 @@
+import {
+  FloorPlanAnalysis,
+  ImageSize,
+  PlanScale,
+  Point,
+  Room,
+  RoomDimensions,
+  ScaleReference,
+  UnitSystem
+} from "@/types/floor-analysis";
+
+/**
+ * Conversion factors from metric
+ */
+const FEET_PER_METER = 3.28084;
+const SQUARE_FEET_PER_SQUARE_METER = 10.7639;
+
+/**
+ * Rounds the value to the given number of decimals
+ *
+ * @param {number} value - The value to round
+ * @param {number} decimals - The number of decimals
+ * @returns {number} The rounded value
+ */
+const round = (value: number, decimals: number): number => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * Calculates the area of a polygon with the shoelace formula
+ *
+ * @param {Point[]} points - The corners of the polygon, in pixels
+ * @returns {number} The area in square pixels
+ */
+const polygonArea = (points: Point[]): number => {
+  let sum = 0;
+  points.forEach((point, index) => {
+    const next = points[(index + 1) % points.length];
+    sum += point.x * next.y - next.x * point.y;
+  });
+  return Math.abs(sum) / 2;
+};
+
+/**
+ * Works out the plan scale from a line of known length
+ *
+ * @param {ScaleReference} reference - The line and its real length
+ * @param {ImageSize} imageSize - The size of the image the line was drawn on
+ * @returns {PlanScale | null} The scale, or null if the line has no length
+ *
+ * @example
+ * ```typescript
+ * const scale = createPlanScale(
+ *   { source: "manual", label: "4 m", start: { x: 0.1, y: 0.5 }, end: { x: 0.5, y: 0.5 }, lengthMeters: 4 },
+ *   { width: 2000, height: 1500 }
+ * );
+ * ```
+ */
+export const createPlanScale = (reference: ScaleReference, imageSize: ImageSize): PlanScale | null => {
+  const pixels = Math.hypot(
+    (reference.end.x - reference.start.x) * imageSize.width,
+    (reference.end.y - reference.start.y) * imageSize.height
+  );
+
+  if (pixels === 0 || reference.lengthMeters <= 0) return null;
+
+  return {
+    ...reference,
+    pixelsPerMeter: round(pixels / reference.lengthMeters, 3),
+    imageWidth: imageSize.width,
+    imageHeight: imageSize.height,
+  };
+};
+
+/**
+ * Measures a room with the plan scale
+ *
+ * Width and depth are the sides of the bounding box. The area uses the
+ * polygon when there is one, so L-shaped rooms are not overestimated.
+ *
+ * @param {Room} room - The room to measure
+ * @param {PlanScale} scale - The plan scale
+ * @returns {RoomDimensions} The width and depth in meters and the area in square meters
+ */
+export const measureRoom = (room: Room, scale: PlanScale): RoomDimensions => {
+  const { pixelsPerMeter, imageWidth, imageHeight } = scale;
+  const width = (room.bounds.width * imageWidth) / pixelsPerMeter;
+  const depth = (room.bounds.height * imageHeight) / pixelsPerMeter;
+
+  const area = room.polygon
+    ? polygonArea(room.polygon.map(({ x, y }) => ({ x: x * imageWidth, y: y * imageHeight }))) /
+      pixelsPerMeter ** 2
+    : width * depth;
+
+  return {
+    width: round(width, 2),
+    depth: round(depth, 2),
+    area: round(area, 1),
+  };
+};
+
+/**
+ * Sets the plan scale and measures every room with it
+ *
+ * @param {FloorPlanAnalysis} analysis - The analysis to measure
+ * @param {PlanScale} scale - The plan scale
+ * @returns {FloorPlanAnalysis} The analysis with the scale and room dimensions
+ */
+export const applyScale = (analysis: FloorPlanAnalysis, scale: PlanScale): FloorPlanAnalysis => ({
+  ...analysis,
+  scale,
+  rooms: analysis.rooms.map(room => ({ ...room, dimensions: measureRoom(room, scale) })),
+});
+
+/**
+ * Calculates the total area of the rooms
+ *
+ * @param {Room[]} rooms - The measured rooms
+ * @returns {number | null} The total in square meters, or null if no room is measured
+ */
+export const totalArea = (rooms: Room[]): number | null => {
+  const measured = rooms.filter(room => room.dimensions);
+  if (measured.length === 0) return null;
+  return round(measured.reduce((sum, room) => sum + (room.dimensions?.area ?? 0), 0), 1);
+};
+
+/**
+ * Formats a length for display
+ *
+ * @param {number} meters - The length in meters
+ * @param {UnitSystem} [unitSystem="metric"] - The unit system to show it in
+ * @returns {string} The formatted length, e.g. "3.20 m" or "10.5 ft"
+ */
+export const formatLength = (meters: number, unitSystem: UnitSystem = "metric"): string =>
+  unitSystem === "imperial"
+    ? `${(meters * FEET_PER_METER).toFixed(1)} ft`
+    : `${meters.toFixed(2)} m`;
+
+/**
+ * Formats an area for display
+ *
+ * @param {number} squareMeters - The area in square meters
+ * @param {UnitSystem} [unitSystem="metric"] - The unit system to show it in
+ * @returns {string} The formatted area, e.g. "12.4 m²" or "133 ft²"
+ */
+export const formatArea = (squareMeters: number, unitSystem: UnitSystem = "metric"): string =>
+  unitSystem === "imperial"
+    ? `${Math.round(squareMeters * SQUARE_FEET_PER_SQUARE_METER)} ft²`
+    : `${squareMeters.toFixed(1)} m²`;
+
+/**
+ * Converts a length typed in the given unit system to meters
+ *
+ * @param {number} value - The length in meters (metric) or feet (imperial)
+ * @param {UnitSystem} unitSystem - The unit system of the value
+ * @returns {number} The length in meters
+ */
+export const toMeters = (value: number, unitSystem: UnitSystem): number =>
+  unitSystem === "imperial" ? value / FEET_PER_METER : value;
+
+/**
+ * Short name of the length unit
+ *
+ * @param {UnitSystem} unitSystem - The unit system
+ * @returns {string} "m" or "ft"
+ */
+export const lengthUnit = (unitSystem: UnitSystem): string =>
+  unitSystem === "imperial" ? "ft" : "m";
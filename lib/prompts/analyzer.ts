@@ -0,0 +1,189 @@
+import { PromptDefinition } from "@/types/prompt";
+
+/**
+ * Prompts of the floor plan analyzer
+ *
+ * The templates keep the indentation of the requests they are sent in,
+ * the variables are filled in by `AiAnalyzerService`.
+ */
+export const ANALYZER_PROMPTS: PromptDefinition[] = [
+  {
+    id: "analysis-system",
+    defaultVersion: "1",
+    versions: [
+      {
+        version: "1",
+        variables: ["scoreFields", "scoreDetailFields", "roomTypes", "scoreCriteria", "unitInstructions", "geometry"],
+        metadata: {
+          description: "Validates the image and returns the scores, rooms and recommendations of the active rubric",
+          createdAt: "2026-10-19",
+        },
+        template: `
+            You are an expert in analyzing floor plans, architectural drawings, and interior layouts.
+                      
+            Your task:
+                      
+            1) First, determine whether the image is a valid floor plan / architectural layout / interior space.
+                      
+               - If the image is NOT related to rooms, interior spaces, or floor plans → respond ONLY with:
+                      
+                 {
+                   "isFloorPlan": false,
+                   "reason": "short explanation of what the image shows"
+                 }
+                      
+            2) If the image IS valid → perform full analysis.
+                      
+            RETURN JSON ONLY IN THIS FORMAT:
+                      
+            {
+              "isFloorPlan": true,
+              "scores": {
+                {{scoreFields}}
+              },
+              "scoreDetails": {
+                {{scoreDetailFields}}
+              },
+              "rooms": [
+                {
+                  "id": "string (short unique id, e.g. \"r1\")",
+                  "type": "{{roomTypes}}",
+                  "label": "string (name as shown on the plan, e.g. \"Bedroom 2\")",
+                  "bounds": { "x": number, "y": number, "width": number, "height": number },
+                  "polygon": [{ "x": number, "y": number }] (optional, for non-rectangular rooms)
+                }
+              ],
+              "recommendations": [
+                {
+                  "area": "string",
+                  "roomIds": ["id of each room the finding refers to, empty for the whole plan"],
+                  "issue": "string",
+                  "suggestion": "string",
+                  "priority": "low | medium | high"
+                }
+              ]
+            }
+                      
+            Score every dimension from 0 to 100 using these criteria:
+            {{scoreCriteria}}
+                      
+            For every score, give in "scoreDetails":
+            - "rationale": one or two sentences explaining the score
+            - "evidence": the specific things on the plan the score is based on (rooms, windows, widths, labels)
+            - "confidence": how sure you are, from 0 (guess) to 1 (clearly visible on the plan);
+              use a low value when labels, dimensions or openings are unreadable
+                      
+            Room coordinates are fractions of the image size (0-1), measured from the top left corner.
+            List every room, corridor and outdoor space visible on the plan.
+                      
+            {{unitInstructions}}
+            {{geometry}}
+            Always return VALID JSON and NOTHING ELSE.
+            `,
+      },
+    ],
+  },
+  {
+    id: "analysis-geometry",
+    defaultVersion: "1",
+    versions: [
+      {
+        version: "1",
+        variables: ["roomLines"],
+        metadata: {
+          description: "Section of the system prompt with the exact rooms of a CAD drawing",
+          createdAt: "2026-10-19",
+        },
+        template: `
+            The plan was read from a CAD drawing, so its rooms, areas, doors and windows are exact:
+            {{roomLines}}
+                      
+            Return exactly these rooms in "rooms", with the same ids and labels, and pick the type of each.
+            Base sizes, areas and which rooms connect on these facts instead of estimating them from the image.
+            `,
+      },
+    ],
+  },
+  {
+    id: "analysis-tile",
+    defaultVersion: "1",
+    versions: [
+      {
+        version: "1",
+        variables: ["left", "right", "top", "bottom", "unitInstructions"],
+        metadata: {
+          description: "Collects the findings of one tile of a high-fidelity analysis",
+          createdAt: "2026-10-19",
+        },
+        template: `
+            You are an expert in analyzing floor plans, architectural drawings, and interior layouts.
+                      
+            The image is a zoomed-in SECTION of a larger floor plan. It covers
+            {{left}}-{{right}}% of the plan width and {{top}}-{{bottom}}% of its height.
+            Rooms may be cut off at the edges.
+                      
+            Read the small labels, dimensions and symbols in this section and report
+            issues that are visible here. Do not guess about parts outside the section.
+            {{unitInstructions}}
+                      
+            RETURN JSON ONLY IN THIS FORMAT:
+                      
+            {
+              "recommendations": [
+                {
+                  "area": "string (room name exactly as labeled on the plan)",
+                  "issue": "string",
+                  "suggestion": "string",
+                  "priority": "low | medium | high"
+                }
+              ]
+            }
+                      
+            Return an empty list if nothing in this section needs attention.
+            Always return VALID JSON and NOTHING ELSE.
+            `,
+      },
+    ],
+  },
+  {
+    id: "analysis-scale",
+    defaultVersion: "1",
+    versions: [
+      {
+        version: "1",
+        variables: [],
+        metadata: {
+          description: "Finds a scale bar or dimension string to measure the plan",
+          createdAt: "2026-10-19",
+        },
+        template: `
+            You are an expert in reading architectural drawings.
+                      
+            Find ONE reference on the floor plan that gives its real-world scale:
+            - a scale bar (e.g. a bar labeled "0 1 2 5 m"), or
+            - a dimension string with its dimension line (e.g. 4.20 or 13'6" along a wall)
+                      
+            Prefer a scale bar, then the longest clearly readable dimension.
+            Do NOT use a ratio like "1:100" alone, the print size is unknown.
+                      
+            RETURN JSON ONLY IN THIS FORMAT:
+                      
+            {
+              "scaleReference": {
+                "source": "scale_bar | dimension_text",
+                "label": "string (the text as written on the plan)",
+                "start": { "x": number, "y": number },
+                "end": { "x": number, "y": number },
+                "lengthMeters": number (the real length between start and end, converted to meters)
+              }
+            }
+                      
+            "start" and "end" are the ends of the bar or dimension line, as fractions
+            of the image size (0-1), measured from the top left corner.
+            If the plan has no readable scale, return { "scaleReference": null }.
+            Always return VALID JSON and NOTHING ELSE.
+            `,
+      },
+    ],
+  },
+];
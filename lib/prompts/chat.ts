@@ -0,0 +1,107 @@
+import { PromptDefinition } from "@/types/prompt";
+
+/**
+ * Prompts of the floor plan chat
+ *
+ * Every system prompt ends with the shared answering instructions,
+ * rendered from `chat-instructions` by `AiChatService`.
+ */
+export const CHAT_PROMPTS: PromptDefinition[] = [
+  {
+    id: "chat-plan",
+    defaultVersion: "1",
+    versions: [
+      {
+        version: "1",
+        variables: ["analysis", "instructions"],
+        metadata: {
+          description: "Answers questions about a single floor plan",
+          createdAt: "2026-10-19",
+        },
+        template: `You are an expert in analyzing floor plans, analyzing the following plan:
+
+    Floor plan analysis:
+    {{analysis}}
+
+    {{instructions}}`,
+      },
+    ],
+  },
+  {
+    id: "chat-property",
+    defaultVersion: "1",
+    versions: [
+      {
+        version: "1",
+        variables: ["floorCount", "activeFloor", "floorAnalyses", "summary", "instructions"],
+        metadata: {
+          description: "Answers questions about a property with several floors",
+          createdAt: "2026-10-19",
+        },
+        template: `You are an expert in analyzing floor plans, analyzing a property with {{floorCount}} floors.
+    The user is currently looking at the {{activeFloor}}.
+
+    {{floorAnalyses}}
+
+    Property-level analysis (floor summaries from the lowest floor, and findings about
+    stairs, bathrooms per floor and the split of living areas and bedrooms):
+    {{summary}}
+
+    {{instructions}}`,
+      },
+    ],
+  },
+  {
+    id: "chat-comparison",
+    defaultVersion: "1",
+    versions: [
+      {
+        version: "1",
+        variables: ["before", "after", "diff", "instructions"],
+        metadata: {
+          description: "Answers questions comparing an existing layout with a proposed renovation",
+          createdAt: "2026-10-19",
+        },
+        template: `You are an expert in analyzing floor plans, comparing an existing layout ("before")
+    with a proposed renovation ("after").
+
+    Before analysis:
+    {{before}}
+
+    After analysis:
+    {{after}}
+
+    Comparison (score deltas are after minus before, positive is better; findings are
+    resolved when only the before plan has them and new when only the after plan has them):
+    {{diff}}
+
+    {{instructions}}`,
+      },
+    ],
+  },
+  {
+    id: "chat-instructions",
+    defaultVersion: "1",
+    versions: [
+      {
+        version: "1",
+        variables: ["extraPoints", "unitInstructions"],
+        metadata: {
+          description: "Answering instructions shared by single plans, properties and comparisons",
+          createdAt: "2026-10-19",
+        },
+        template: `Answer the user's questions ONLY in the context of this plan and the provided analysis.
+    If the question is not related to the plan or analysis, politely redirect the conversation back to the plan topic.
+    
+    Use specific data from the analysis in your answers:
+    - Refer to specific assessments (lighting, space, etc.)
+    - Mention specific recommendations for rooms
+    - Give practical advice based on the analysis
+    - Use the room dimensions (meters) and areas (square meters) when they are given;
+      if the rooms have no dimensions, the plan scale is unknown, so do not guess sizes
+    {{extraPoints}}
+    {{unitInstructions}}`,
+      },
+    ],
+  },
+];
@@ -0,0 +1,233 @@
+import { createHash } from "crypto";
+import { PromptDefinition, PromptVersion, RenderedPrompt } from "@/types/prompt";
+import { ANALYZER_PROMPTS } from "./analyzer";
+import { CHAT_PROMPTS } from "./chat";
+
+/**
+ * Placeholder of a variable in a template, e.g. `{{unitInstructions}}`
+ */
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Registered prompts by id
+ */
+const PROMPTS = new Map<string, PromptDefinition>();
+
+/**
+ * Options for rendering a prompt
+ *
+ * @interface RenderOptions
+ * @property {string} [key] - Assigns the variant, the same key always gets the same version
+ * @property {string} [version] - Renders this version instead of picking one
+ */
+interface RenderOptions {
+  key?: string;
+  version?: string;
+}
+
+/**
+ * Returns the names of the variables used in a template
+ *
+ * @param {string} template - The template
+ * @returns {Set<string>} The variable names
+ */
+const getPlaceholders = (template: string): Set<string> =>
+  new Set(Array.from(template.matchAll(PLACEHOLDER), match => match[1]));
+
+/**
+ * Adds a prompt to the registry, replacing any prompt with the same id
+ *
+ * Every version must use exactly the variables it declares, and the default
+ * version and the variants must be versions of the prompt.
+ *
+ * @param {PromptDefinition} prompt - The prompt to register
+ * @throws {Error} If the prompt is inconsistent
+ */
+export const registerPrompt = (prompt: PromptDefinition) => {
+  for (const { version, template, variables } of prompt.versions) {
+    const used = getPlaceholders(template);
+    const unused = variables.filter(name => !used.has(name));
+    const undeclared = Array.from(used).filter(name => !variables.includes(name));
+
+    if (unused.length > 0 || undeclared.length > 0) {
+      throw new Error(
+        `Prompt ${prompt.id}@${version} does not match its variables` +
+        ` (unused: ${unused.join(", ") || "none"}, undeclared: ${undeclared.join(", ") || "none"})`
+      );
+    }
+  }
+
+  validateVariants(prompt.id, prompt.versions, prompt.defaultVersion, prompt.variants ?? {});
+  PROMPTS.set(prompt.id, prompt);
+};
+
+/**
+ * Returns a registered prompt
+ *
+ * @param {string} id - The id of the prompt
+ * @returns {PromptDefinition | undefined} The prompt or undefined if it is not registered
+ */
+export const getPrompt = (id: string): PromptDefinition | undefined => PROMPTS.get(id);
+
+/**
+ * Returns all registered prompts
+ *
+ * @returns {PromptDefinition[]} The registered prompts
+ */
+export const listPrompts = (): PromptDefinition[] => Array.from(PROMPTS.values());
+
+/**
+ * Returns the share of requests each version of a prompt gets, in percent
+ *
+ * The variants of the registry can be replaced with `PROMPT_VARIANTS`, a
+ * comma-separated list of `<prompt id>@<version>:<percent>` entries,
+ * e.g. `analysis-system@2:20`. A prompt listed there only gets the variants
+ * listed there. The default version gets the rest.
+ *
+ * @param {PromptDefinition} prompt - The prompt
+ * @returns {Record<string, number>} The percentage of each variant version
+ * @throws {Error} If `PROMPT_VARIANTS` is malformed or names unknown versions
+ */
+export const getPromptVariants = (prompt: PromptDefinition): Record<string, number> => {
+  const entries = (process.env.PROMPT_VARIANTS ?? "")
+    .split(",")
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const match = entry.match(/^([\w.-]+)@([\w.-]+):(\d+(?:\.\d+)?)$/);
+      if (!match) {
+        throw new Error(`Invalid PROMPT_VARIANTS entry "${entry}". Expected <prompt id>@<version>:<percent>`);
+      }
+      return { id: match[1], version: match[2], percent: Number(match[3]) };
+    })
+    .filter(entry => entry.id === prompt.id);
+
+  if (entries.length === 0) return prompt.variants ?? {};
+
+  const variants = Object.fromEntries(entries.map(({ version, percent }) => [version, percent]));
+  validateVariants(prompt.id, prompt.versions, prompt.defaultVersion, variants);
+  return variants;
+};
+
+/**
+ * Picks the version of a prompt for a request
+ *
+ * With a key the pick is stable: the key is hashed into one of 100 buckets,
+ * so the same image or plan always gets the same version and its results
+ * can be compared. Without a key every request draws anew.
+ *
+ * @param {string} id - The id of the prompt
+ * @param {string} [key] - The key assigning the variant
+ * @returns {PromptVersion} The picked version
+ * @throws {Error} If the prompt is not registered
+ */
+export const selectPromptVersion = (id: string, key?: string): PromptVersion => {
+  const prompt = requirePrompt(id);
+  const bucket = key === undefined
+    ? Math.random() * 100
+    : parseInt(createHash("sha256").update(`${id}\0${key}`).digest("hex").slice(0, 8), 16) % 100;
+
+  let threshold = 0;
+  for (const [version, percent] of Object.entries(getPromptVariants(prompt))) {
+    threshold += percent;
+    if (bucket < threshold) return findVersion(prompt, version);
+  }
+
+  return findVersion(prompt, prompt.defaultVersion);
+};
+
+/**
+ * Renders a prompt with its variables
+ *
+ * @param {string} id - The id of the prompt
+ * @param {Record<string, string>} variables - The value of every variable of the version
+ * @param {RenderOptions} [options] - The variant key, or the version to render
+ * @returns {RenderedPrompt} The text and the version it was rendered from
+ * @throws {Error} If the prompt or version is not registered or a variable is missing
+ *
+ * @example
+ * ```typescript
+ * const { text, usage } = renderPrompt("analysis-tile", variables, { key: imageHash });
+ * console.log(`${usage.id}@${usage.version}`);
+ * ```
+ */
+export const renderPrompt = (
+  id: string,
+  variables: Record<string, string>,
+  options: RenderOptions = {}
+): RenderedPrompt => {
+  const prompt = requirePrompt(id);
+  const version = options.version !== undefined
+    ? findVersion(prompt, options.version)
+    : selectPromptVersion(id, options.key);
+
+  const missing = version.variables.filter(name => variables[name] === undefined);
+  if (missing.length > 0) {
+    throw new Error(`Missing variables for prompt ${id}@${version.version}: ${missing.join(", ")}`);
+  }
+
+  return {
+    text: version.template.replace(PLACEHOLDER, (_, name: string) => variables[name]),
+    usage: { id, version: version.version },
+  };
+};
+
+/**
+ * Returns a registered prompt or throws
+ *
+ * @param {string} id - The id of the prompt
+ * @returns {PromptDefinition} The prompt
+ * @throws {Error} If the prompt is not registered
+ */
+const requirePrompt = (id: string): PromptDefinition => {
+  const prompt = PROMPTS.get(id);
+  if (!prompt) {
+    throw new Error(`Unknown prompt "${id}". Expected one of: ${Array.from(PROMPTS.keys()).join(", ")}`);
+  }
+  return prompt;
+};
+
+/**
+ * Returns a version of a prompt or throws
+ *
+ * @param {PromptDefinition} prompt - The prompt
+ * @param {string} version - The version
+ * @returns {PromptVersion} The version
+ * @throws {Error} If the prompt has no such version
+ */
+const findVersion = (prompt: PromptDefinition, version: string): PromptVersion => {
+  const found = prompt.versions.find(candidate => candidate.version === version);
+  if (!found) {
+    throw new Error(`Prompt ${prompt.id} has no version "${version}"`);
+  }
+  return found;
+};
+
+/**
+ * Checks the default version and the variants of a prompt
+ *
+ * @param {string} id - The id of the prompt
+ * @param {PromptVersion[]} versions - The versions of the prompt
+ * @param {string} defaultVersion - The version used outside the variants
+ * @param {Record<string, number>} variants - The percentage of each variant version
+ * @throws {Error} If a version is unknown or the percentages exceed 100
+ */
+const validateVariants = (
+  id: string,
+  versions: PromptVersion[],
+  defaultVersion: string,
+  variants: Record<string, number>
+) => {
+  const known = new Set(versions.map(({ version }) => version));
+  const unknown = [defaultVersion, ...Object.keys(variants)].filter(version => !known.has(version));
+  if (unknown.length > 0) {
+    throw new Error(`Prompt ${id} has no version ${unknown.map(version => `"${version}"`).join(", ")}`);
+  }
+
+  const total = Object.values(variants).reduce((sum, percent) => sum + percent, 0);
+  if (total > 100) {
+    throw new Error(`The variants of prompt ${id} add up to ${total}%, at most 100% is possible`);
+  }
+};
+
+[...ANALYZER_PROMPTS, ...CHAT_PROMPTS].forEach(registerPrompt);
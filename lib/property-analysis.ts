@@ -0,0 +1,179 @@
+import { FloorPlanAnalysis, RoomType } from "@/types/floor-analysis";
+import { FloorSummary, PlanRevision, PropertyAnalysis, PropertyFinding, PropertyFloor } from "@/types/property";
+import { totalArea } from "@/lib/measurements";
+
+/**
+ * Room types counted as living areas (the "day" part of a home)
+ */
+const LIVING_TYPES: RoomType[] = ["living", "kitchen", "dining"];
+
+/**
+ * Distance between stair centers (fraction of the image) above which
+ * the stairs of two floors are reported as not lining up
+ */
+const STAIRS_OFFSET_THRESHOLD = 0.15;
+
+/**
+ * Floor fields used by the property-level pass, with the analysis of the revision in use
+ */
+type FloorInput = Pick<PropertyFloor, "id" | "label" | "order"> & { analysis: FloorPlanAnalysis };
+
+/**
+ * Returns the revision of a floor that is in use
+ *
+ * @param {PropertyFloor} floor - The floor
+ * @returns {PlanRevision} The active revision, or the latest one if it is missing
+ */
+export const getActiveRevision = (floor: PropertyFloor): PlanRevision =>
+  floor.revisions.find(revision => revision.number === floor.activeRevision)
+    ?? floor.revisions[floor.revisions.length - 1];
+
+/**
+ * Counts the rooms of one floor and finds its staircase
+ *
+ * @param {FloorInput} floor - The analyzed floor
+ * @returns {FloorSummary} The summary of the floor
+ */
+export const summarizeFloor = ({ id, label, order, analysis }: FloorInput): FloorSummary => {
+  const count = (types: RoomType[]) => analysis.rooms.filter(room => types.includes(room.type)).length;
+
+  return {
+    floorId: id,
+    label,
+    order,
+    bedrooms: count(["bedroom"]),
+    bathrooms: count(["bathroom"]),
+    livingRooms: count(LIVING_TYPES),
+    stairs: analysis.rooms.find(room => room.type === "stairs")?.bounds ?? null,
+    area: totalArea(analysis.rooms),
+  };
+};
+
+/**
+ * Checks the stairs of each floor and between neighbouring floors
+ *
+ * @param {FloorSummary[]} floors - The floors, from the lowest
+ * @returns {PropertyFinding[]} The findings about vertical circulation
+ */
+const checkStairs = (floors: FloorSummary[]): PropertyFinding[] => {
+  const findings: PropertyFinding[] = [];
+
+  for (const floor of floors) {
+    if (!floor.stairs) {
+      findings.push({
+        floorIds: [floor.floorId],
+        issue: `No staircase was found on the ${floor.label}`,
+        suggestion: "Check that the plan shows the stairs, without them this floor is not connected to the others",
+        priority: "high",
+      });
+    }
+  }
+
+  floors.slice(1).forEach((upper, index) => {
+    const lower = floors[index];
+    if (!lower.stairs || !upper.stairs) return;
+
+    const center = ({ x, y, width, height }: NonNullable<FloorSummary["stairs"]>) =>
+      ({ x: x + width / 2, y: y + height / 2 });
+    const a = center(lower.stairs);
+    const b = center(upper.stairs);
+
+    if (Math.hypot(a.x - b.x, a.y - b.y) > STAIRS_OFFSET_THRESHOLD) {
+      findings.push({
+        floorIds: [lower.floorId, upper.floorId],
+        issue: `The staircase is in a different place on the ${lower.label} and the ${upper.label}`,
+        suggestion: "Make sure the stairs line up between the floors. If the plans are cropped differently, this can be ignored",
+        priority: "medium",
+      });
+    }
+  });
+
+  return findings;
+};
+
+/**
+ * Checks the bathrooms of each floor
+ *
+ * @param {FloorSummary[]} floors - The floors, from the lowest
+ * @returns {PropertyFinding[]} The findings about bathrooms
+ */
+const checkBathrooms = (floors: FloorSummary[]): PropertyFinding[] =>
+  floors.flatMap((floor, index): PropertyFinding[] => {
+    if (floor.bathrooms > 0) return [];
+
+    if (floor.bedrooms > 0) {
+      return [{
+        floorIds: [floor.floorId],
+        issue: `The ${floor.label} has ${floor.bedrooms} bedroom${floor.bedrooms > 1 ? "s" : ""} but no bathroom`,
+        suggestion: "Add a bathroom or shower room on this floor, so the stairs are not needed at night",
+        priority: "medium",
+      }];
+    }
+
+    // The entrance floor with living areas should have at least a WC
+    if (index === 0 && floor.livingRooms > 0) {
+      return [{
+        floorIds: [floor.floorId],
+        issue: `There is no WC on the ${floor.label} with the living areas`,
+        suggestion: "Add a guest WC close to the living areas",
+        priority: "low",
+      }];
+    }
+
+    return [];
+  });
+
+/**
+ * Checks that living areas and bedrooms are split between the floors
+ *
+ * @param {FloorSummary[]} floors - The floors, from the lowest
+ * @returns {PropertyFinding[]} The findings about the day/night split
+ */
+const checkLivingSplit = (floors: FloorSummary[]): PropertyFinding[] => {
+  const [entrance, ...upper] = floors;
+  const upperLiving = upper.filter(floor => floor.livingRooms > 0);
+
+  if (entrance.livingRooms > 0 || upperLiving.length === 0) return [];
+
+  return [{
+    floorIds: [entrance.floorId, ...upperLiving.map(floor => floor.floorId)],
+    issue: `The living areas are not on the ${entrance.label}`,
+    suggestion: "Consider the kitchen and living room on the entrance floor and the bedrooms above, for a clear day and night split",
+    priority: "low",
+  }];
+};
+
+/**
+ * Runs the property-level pass over all floors
+ *
+ * Looks at what a single floor analysis cannot see: whether the floors
+ * are connected by stairs that line up, whether every sleeping floor has
+ * a bathroom and how living areas and bedrooms are split between floors.
+ * Floor-to-floor checks need at least two floors.
+ *
+ * @param {FloorInput[]} floors - The analyzed floors in any order
+ * @returns {PropertyAnalysis} The floor summaries (lowest first) and the findings
+ *
+ * @example
+ * ```typescript
+ * const { floors, findings } = analyzeProperty(property.floors);
+ * ```
+ */
+export const analyzeProperty = (floors: FloorInput[]): PropertyAnalysis => {
+  const summaries = [...floors]
+    .sort((a, b) => a.order - b.order)
+    .map(summarizeFloor);
+
+  if (summaries.length < 2) {
+    return { floors: summaries, findings: checkBathrooms(summaries) };
+  }
+
+  return {
+    floors: summaries,
+    findings: [
+      ...checkStairs(summaries),
+      ...checkBathrooms(summaries),
+      ...checkLivingSplit(summaries),
+    ],
+  };
+};
@@ -0,0 +1,117 @@
+import { Priority, Recommendation } from "@/types/floor-analysis";
+
+/**
+ * Jaccard similarity above which two issues are treated as the same finding
+ */
+export const SIMILARITY_THRESHOLD = 0.5;
+
+/**
+ * Rank of each priority, higher wins when duplicates are merged
+ */
+const PRIORITY_RANK: Record<Priority, number> = { low: 0, medium: 1, high: 2 };
+
+/**
+ * Splits text into a set of lowercase words, ignoring very short words
+ *
+ * @param {string} text - The text to split
+ * @returns {Set<string>} The words of the text
+ */
+const toWords = (text: string): Set<string> =>
+  new Set(
+    text
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter(word => word.length > 2)
+  );
+
+/**
+ * Calculates the Jaccard similarity of two texts
+ *
+ * @param {string} a - The first text
+ * @param {string} b - The second text
+ * @returns {number} The similarity from 0 (no shared words) to 1 (same words)
+ */
+export const textSimilarity = (a: string, b: string): number => {
+  const wordsA = toWords(a);
+  const wordsB = toWords(b);
+  if (wordsA.size === 0 && wordsB.size === 0) return 1;
+
+  let shared = 0;
+  wordsA.forEach(word => {
+    if (wordsB.has(word)) shared++;
+  });
+
+  return shared / (wordsA.size + wordsB.size - shared);
+};
+
+/**
+ * Checks whether two recommendations describe the same finding
+ *
+ * They must refer to the same place (a shared room id, or the same area
+ * name when room ids are missing) and have similar issue texts.
+ *
+ * @param {Recommendation} a - The first recommendation
+ * @param {Recommendation} b - The second recommendation
+ * @returns {boolean} True, if the recommendations are duplicates
+ */
+export const isSameRecommendation = (a: Recommendation, b: Recommendation): boolean => {
+  const samePlace = a.roomIds.length > 0 && b.roomIds.length > 0
+    ? a.roomIds.some(id => b.roomIds.includes(id))
+    : a.area.trim().toLowerCase() === b.area.trim().toLowerCase();
+
+  return samePlace && textSimilarity(a.issue, b.issue) >= SIMILARITY_THRESHOLD;
+};
+
+/**
+ * Groups recommendations that describe the same finding
+ *
+ * @param {Recommendation[]} recommendations - The recommendations to group
+ * @returns {Recommendation[][]} The groups, in order of their first appearance
+ */
+export const groupRecommendations = (recommendations: Recommendation[]): Recommendation[][] => {
+  const groups: Recommendation[][] = [];
+
+  for (const recommendation of recommendations) {
+    const group = groups.find(items => isSameRecommendation(items[0], recommendation));
+    if (group) {
+      group.push(recommendation);
+    } else {
+      groups.push([recommendation]);
+    }
+  }
+
+  return groups;
+};
+
+/**
+ * Merges a group of duplicate recommendations into one
+ *
+ * Keeps the highest priority and the longest (usually most specific)
+ * issue and suggestion, and the union of the room ids.
+ *
+ * @param {Recommendation[]} group - The duplicate recommendations
+ * @returns {Recommendation} The merged recommendation
+ */
+export const mergeRecommendationGroup = (group: Recommendation[]): Recommendation => {
+  const longest = (texts: string[]) => texts.reduce((a, b) => (b.length > a.length ? b : a));
+
+  return {
+    area: group[0].area,
+    roomIds: Array.from(new Set(group.flatMap(item => item.roomIds))),
+    issue: longest(group.map(item => item.issue)),
+    suggestion: longest(group.map(item => item.suggestion)),
+    priority: group.reduce(
+      (max, item) => (PRIORITY_RANK[item.priority] > PRIORITY_RANK[max] ? item.priority : max),
+      group[0].priority
+    ),
+  };
+};
+
+/**
+ * Removes duplicate recommendations
+ *
+ * @param {Recommendation[]} recommendations - The recommendations to deduplicate
+ * @returns {Recommendation[]} One merged recommendation per finding
+ */
+export const dedupeRecommendations = (recommendations: Recommendation[]): Recommendation[] =>
+  groupRecommendations(recommendations).map(mergeRecommendationGroup);
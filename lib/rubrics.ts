@@ -0,0 +1,136 @@
+import { Rubric, RubricDimension } from "@/types/rubric";
+
+/**
+ * Score dimensions available to the rubrics
+ *
+ * `prompt` is inserted into the analyzer prompt to tell the model
+ * what to look at when scoring the dimension
+ */
+const DIMENSIONS: Record<string, RubricDimension> = {
+  lighting: {
+    id: "lighting",
+    label: "Lighting",
+    description: "Natural light from windows and how evenly it reaches the rooms",
+    prompt: "Window count, size and orientation, and how far living areas are from a window.",
+  },
+  space: {
+    id: "space",
+    label: "Space",
+    description: "How well the floor area is used",
+    prompt: "Room proportions, wasted or awkward areas, and whether room sizes fit their purpose.",
+  },
+  flow: {
+    id: "flow",
+    label: "Flow",
+    description: "Circulation between rooms",
+    prompt: "Paths between entrance, kitchen, living and sleeping areas, dead ends and rooms used as corridors.",
+  },
+  accessibility: {
+    id: "accessibility",
+    label: "Accessibility",
+    description: "Use by people with reduced mobility",
+    prompt: "Corridor and door widths, steps, turning space in bathrooms and a step-free route to a bedroom.",
+  },
+  storage: {
+    id: "storage",
+    label: "Storage",
+    description: "Built-in and dedicated storage space",
+    prompt: "Closets, pantry, utility and storage rooms, and whether bedrooms have wardrobe space.",
+  },
+  privacy: {
+    id: "privacy",
+    label: "Privacy",
+    description: "Separation of private and shared areas",
+    prompt: "Whether bedrooms and bathrooms open onto living areas, and sight lines from the entrance.",
+  },
+  ventilation: {
+    id: "ventilation",
+    label: "Ventilation",
+    description: "Potential for natural airflow",
+    prompt: "Cross-ventilation through opposite windows, and openable windows or extraction in kitchens and bathrooms.",
+  },
+  acoustics: {
+    id: "acoustics",
+    label: "Acoustic separation",
+    description: "Noise separation between rooms",
+    prompt: "Buffers such as closets or corridors between bedrooms and living areas, and shared walls with noisy rooms.",
+  },
+};
+
+/**
+ * Registered rubrics by id
+ */
+const RUBRICS = new Map<string, Rubric>();
+
+/**
+ * Id of the rubric used when none is configured
+ */
+export const DEFAULT_RUBRIC_ID = "standard";
+
+/**
+ * Adds a rubric to the registry, replacing any rubric with the same id
+ *
+ * @param {Rubric} rubric - The rubric to register
+ */
+export const registerRubric = (rubric: Rubric) => {
+  RUBRICS.set(rubric.id, rubric);
+};
+
+/**
+ * Returns a registered rubric
+ *
+ * @param {string} id - The id of the rubric
+ * @returns {Rubric | undefined} The rubric or undefined if it is not registered
+ */
+export const getRubric = (id: string): Rubric | undefined => RUBRICS.get(id);
+
+/**
+ * Returns all registered rubrics
+ *
+ * @returns {Rubric[]} The registered rubrics
+ */
+export const listRubrics = (): Rubric[] => Array.from(RUBRICS.values());
+
+/**
+ * Returns the rubric configured for the analyzer
+ *
+ * Reads `ANALYSIS_RUBRIC` on the server and falls back to the default rubric.
+ *
+ * @returns {Rubric} The active rubric
+ * @throws {Error} If the configured rubric is not registered
+ */
+export const getActiveRubric = (): Rubric => {
+  const id = process.env.ANALYSIS_RUBRIC || DEFAULT_RUBRIC_ID;
+  const rubric = getRubric(id);
+
+  if (!rubric) {
+    throw new Error(`Unknown ANALYSIS_RUBRIC "${id}". Expected one of: ${Array.from(RUBRICS.keys()).join(", ")}`);
+  }
+
+  return rubric;
+};
+
+registerRubric({
+  id: "standard",
+  label: "Standard",
+  dimensions: [DIMENSIONS.lighting, DIMENSIONS.space, DIMENSIONS.flow, DIMENSIONS.accessibility],
+});
+
+registerRubric({
+  id: "residential",
+  label: "Residential",
+  dimensions: [
+    DIMENSIONS.lighting,
+    DIMENSIONS.space,
+    DIMENSIONS.flow,
+    DIMENSIONS.accessibility,
+    DIMENSIONS.storage,
+    DIMENSIONS.privacy,
+  ],
+});
+
+registerRubric({
+  id: "comprehensive",
+  label: "Comprehensive",
+  dimensions: Object.values(DIMENSIONS),
+});
@@ -0,0 +1,443 @@
+import { Drawing, DrawingEntity, DrawingPoint } from "@/types/vector-plan";
+
+/**
+ * Affine transform [a, b, c, d, e, f], as in the SVG `matrix()` function
+ */
+type Matrix = [number, number, number, number, number, number];
+
+/**
+ * An open element with the context its children inherit
+ */
+type Frame = {
+  layer: string;
+  matrix: Matrix;
+  hidden: boolean;
+};
+
+/**
+ * Text element waiting for its closing tag
+ */
+type PendingText = {
+  layer: string;
+  position: DrawingPoint;
+  content: string;
+};
+
+/**
+ * A run of connected points of a shape
+ */
+type Subpath = {
+  points: DrawingPoint[];
+  closed: boolean;
+};
+
+/**
+ * Meters per unit of the absolute length units of SVG sizes
+ */
+const UNITS: Record<string, number> = {
+  mm: 0.001,
+  cm: 0.01,
+  in: 0.0254,
+  pt: 0.0254 / 72,
+  pc: 0.0254 / 6,
+};
+
+/**
+ * Elements whose content is not drawn where it is defined
+ */
+const HIDDEN_ELEMENTS = ["defs", "symbol", "clipPath", "mask", "pattern", "marker", "style", "script", "title", "desc", "metadata"];
+
+/**
+ * Number of straight pieces of a flattened curve or circle quadrant
+ */
+const CURVE_STEPS = 8;
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+/**
+ * Multiplies two transforms, `right` is applied first
+ *
+ * @param {Matrix} left - The outer transform
+ * @param {Matrix} right - The inner transform
+ * @returns {Matrix} The combined transform
+ */
+const multiply = (left: Matrix, right: Matrix): Matrix => {
+  const [a1, b1, c1, d1, e1, f1] = left;
+  const [a2, b2, c2, d2, e2, f2] = right;
+  return [
+    a1 * a2 + c1 * b2,
+    b1 * a2 + d1 * b2,
+    a1 * c2 + c1 * d2,
+    b1 * c2 + d1 * d2,
+    a1 * e2 + c1 * f2 + e1,
+    b1 * e2 + d1 * f2 + f1,
+  ];
+};
+
+/**
+ * Reads the numbers of an attribute (points, viewBox, transform arguments)
+ *
+ * @param {string | undefined} value - The attribute value
+ * @returns {number[]} The numbers
+ */
+const numbers = (value: string | undefined): number[] =>
+  (value?.match(/[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/g) ?? []).map(Number);
+
+/**
+ * Parses a `transform` attribute
+ *
+ * @param {string | undefined} value - The attribute value
+ * @returns {Matrix} The transform
+ */
+const parseTransform = (value: string | undefined): Matrix => {
+  let matrix = IDENTITY;
+
+  for (const [, name, args] of value?.matchAll(/(\w+)\s*\(([^)]*)\)/g) ?? []) {
+    const [p0 = 0, p1, p2 = 0, p3 = 0, p4 = 0, p5 = 0] = numbers(args);
+    const radians = (p0 * Math.PI) / 180;
+    let next: Matrix = IDENTITY;
+
+    switch (name) {
+      case "matrix":
+        next = [p0, p1 ?? 0, p2, p3, p4, p5];
+        break;
+      case "translate":
+        next = [1, 0, 0, 1, p0, p1 ?? 0];
+        break;
+      case "scale":
+        next = [p0, 0, 0, p1 ?? p0, 0, 0];
+        break;
+      case "rotate": {
+        const cos = Math.cos(radians);
+        const sin = Math.sin(radians);
+        const [cx, cy] = [p1 ?? 0, p2];
+        next = multiply(multiply([1, 0, 0, 1, cx, cy], [cos, sin, -sin, cos, 0, 0]), [1, 0, 0, 1, -cx, -cy]);
+        break;
+      }
+      case "skewX":
+        next = [1, 0, Math.tan(radians), 1, 0, 0];
+        break;
+      case "skewY":
+        next = [1, Math.tan(radians), 0, 1, 0, 0];
+        break;
+    }
+
+    matrix = multiply(matrix, next);
+  }
+
+  return matrix;
+};
+
+/**
+ * Reads the attributes of a start tag
+ *
+ * @param {string} source - The tag content after the element name
+ * @returns {Record<string, string>} The attributes by name
+ */
+const parseAttributes = (source: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  for (const [, name, double, single] of source.matchAll(/([^\s=/]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[name] = decodeEntities(double ?? single);
+  }
+  return attributes;
+};
+
+/**
+ * Decodes the XML character references of a text
+ *
+ * @param {string} value - The raw text
+ * @returns {string} The decoded text
+ */
+const decodeEntities = (value: string): string =>
+  value
+    .replace(/&#x([0-9a-fA-F]+);/g, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, "\"")
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+
+/**
+ * Samples a quadratic or cubic Bézier curve, without its start point
+ *
+ * @param {DrawingPoint[]} controls - The start, control and end points
+ * @returns {DrawingPoint[]} The points along the curve
+ */
+const flattenBezier = (controls: DrawingPoint[]): DrawingPoint[] =>
+  Array.from({ length: CURVE_STEPS }, (_, step) => {
+    let points = controls;
+    const t = (step + 1) / CURVE_STEPS;
+    // De Casteljau: interpolate between neighbours until one point is left
+    while (points.length > 1) {
+      points = points.slice(1).map((point, index) => ({
+        x: points[index].x + (point.x - points[index].x) * t,
+        y: points[index].y + (point.y - points[index].y) * t,
+      }));
+    }
+    return points[0];
+  });
+
+/**
+ * Converts path data to subpaths of points
+ *
+ * Curves are sampled, elliptical arcs are replaced by their chord
+ * (door swings only need their extent).
+ *
+ * @param {string} data - The `d` attribute
+ * @returns {Subpath[]} The subpaths
+ */
+const parsePathData = (data: string): Subpath[] => {
+  const subpaths: Subpath[] = [];
+  let current = { x: 0, y: 0 };
+  let start = current;
+  let lastControl: DrawingPoint | null = null;
+  // Cast, so the assignments in lineTo are not narrowed away
+  let subpath = null as Subpath | null;
+
+  const lineTo = (point: DrawingPoint) => {
+    if (!subpath) {
+      subpath = { points: [current], closed: false };
+      subpaths.push(subpath);
+    }
+    subpath.points.push(point);
+    current = point;
+  };
+
+  for (const [, command, args] of data.matchAll(/([MmLlHhVvCcSsQqTtAaZz])([^MmLlHhVvCcSsQqTtAaZz]*)/g)) {
+    const values = numbers(args);
+    const relative = command === command.toLowerCase();
+    const at = (x: number, y: number) => relative ? { x: current.x + x, y: current.y + y } : { x, y };
+    const type = command.toUpperCase();
+    let control: DrawingPoint | null = null;
+
+    switch (type) {
+      case "M":
+        for (let index = 0; index + 1 < values.length; index += 2) {
+          const point = at(values[index], values[index + 1]);
+          // Pairs after the first are implicit line commands
+          if (index === 0) {
+            current = point;
+            start = point;
+            subpath = null;
+          } else {
+            lineTo(point);
+          }
+        }
+        break;
+      case "L":
+        for (let index = 0; index + 1 < values.length; index += 2) lineTo(at(values[index], values[index + 1]));
+        break;
+      case "H":
+        for (const x of values) lineTo({ x: relative ? current.x + x : x, y: current.y });
+        break;
+      case "V":
+        for (const y of values) lineTo({ x: current.x, y: relative ? current.y + y : y });
+        break;
+      case "C":
+      case "S":
+      case "Q":
+      case "T": {
+        const size = { C: 6, S: 4, Q: 4, T: 2 }[type];
+        for (let index = 0; index + size <= values.length; index += size) {
+          const pairs: DrawingPoint[] = [];
+          for (let offset = 0; offset < size; offset += 2) pairs.push(at(values[index + offset], values[index + offset + 1]));
+          // S and T start with the reflection of the previous control point
+          const reflected: DrawingPoint = lastControl
+            ? { x: 2 * current.x - lastControl.x, y: 2 * current.y - lastControl.y }
+            : current;
+          const controls: DrawingPoint[] = type === "S" || type === "T" ? [reflected, ...pairs] : pairs;
+          const end = controls[controls.length - 1];
+          control = controls[controls.length - 2];
+          flattenBezier([current, ...controls]).forEach(lineTo);
+          current = end;
+          lastControl = control;
+        }
+        break;
+      }
+      case "A":
+        for (let index = 0; index + 7 <= values.length; index += 7) lineTo(at(values[index + 5], values[index + 6]));
+        break;
+      case "Z":
+        if (subpath) subpath.closed = true;
+        current = start;
+        subpath = null;
+        break;
+    }
+
+    if (!control) lastControl = null;
+  }
+
+  return subpaths.filter(({ points }) => points.length >= 2);
+};
+
+/**
+ * Approximates an ellipse with points
+ *
+ * @param {number} cx - The center x
+ * @param {number} cy - The center y
+ * @param {number} rx - The horizontal radius
+ * @param {number} ry - The vertical radius
+ * @returns {DrawingPoint[]} The points around the ellipse
+ */
+const flattenEllipse = (cx: number, cy: number, rx: number, ry: number): DrawingPoint[] =>
+  Array.from({ length: CURVE_STEPS * 4 }, (_, step) => {
+    const angle = (step / (CURVE_STEPS * 4)) * 2 * Math.PI;
+    return { x: cx + rx * Math.cos(angle), y: cy + ry * Math.sin(angle) };
+  });
+
+/**
+ * Returns the shape of an element in its own coordinates
+ *
+ * @param {string} name - The element name
+ * @param {Record<string, string>} attributes - The element attributes
+ * @returns {Subpath[]} The subpaths of the shape
+ */
+const shapeOf = (name: string, attributes: Record<string, string>): Subpath[] => {
+  const value = (key: string) => numbers(attributes[key])[0] ?? 0;
+
+  switch (name) {
+    case "line":
+      return [{ points: [{ x: value("x1"), y: value("y1") }, { x: value("x2"), y: value("y2") }], closed: false }];
+    case "polyline":
+    case "polygon": {
+      const coordinates = numbers(attributes.points);
+      const points = [];
+      for (let index = 0; index + 1 < coordinates.length; index += 2) {
+        points.push({ x: coordinates[index], y: coordinates[index + 1] });
+      }
+      return points.length >= 2 ? [{ points, closed: name === "polygon" }] : [];
+    }
+    case "rect": {
+      const [x, y, width, height] = [value("x"), value("y"), value("width"), value("height")];
+      if (width <= 0 || height <= 0) return [];
+      return [{
+        points: [{ x, y }, { x: x + width, y }, { x: x + width, y: y + height }, { x, y: y + height }],
+        closed: true,
+      }];
+    }
+    case "circle":
+      return [{ points: flattenEllipse(value("cx"), value("cy"), value("r"), value("r")), closed: true }];
+    case "ellipse":
+      return [{ points: flattenEllipse(value("cx"), value("cy"), value("rx"), value("ry")), closed: true }];
+    case "path":
+      return parsePathData(attributes.d ?? "");
+    default:
+      return [];
+  }
+};
+
+/**
+ * Works out the real size of one user unit from the root element
+ *
+ * Only absolute units count (mm, cm, in, pt, pc), pixels have no real size.
+ *
+ * @param {Record<string, string>} attributes - The attributes of the root `svg` element
+ * @returns {{ metersPerUnit: number | null; unitName: string | null }} The unit
+ */
+const readUnits = (attributes: Record<string, string>): { metersPerUnit: number | null; unitName: string | null } => {
+  const match = attributes.width?.trim().match(/^([\d.]+)\s*(mm|cm|in|pt|pc)$/);
+  const viewBox = numbers(attributes.viewBox);
+  if (!match) return { metersPerUnit: null, unitName: null };
+
+  const width = Number(match[1]);
+  const viewBoxWidth = viewBox.length === 4 ? viewBox[2] : width;
+  if (!width || !viewBoxWidth) return { metersPerUnit: null, unitName: null };
+
+  return { metersPerUnit: (width * UNITS[match[2]]) / viewBoxWidth, unitName: match[2] };
+};
+
+/**
+ * Parses an SVG drawing
+ *
+ * Reads lines, polylines, polygons, rectangles, circles, paths and text.
+ * The layer of an element is made of the ids, classes and labels of the
+ * element and its groups (e.g. `<g id="walls">`). Transforms are applied and
+ * the y axis is flipped to point up, like in CAD drawings. The unit comes from
+ * an absolute `width` (e.g. `width="12000mm"`) with the `viewBox`.
+ *
+ * @param {string} content - The SVG file
+ * @returns {Drawing} The entities with their layer names and the unit
+ *
+ * @throws {Error} If the file has no `svg` element
+ *
+ * @example
+ * ```typescript
+ * const drawing = parseSvg(await file.text());
+ * ```
+ */
+export const parseSvg = (content: string): Drawing => {
+  const source = content
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+    .replace(/<[?!][^>]*>/g, "");
+
+  const entities: DrawingEntity[] = [];
+  const stack: Frame[] = [];
+  let units: { metersPerUnit: number | null; unitName: string | null } | null = null;
+  let pendingText: PendingText | null = null;
+
+  // Points are flipped so the y axis points up
+  const apply = ([a, b, c, d, e, f]: Matrix, { x, y }: DrawingPoint): DrawingPoint => ({
+    x: a * x + c * y + e,
+    y: -(b * x + d * y + f),
+  });
+
+  for (const [token, closing, name, rest, selfClosing] of source.matchAll(/<(\/?)([\w:.-]+)([^>]*?)(\/?)>|[^<]+/g)) {
+    // Text between tags
+    if (!name) {
+      if (pendingText) pendingText.content += decodeEntities(token);
+      continue;
+    }
+
+    const localName = name.replace(/^svg:/, "");
+
+    if (closing) {
+      stack.pop();
+      if (localName === "text" && pendingText) {
+        const text = pendingText.content.replace(/\s+/g, " ").trim();
+        if (text) entities.push({ kind: "text", layer: pendingText.layer, text, position: pendingText.position });
+        pendingText = null;
+      }
+      continue;
+    }
+
+    const attributes = parseAttributes(rest);
+    const parent = stack[stack.length - 1];
+
+    if (!units && localName === "svg") units = readUnits(attributes);
+
+    const names = [attributes.id, attributes.class, attributes["inkscape:label"], attributes["data-layer"], attributes["data-name"]]
+      .filter(Boolean)
+      .join(" ");
+    const frame: Frame = {
+      layer: [parent?.layer, names].filter(Boolean).join(" "),
+      matrix: multiply(parent?.matrix ?? IDENTITY, parseTransform(attributes.transform)),
+      hidden: !!parent?.hidden || HIDDEN_ELEMENTS.includes(localName) || attributes.display === "none",
+    };
+
+    if (!frame.hidden) {
+      if (localName === "text") {
+        const position = { x: numbers(attributes.x)[0] ?? 0, y: numbers(attributes.y)[0] ?? 0 };
+        pendingText = { layer: frame.layer, position: apply(frame.matrix, position), content: "" };
+      } else {
+        for (const { points, closed } of shapeOf(localName, attributes)) {
+          entities.push({
+            kind: "path",
+            layer: frame.layer,
+            points: points.map(point => apply(frame.matrix, point)),
+            closed,
+          });
+        }
+      }
+    }
+
+    if (!selfClosing) stack.push(frame);
+  }
+
+  if (!units) {
+    throw new Error("The file is not an SVG drawing");
+  }
+
+  return { entities, ...units };
+};
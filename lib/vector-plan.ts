@@ -0,0 +1,727 @@
+import { RoomAdjacency } from "@/types/floor-analysis";
+import {
+  Drawing,
+  DrawingLabel,
+  DrawingLayerKind,
+  DrawingOpening,
+  DrawingPoint,
+  DrawingRoom,
+  DrawingSegment,
+  VectorFormat,
+  VectorPlan
+} from "@/types/vector-plan";
+
+/**
+ * Layer name patterns, checked in order (a "door" block on a wall layer is a door)
+ */
+const LAYER_PATTERNS: [DrawingLayerKind, RegExp][] = [
+  ["door", /door|porte|t(ü|ue)r/i],
+  ["window", /window|glaz|fenster|fen(ê|e)tre/i],
+  ["room", /room|space|area|zone|raum/i],
+  ["wall", /wall|mur|wand/i],
+  ["annotation", /dim|anno|grid|furn|equip|fixt|hatch|patt|title|border|frame|text|note/i],
+];
+
+/**
+ * Types used for DXF files, many browsers send none at all and only the name tells
+ */
+const DXF_TYPES = ["image/vnd.dxf", "image/x-dxf", "application/dxf", "application/x-dxf"];
+
+/**
+ * Plausible size of a plan in meters, units giving a size outside of it are
+ * ignored (e.g. an SVG exported at 1:100 has the size of the paper)
+ */
+const MIN_PLAN_SIZE = 2;
+const MAX_PLAN_SIZE = 500;
+
+/**
+ * Largest cross product of two unit directions that still counts as parallel
+ */
+const PARALLEL_TOLERANCE = 0.05;
+
+/**
+ * Most wall segments and door or window pieces a drawing may have,
+ * matching walls, openings and rooms compares them in pairs
+ */
+const MAX_WALLS = 5000;
+const MAX_OPENING_PIECES = 2000;
+
+/**
+ * Distances and areas below which geometry is treated as the same or as noise,
+ * in drawing units
+ *
+ * @property {number} snap - Distance at which two points are the same corner
+ * @property {number} thickness - Thickest wall, rooms closer than this share a wall
+ * @property {number} minArea - Smallest room area
+ * @property {number} minWidth - Narrowest room, thinner spaces are wall interiors
+ * @property {number} minOverlap - Shortest stretch of shared wall
+ */
+type Tolerances = {
+  snap: number;
+  thickness: number;
+  minArea: number;
+  minWidth: number;
+  minOverlap: number;
+};
+
+/**
+ * A closed region of the plan with its measures
+ */
+type Face = {
+  polygon: DrawingPoint[];
+  area: number;
+  perimeter: number;
+  inside: DrawingPoint;
+};
+
+const subtract = (a: DrawingPoint, b: DrawingPoint): DrawingPoint => ({ x: a.x - b.x, y: a.y - b.y });
+const dot = (a: DrawingPoint, b: DrawingPoint): number => a.x * b.x + a.y * b.y;
+const cross = (a: DrawingPoint, b: DrawingPoint): number => a.x * b.y - a.y * b.x;
+const distance = (a: DrawingPoint, b: DrawingPoint): number => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * Returns the unit direction of a segment
+ *
+ * @param {DrawingSegment} segment - The segment
+ * @returns {DrawingPoint} The direction, zero for a point
+ */
+const direction = ({ start, end }: DrawingSegment): DrawingPoint => {
+  const length = distance(start, end);
+  return length === 0 ? { x: 0, y: 0 } : { x: (end.x - start.x) / length, y: (end.y - start.y) / length };
+};
+
+/**
+ * Measures the distance from a point to a segment
+ *
+ * @param {DrawingPoint} point - The point
+ * @param {DrawingSegment} segment - The segment
+ * @returns {number} The shortest distance
+ */
+const distanceToSegment = (point: DrawingPoint, { start, end }: DrawingSegment): number => {
+  const along = subtract(end, start);
+  const lengthSquared = dot(along, along);
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, dot(subtract(point, start), along) / lengthSquared));
+  return distance(point, { x: start.x + along.x * t, y: start.y + along.y * t });
+};
+
+/**
+ * Returns the edges of a polygon
+ *
+ * @param {DrawingPoint[]} polygon - The corners
+ * @returns {DrawingSegment[]} The edges, the last one closes the polygon
+ */
+const edgesOf = (polygon: DrawingPoint[]): DrawingSegment[] =>
+  polygon.map((start, index) => ({ start, end: polygon[(index + 1) % polygon.length] }));
+
+/**
+ * Calculates the signed area of a polygon, positive for counterclockwise corners
+ *
+ * @param {DrawingPoint[]} polygon - The corners
+ * @returns {number} The signed area
+ */
+const signedArea = (polygon: DrawingPoint[]): number =>
+  edgesOf(polygon).reduce((sum, { start, end }) => sum + cross(start, end), 0) / 2;
+
+/**
+ * Calculates the bounding box of points
+ *
+ * @param {DrawingPoint[]} points - The points
+ * @returns {{ min: DrawingPoint; max: DrawingPoint }} The smallest and largest coordinates
+ */
+export const boundsOf = (points: DrawingPoint[]): { min: DrawingPoint; max: DrawingPoint } =>
+  points.reduce(
+    ({ min, max }, { x, y }) => ({
+      min: { x: Math.min(min.x, x), y: Math.min(min.y, y) },
+      max: { x: Math.max(max.x, x), y: Math.max(max.y, y) },
+    }),
+    { min: { x: Infinity, y: Infinity }, max: { x: -Infinity, y: -Infinity } }
+  );
+
+/**
+ * Checks whether a point lies inside a polygon (even-odd rule)
+ *
+ * @param {DrawingPoint} point - The point
+ * @param {DrawingPoint[]} polygon - The corners
+ * @returns {boolean} True, if the point is inside
+ */
+export const pointInPolygon = ({ x, y }: DrawingPoint, polygon: DrawingPoint[]): boolean => {
+  let inside = false;
+  for (const { start, end } of edgesOf(polygon)) {
+    if ((start.y > y) !== (end.y > y) && x < start.x + ((y - start.y) * (end.x - start.x)) / (end.y - start.y)) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+/**
+ * Finds a point inside a polygon, the middle of its widest span at half height
+ * (the centroid of an L-shaped room can lie outside of it)
+ *
+ * @param {DrawingPoint[]} polygon - The corners
+ * @returns {DrawingPoint} A point inside the polygon
+ */
+const interiorPoint = (polygon: DrawingPoint[]): DrawingPoint => {
+  const { min, max } = boundsOf(polygon);
+  // Slightly off the middle, so the scan line misses the corners
+  const y = min.y + (max.y - min.y) * 0.5001;
+
+  const xs = edgesOf(polygon)
+    .filter(({ start, end }) => (start.y > y) !== (end.y > y))
+    .map(({ start, end }) => start.x + ((y - start.y) * (end.x - start.x)) / (end.y - start.y))
+    .sort((a, b) => a - b);
+
+  let best = { x: polygon[0].x, y: polygon[0].y };
+  let widest = -1;
+  for (let index = 0; index + 1 < xs.length; index += 2) {
+    if (xs[index + 1] - xs[index] > widest) {
+      widest = xs[index + 1] - xs[index];
+      best = { x: (xs[index] + xs[index + 1]) / 2, y };
+    }
+  }
+  return best;
+};
+
+/**
+ * Detects an upload that is a vector drawing
+ *
+ * Checks the type, and the file extension when the type is missing or generic.
+ *
+ * @param {{ name: string; type: string }} file - The uploaded file
+ * @returns {VectorFormat | null} The drawing format, or null for other files
+ */
+export const getVectorFormat = ({ name, type }: { name: string; type: string }): VectorFormat | null => {
+  const untyped = type === "" || type === "application/octet-stream";
+  if (type === "image/svg+xml" || (untyped && /\.svg$/i.test(name))) return "svg";
+  if (DXF_TYPES.includes(type) || (untyped && /\.dxf$/i.test(name))) return "dxf";
+  return null;
+};
+
+/**
+ * Classifies a layer or group name
+ *
+ * @param {string} layer - The name
+ * @returns {DrawingLayerKind} What the elements on the layer are
+ */
+export const classifyLayer = (layer: string): DrawingLayerKind =>
+  LAYER_PATTERNS.find(([, pattern]) => pattern.test(layer))?.[0] ?? "other";
+
+/**
+ * Works out the tolerances from the size of the plan and its unit
+ *
+ * @param {number} size - The longest side of the plan in drawing units
+ * @param {number | null} metersPerUnit - The unit, null for unitless drawings
+ * @returns {Tolerances} The tolerances in drawing units
+ */
+const getTolerances = (size: number, metersPerUnit: number | null): Tolerances => ({
+  snap: size * 0.0005,
+  thickness: metersPerUnit ? 0.6 / metersPerUnit : size * 0.03,
+  minArea: metersPerUnit ? 0.5 / metersPerUnit ** 2 : size ** 2 * 0.002,
+  minWidth: metersPerUnit ? 0.45 / metersPerUnit : size * 0.03,
+  minOverlap: metersPerUnit ? 0.3 / metersPerUnit : size * 0.02,
+});
+
+/**
+ * Returns the longest side of the walls' bounding box
+ *
+ * @param {DrawingSegment[]} walls - The walls
+ * @returns {number} The size in drawing units
+ */
+const sizeOf = (walls: DrawingSegment[]): number => {
+  const { min, max } = boundsOf(walls.flatMap(({ start, end }) => [start, end]));
+  return Math.max(max.x - min.x, max.y - min.y);
+};
+
+/**
+ * Splits paths into their straight pieces
+ *
+ * @param {{ points: DrawingPoint[]; closed: boolean }[]} paths - The paths
+ * @returns {DrawingSegment[]} The segments, without zero-length ones
+ */
+const toSegments = (paths: { points: DrawingPoint[]; closed: boolean }[]): DrawingSegment[] =>
+  paths.flatMap(({ points, closed }) => (closed ? edgesOf(points) : edgesOf(points).slice(0, -1)))
+    .filter(({ start, end }) => distance(start, end) > 0);
+
+/**
+ * Turns door and window symbols into the lines across their openings
+ *
+ * Nearby pieces of a symbol (leaf, swing, frame lines) are grouped, and each
+ * group is projected onto the line of its wall: the nearest wall that continues
+ * on both sides of the symbol, or else the nearest wall (the short end of a
+ * wall drawn with two lines is next to the symbol too, but does not continue).
+ *
+ * @param {DrawingPoint[][]} symbols - The points of each door or window piece
+ * @param {"door" | "window"} kind - The kind of the symbols
+ * @param {DrawingSegment[]} walls - The walls
+ * @param {Tolerances} tolerances - The tolerances
+ * @returns {DrawingOpening[]} The openings
+ */
+const findOpenings = (
+  symbols: DrawingPoint[][],
+  kind: "door" | "window",
+  walls: DrawingSegment[],
+  tolerances: Tolerances
+): DrawingOpening[] => {
+  if (walls.length === 0) return [];
+
+  // Union-find over bounding boxes closer than a quarter wall (window frames are parallel lines)
+  const boxes = symbols.map(points => boundsOf(points));
+  const parents = symbols.map((_, index) => index);
+  const find = (index: number): number => parents[index] === index ? index : (parents[index] = find(parents[index]));
+  const margin = tolerances.thickness / 4;
+
+  boxes.forEach((a, i) => boxes.slice(i + 1).forEach((b, offset) => {
+    const overlaps = a.min.x - margin <= b.max.x && b.min.x - margin <= a.max.x &&
+      a.min.y - margin <= b.max.y && b.min.y - margin <= a.max.y;
+    if (overlaps) parents[find(i + 1 + offset)] = find(i);
+  }));
+
+  const groups = new Map<number, DrawingPoint[]>();
+  symbols.forEach((points, index) => groups.set(find(index), [...(groups.get(find(index)) ?? []), ...points]));
+
+  /**
+   * Projects the points onto the line of a wall
+   */
+  const project = (points: DrawingPoint[], wall: DrawingSegment) => {
+    const along = direction(wall);
+    const offsets = points.map(point => dot(subtract(point, wall.start), along));
+    return {
+      along,
+      from: offsets.reduce((a, b) => Math.min(a, b)),
+      to: offsets.reduce((a, b) => Math.max(a, b)),
+    };
+  };
+
+  /**
+   * Checks that walls on the same line end on both sides of the projected symbol
+   */
+  const bracketed = (wall: DrawingSegment, points: DrawingPoint[]): boolean => {
+    const { along, from, to } = project(points, wall);
+    const ranges = walls
+      .filter(other => Math.abs(cross(along, direction(other))) <= PARALLEL_TOLERANCE &&
+        Math.abs(cross(subtract(other.start, wall.start), along)) <= tolerances.snap)
+      .map(other => project([other.start, other.end], wall));
+
+    return ranges.some(range => Math.abs(range.to - from) <= tolerances.thickness) &&
+      ranges.some(range => Math.abs(range.from - to) <= tolerances.thickness);
+  };
+
+  return [...groups.values()].flatMap(points => {
+    const { min, max } = boundsOf(points);
+    const center = { x: (min.x + max.x) / 2, y: (min.y + max.y) / 2 };
+    const reach = distance(min, max) + tolerances.thickness;
+
+    // A door lies in a wall, symbols far from every wall are something else
+    const nearby = walls
+      .map(wall => ({ wall, distance: distanceToSegment(center, wall) }))
+      .filter(candidate => candidate.distance <= reach)
+      .sort((a, b) => a.distance - b.distance);
+    if (nearby.length === 0) return [];
+
+    const { wall } = nearby.find(candidate => bracketed(candidate.wall, points)) ?? nearby[0];
+    const { along, from, to } = project(points, wall);
+    if (to - from <= tolerances.snap) return [];
+
+    return [{
+      kind,
+      start: { x: wall.start.x + along.x * from, y: wall.start.y + along.y * from },
+      end: { x: wall.start.x + along.x * to, y: wall.start.y + along.y * to },
+    }];
+  });
+};
+
+/**
+ * Creates the lines that close the wall gaps of the openings, so the rooms
+ * become closed regions
+ *
+ * Walls drawn as two lines get a line on each side. The lines reach a little
+ * into the wall on both ends, the overlap is merged with the wall.
+ *
+ * @param {DrawingOpening[]} openings - The openings
+ * @param {DrawingSegment[]} walls - The walls
+ * @param {Tolerances} tolerances - The tolerances
+ * @returns {DrawingSegment[]} The closing lines
+ */
+const bridgeOpenings = (
+  openings: DrawingOpening[],
+  walls: DrawingSegment[],
+  tolerances: Tolerances
+): DrawingSegment[] =>
+  openings.flatMap(opening => {
+    const along = direction(opening);
+    const normal = { x: -along.y, y: along.x };
+    const width = distance(opening.start, opening.end);
+    const reach = tolerances.thickness / 2;
+
+    const offsets: number[] = [0];
+    for (const wall of walls) {
+      if (Math.abs(cross(along, direction(wall))) > PARALLEL_TOLERANCE) continue;
+
+      const offset = dot(subtract(wall.start, opening.start), normal);
+      const ends = [wall.start, wall.end].map(point => dot(subtract(point, opening.start), along));
+      const nearby = Math.min(...ends) <= width + tolerances.thickness && Math.max(...ends) >= -tolerances.thickness;
+
+      if (nearby && Math.abs(offset) <= tolerances.thickness &&
+        offsets.every(known => Math.abs(known - offset) > tolerances.snap)) {
+        offsets.push(offset);
+      }
+    }
+
+    return offsets.map(offset => ({
+      start: {
+        x: opening.start.x + normal.x * offset - along.x * reach,
+        y: opening.start.y + normal.y * offset - along.y * reach,
+      },
+      end: {
+        x: opening.end.x + normal.x * offset + along.x * reach,
+        y: opening.end.y + normal.y * offset + along.y * reach,
+      },
+    }));
+  });
+
+/**
+ * Removes corners that lie on a straight line between their neighbours
+ *
+ * @param {DrawingPoint[]} polygon - The corners
+ * @returns {DrawingPoint[]} The corners without the straight ones
+ */
+const simplify = (polygon: DrawingPoint[]): DrawingPoint[] =>
+  polygon.filter((point, index) => {
+    const previous = polygon[(index - 1 + polygon.length) % polygon.length];
+    const next = polygon[(index + 1) % polygon.length];
+    const a = subtract(point, previous);
+    const b = subtract(next, point);
+    return Math.abs(cross(a, b)) > 1e-9 * Math.hypot(a.x, a.y) * Math.hypot(b.x, b.y);
+  });
+
+/**
+ * Finds the closed regions enclosed by the segments
+ *
+ * Builds a planar graph (segments split where they cross, corners closer than
+ * the snap distance merged, dead ends removed) and walks its faces keeping
+ * each face on the left. Counterclockwise walks are the bounded faces.
+ *
+ * @param {DrawingSegment[]} segments - The walls and the lines closing the openings
+ * @param {number} snap - The snap distance
+ * @returns {DrawingPoint[][]} The corners of each face, counterclockwise
+ */
+const findFaces = (segments: DrawingSegment[], snap: number): DrawingPoint[][] => {
+  // Split positions along each segment (0-1)
+  const cuts = segments.map(() => [0, 1]);
+  const order = segments
+    .map((segment, index) => ({ index, minX: Math.min(segment.start.x, segment.end.x) }))
+    .sort((a, b) => a.minX - b.minX)
+    .map(({ index }) => index);
+
+  for (let i = 0; i < order.length; i++) {
+    const a = segments[order[i]];
+    const aBox = boundsOf([a.start, a.end]);
+
+    for (let j = i + 1; j < order.length; j++) {
+      const b = segments[order[j]];
+      const bBox = boundsOf([b.start, b.end]);
+      if (bBox.min.x > aBox.max.x + snap) break;
+      if (bBox.min.y > aBox.max.y + snap || bBox.max.y < aBox.min.y - snap) continue;
+
+      const r = subtract(a.end, a.start);
+      const q = subtract(b.end, b.start);
+      const denominator = cross(r, q);
+      const lengthA = Math.hypot(r.x, r.y);
+      const lengthB = Math.hypot(q.x, q.y);
+
+      if (Math.abs(denominator) < 1e-9 * lengthA * lengthB) {
+        // Parallel: overlapping collinear segments are split at each other's ends
+        if (Math.abs(cross(subtract(b.start, a.start), r)) / lengthA > snap) continue;
+        for (const point of [b.start, b.end]) {
+          const t = dot(subtract(point, a.start), r) / lengthA ** 2;
+          if (t > 0 && t < 1) cuts[order[i]].push(t);
+        }
+        for (const point of [a.start, a.end]) {
+          const t = dot(subtract(point, b.start), q) / lengthB ** 2;
+          if (t > 0 && t < 1) cuts[order[j]].push(t);
+        }
+        continue;
+      }
+
+      const w = subtract(b.start, a.start);
+      const t = cross(w, q) / denominator;
+      const u = cross(w, r) / denominator;
+      // Ends that stop just short of a wall still meet it
+      const slackA = snap / lengthA;
+      const slackB = snap / lengthB;
+      if (t >= -slackA && t <= 1 + slackA && u >= -slackB && u <= 1 + slackB) {
+        cuts[order[i]].push(Math.max(0, Math.min(1, t)));
+        cuts[order[j]].push(Math.max(0, Math.min(1, u)));
+      }
+    }
+  }
+
+  // Corners closer than the snap distance become one vertex
+  const vertices: DrawingPoint[] = [];
+  const grid = new Map<string, number[]>();
+  const vertexAt = (point: DrawingPoint): number => {
+    const cellX = Math.round(point.x / snap);
+    const cellY = Math.round(point.y / snap);
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        const match = grid.get(`${cellX + dx},${cellY + dy}`)?.find(id => distance(vertices[id], point) <= snap);
+        if (match !== undefined) return match;
+      }
+    }
+    vertices.push(point);
+    grid.set(`${cellX},${cellY}`, [...(grid.get(`${cellX},${cellY}`) ?? []), vertices.length - 1]);
+    return vertices.length - 1;
+  };
+
+  const neighbours = new Map<number, Set<number>>();
+  const link = (a: number, b: number) => {
+    if (a === b) return;
+    neighbours.set(a, (neighbours.get(a) ?? new Set()).add(b));
+    neighbours.set(b, (neighbours.get(b) ?? new Set()).add(a));
+  };
+
+  segments.forEach(({ start, end }, index) => {
+    const ids = [...new Set(cuts[index])]
+      .sort((a, b) => a - b)
+      .map(t => vertexAt({ x: start.x + (end.x - start.x) * t, y: start.y + (end.y - start.y) * t }));
+    ids.slice(1).forEach((id, offset) => link(ids[offset], id));
+  });
+
+  // Dead ends cannot enclose anything
+  const pending = [...neighbours.keys()].filter(id => neighbours.get(id)!.size < 2);
+  while (pending.length > 0) {
+    const id = pending.pop()!;
+    for (const other of neighbours.get(id) ?? []) {
+      neighbours.get(other)?.delete(id);
+      if (neighbours.get(other)?.size === 1) pending.push(other);
+    }
+    neighbours.delete(id);
+  }
+
+  // Neighbours of each vertex sorted counterclockwise
+  const sorted = new Map<number, number[]>();
+  for (const [id, others] of neighbours) {
+    const angle = (other: number) => Math.atan2(vertices[other].y - vertices[id].y, vertices[other].x - vertices[id].x);
+    sorted.set(id, [...others].sort((a, b) => angle(a) - angle(b)));
+  }
+
+  const visited = new Set<string>();
+  const faces: DrawingPoint[][] = [];
+
+  for (const [from, others] of sorted) {
+    for (const to of others) {
+      const face: number[] = [];
+      let [a, b] = [from, to];
+
+      while (!visited.has(`${a},${b}`)) {
+        visited.add(`${a},${b}`);
+        face.push(a);
+        // The next edge is the first one clockwise from the way back
+        const around = sorted.get(b)!;
+        const next = around[(around.indexOf(a) - 1 + around.length) % around.length];
+        [a, b] = [b, next];
+      }
+
+      const polygon = face.map(id => vertices[id]);
+      if (face.length >= 3 && signedArea(polygon) > 0) faces.push(simplify(polygon));
+    }
+  }
+
+  return faces;
+};
+
+/**
+ * Keeps the faces that are rooms
+ *
+ * Drops small faces and thin ones (the inside of walls drawn as two lines).
+ * A face around other faces (e.g. the outline of the building) is measured
+ * without them, so only the walls between them are left and it is dropped as thin.
+ *
+ * @param {DrawingPoint[][]} polygons - The faces
+ * @param {Tolerances} tolerances - The tolerances
+ * @returns {Face[]} The rooms
+ */
+const selectRooms = (polygons: DrawingPoint[][], tolerances: Tolerances): Face[] => {
+  const faces: Face[] = polygons
+    .map(polygon => ({
+      polygon,
+      area: Math.abs(signedArea(polygon)),
+      perimeter: edgesOf(polygon).reduce((sum, { start, end }) => sum + distance(start, end), 0),
+      inside: interiorPoint(polygon),
+    }))
+    .filter(face => face.area >= tolerances.minArea);
+
+  return faces.filter(face => {
+    const contained = faces.filter(other =>
+      other !== face && other.area < face.area && pointInPolygon(other.inside, face.polygon)
+    );
+    const area = face.area - contained.reduce((sum, other) => sum + other.area, 0);
+    const perimeter = face.perimeter + contained.reduce((sum, other) => sum + other.perimeter, 0);
+
+    return area >= tolerances.minArea && (2 * area) / perimeter >= tolerances.minWidth;
+  });
+};
+
+/**
+ * Checks whether a text is a room name rather than a number or a measurement
+ *
+ * @param {string} text - The text
+ * @returns {boolean} True, for names like "Kitchen" or "Bedroom 2"
+ */
+const isRoomName = (text: string): boolean =>
+  /\p{L}{2,}/u.test(text) && !/^[\d\s.,x×]*(m²|m2|sq\.? ?ft|ft²|m|mm|cm|ft|')?$/i.test(text);
+
+/**
+ * Builds the plan geometry from a parsed drawing
+ *
+ * Elements are classified by their layer or group names: walls, doors,
+ * windows, room outlines and annotations. If nothing is on a wall layer, all
+ * unclassified lines count as walls. Rooms come from the room outlines when the
+ * drawing has them, otherwise from the regions enclosed by the walls with the
+ * door and window openings closed. Rooms are named after the text inside them.
+ * A unit that gives an implausible plan size is dropped.
+ *
+ * @param {Drawing} drawing - The parsed drawing
+ * @param {VectorFormat} format - The file format
+ * @returns {VectorPlan} The plan geometry
+ *
+ * @throws {Error} If the drawing has no walls, too many walls or openings, or coordinates out of range
+ *
+ * @example
+ * ```typescript
+ * const plan = buildVectorPlan(parseDxf(content), "dxf");
+ * console.log(plan.rooms.map(room => room.label));
+ * ```
+ */
+export const buildVectorPlan = (drawing: Drawing, format: VectorFormat): VectorPlan => {
+  const paths = drawing.entities.flatMap(entity =>
+    entity.kind === "path" ? [{ ...entity, type: classifyLayer(entity.layer) }] : []
+  );
+  const pathsOf = (type: DrawingLayerKind) => paths.filter(path => path.type === type);
+
+  const wallPaths = pathsOf("wall").length > 0 ? pathsOf("wall") : pathsOf("other");
+  const walls = toSegments(wallPaths);
+  if (walls.length === 0) {
+    throw new Error("The drawing has no walls");
+  }
+  const openingPieces = pathsOf("door").length + pathsOf("window").length;
+  if (walls.length > MAX_WALLS || openingPieces > MAX_OPENING_PIECES) {
+    throw new Error("The drawing has too many entities");
+  }
+
+  // Unreadable or huge coordinates (e.g. "1e400") would give an image without a size
+  const size = sizeOf(walls);
+  if (!Number.isFinite(size) || size <= 0) {
+    throw new Error("The walls of the drawing have invalid coordinates");
+  }
+
+  const planMeters = drawing.metersPerUnit ? size * drawing.metersPerUnit : 0;
+  const plausible = planMeters >= MIN_PLAN_SIZE && planMeters <= MAX_PLAN_SIZE;
+  const metersPerUnit = plausible ? drawing.metersPerUnit : null;
+  const tolerances = getTolerances(size, metersPerUnit);
+
+  const openings = (["door", "window"] as const).flatMap(kind =>
+    findOpenings(pathsOf(kind).map(path => path.points), kind, walls, tolerances)
+  );
+
+  const labels: DrawingLabel[] = drawing.entities.flatMap(entity =>
+    entity.kind === "text" && !/dim/i.test(entity.layer) ? [{ text: entity.text, position: entity.position }] : []
+  );
+
+  // Outlines drawn on room layers win over the regions between the walls
+  const outlines = pathsOf("room")
+    .filter(path => path.points.length >= 3 && (path.closed || distance(path.points[0], path.points[path.points.length - 1]) <= tolerances.snap))
+    .map(path => path.points);
+
+  const faces = outlines.length > 0
+    ? outlines.map(polygon => ({ polygon, area: Math.abs(signedArea(polygon)), perimeter: 0, inside: interiorPoint(polygon) }))
+      .filter(face => face.area >= tolerances.minArea)
+    : selectRooms(findFaces([...walls, ...bridgeOpenings(openings, walls, tolerances)], tolerances.snap), tolerances);
+
+  // Rooms are numbered from the top left, like they are read
+  const rooms: DrawingRoom[] = faces
+    .sort((a, b) => (b.inside.y - a.inside.y) || (a.inside.x - b.inside.x))
+    .map((face, index) => {
+      const texts = labels.filter(label => pointInPolygon(label.position, face.polygon)).map(label => label.text);
+      return {
+        id: `r${index + 1}`,
+        label: texts.find(isRoomName) ?? `Room ${index + 1}`,
+        polygon: face.polygon,
+      };
+    });
+
+  return {
+    format,
+    metersPerUnit,
+    unitName: metersPerUnit ? drawing.unitName : null,
+    walls,
+    openings,
+    labels,
+    rooms,
+  };
+};
+
+/**
+ * Works out which rooms share a wall and which openings they have
+ *
+ * Two rooms are adjacent when parallel sides of them lie within a wall's
+ * thickness of each other for a stretch. A door connects the two rooms
+ * nearest to it, a window belongs to the rooms it lies on.
+ *
+ * @param {VectorPlan} plan - The plan geometry
+ * @returns {{ adjacency: RoomAdjacency[]; openingRooms: string[][] }} The room pairs and the room ids of each opening
+ *
+ * @example
+ * ```typescript
+ * const { adjacency } = findAdjacency(plan);
+ * const connected = adjacency.filter(pair => pair.connected);
+ * ```
+ */
+export const findAdjacency = (plan: VectorPlan): { adjacency: RoomAdjacency[]; openingRooms: string[][] } => {
+  const tolerances = getTolerances(sizeOf(plan.walls), plan.metersPerUnit);
+  const reach = tolerances.thickness + tolerances.snap;
+  const pairs = new Map<string, RoomAdjacency>();
+
+  const addPair = (a: string, b: string, connected: boolean) => {
+    const roomIds: [string, string] = a < b ? [a, b] : [b, a];
+    const key = roomIds.join("|");
+    pairs.set(key, { roomIds, connected: connected || !!pairs.get(key)?.connected });
+  };
+
+  const sharesWall = (a: DrawingRoom, b: DrawingRoom) =>
+    edgesOf(a.polygon).some(edge => {
+      const along = direction(edge);
+      const length = distance(edge.start, edge.end);
+
+      return edgesOf(b.polygon).some(other => {
+        if (Math.abs(cross(along, direction(other))) > PARALLEL_TOLERANCE) return false;
+        if (Math.abs(cross(subtract(other.start, edge.start), along)) > reach) return false;
+
+        const ends = [other.start, other.end].map(point => dot(subtract(point, edge.start), along));
+        const overlap = Math.min(length, Math.max(...ends)) - Math.max(0, Math.min(...ends));
+        return overlap >= tolerances.minOverlap;
+      });
+    });
+
+  plan.rooms.forEach((room, index) => plan.rooms.slice(index + 1).forEach(other => {
+    if (sharesWall(room, other)) addPair(room.id, other.id, false);
+  }));
+
+  const openingRooms = plan.openings.map(opening => {
+    const middle = { x: (opening.start.x + opening.end.x) / 2, y: (opening.start.y + opening.end.y) / 2 };
+    const nearest = plan.rooms
+      .map(room => ({ id: room.id, distance: Math.min(...edgesOf(room.polygon).map(edge => distanceToSegment(middle, edge))) }))
+      .filter(room => room.distance <= reach)
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, 2)
+      .map(room => room.id);
+
+    if (opening.kind === "door" && nearest.length === 2) addPair(nearest[0], nearest[1], true);
+    return nearest;
+  });
+
+  return {
+    adjacency: [...pairs.values()].sort((a, b) => a.roomIds.join().localeCompare(b.roomIds.join())),
+    openingRooms,
+  };
+};
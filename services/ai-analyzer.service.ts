@@ -1,171 +1,877 @@
-import OpenAI from "openai";
-import { FloorPlanAnalysis } from "@/types/floor-analysis";
+import sharp from "sharp";
+import {
+  AnalysisMode,
+  AnalysisOutcome,
+  FloorPlanAnalysis,
+  PartialAnalysis,
+  PlanScale,
+  Recommendation,
+  Room,
+  SchemaFieldError,
+  UnitSystem
+} from "@/types/floor-analysis";
+import { VisionDetail, VisionProvider, VisionRequest, VisionResponse } from "@/types/vision-provider";
+import {
+  formatSchemaErrors,
+  ROOM_TYPES,
+  validateFloorPlanAnalysis,
+  validatePartialAnalysis,
+  validateScaleReference,
+  validateTileFindings
+} from "@/lib/floor-plan-schema";
+import { dedupeRecommendations } from "@/lib/recommendations";
+import { combineSamples } from "@/lib/ensemble";
+import { createJsonStreamParser } from "@/lib/json-stream";
+import { Deadline, DeadlineExceededError } from "@/lib/deadline";
+import { applyScale, createPlanScale, formatArea } from "@/lib/measurements";
+import { decodeDataUrl } from "@/lib/data-url";
+import { getActiveRubric } from "@/lib/rubrics";
+import { renderPrompt, selectPromptVersion } from "@/lib/prompts";
+import { ImageTile, imageTilerService } from "@/services/image-tiler.service";
+import { Rubric } from "@/types/rubric";
+import { PromptUsage } from "@/types/prompt";
+import { VectorGeometry } from "@/types/vector-plan";
+import { ServerAnalysisStage } from "@/types/analysis-progress";
+import { createHash } from "crypto";
+import {
+  createVisionProvider,
+  getVisionProviderConfig,
+  VisionProviderError,
+  VisionTimeoutError
+} from "@/services/providers";
 
-// Check if the OpenAI API key is set
-if (!process.env.OPENAI_API_KEY) {
-  throw new Error("OPENAI_API_KEY is not set");
+/**
+ * Error for model output that cannot be used as an analysis
+ * 
+ * @class InvalidOutputError
+ * @extends Error
+ */
+class InvalidOutputError extends Error {
+  constructor(message: string, public errors: SchemaFieldError[] = []) {
+    super(message);
+    this.name = "InvalidOutputError";
+  }
+}
+
+/**
+ * Shape of the raw JSON returned by the model
+ * 
+ * @interface RawAnalysisResponse
+ */
+interface RawAnalysisResponse {
+  isFloorPlan?: boolean;
+  reason?: string;
 }
 
 /**
- * Service for analyzing floor plans using the OpenAI API
+ * Options for a single analysis
+ * 
+ * @interface AnalyzeOptions
+ * @property {AnalysisMode} [mode="standard"] - `high_fidelity` splits the image into tiles
+ * @property {number} [samples] - Number of parallel samples to combine (defaults to `ANALYSIS_SAMPLES` or 1)
+ * @property {UnitSystem} [unitSystem="metric"] - The units the model writes measurements in
+ * @property {VectorGeometry} [geometry] - The exact geometry of a drawing, used instead of the model's rooms and scale
+ * @property {function} [onStage] - Called with `validating` when a model answer arrives and is checked
+ * @property {function} [onPartial] - Called with the scores and each recommendation as the model writes them
+ * @property {AbortSignal} [signal] - Cancels every request to the provider when aborted
+ * @property {Deadline} [deadline] - The time budget of the analysis, retries included
+ * @property {string} [promptKey] - Assigns the prompt variants, the same key always gets the same prompt versions
+ */
+interface AnalyzeOptions {
+  mode?: AnalysisMode;
+  samples?: number;
+  unitSystem?: UnitSystem;
+  geometry?: VectorGeometry;
+  onStage?: (stage: ServerAnalysisStage) => void;
+  onPartial?: (partial: PartialAnalysis) => void;
+  signal?: AbortSignal;
+  deadline?: Deadline;
+  promptKey?: string;
+}
+
+/**
+ * Settings shared by every request of one analysis
+ * 
+ * @interface PromptContext
+ * @property {Rubric} rubric - The rubric to score with
+ * @property {UnitSystem} unitSystem - The units for measurements in the answers
+ * @property {VectorGeometry} [geometry] - The exact geometry of a drawing, described in the prompt
+ * @property {function} [onStage] - Reports the progress of the analysis
+ * @property {function} [onPartial] - Reports the analysis while the model is still answering
+ * @property {AbortSignal} [signal] - Cancels the requests of the analysis, also aborted by the deadline
+ * @property {Deadline} [deadline] - The time budget of the analysis
+ * @property {PromptUsage[]} prompts - The version of each analyzer prompt picked for the analysis
+ */
+interface PromptContext {
+  rubric: Rubric;
+  unitSystem: UnitSystem;
+  geometry?: VectorGeometry;
+  onStage?: (stage: ServerAnalysisStage) => void;
+  onPartial?: (partial: PartialAnalysis) => void;
+  signal?: AbortSignal;
+  deadline?: Deadline;
+  prompts: PromptUsage[];
+}
+
+/**
+ * Ids of the registered prompts the analyzer renders
+ */
+const ANALYZER_PROMPT_IDS = ["analysis-system", "analysis-geometry", "analysis-tile", "analysis-scale"];
+
+/**
+ * Prompt instructions for writing measurements in each unit system
+ */
+const UNIT_INSTRUCTIONS: Record<UnitSystem, string> = {
+  metric: "Write every measurement (widths, lengths, areas) in metric units: cm, m and m².",
+  imperial: "Write every measurement (widths, lengths, areas) in imperial units: inches, feet and sq ft. Convert metric labels from the plan.",
+};
+
+/**
+ * Result of parsing a single model response
+ */
+type ParsedResponse =
+  | { kind: "analysis"; analysis: FloorPlanAnalysis }
+  | { kind: "not_floor_plan"; reason: string }
+  | { kind: "invalid"; errors: SchemaFieldError[] };
+
+/**
+ * Service for analyzing floor plans with a vision model
  * 
  * @class AiAnalyzerService
  * @description Provides functionality for analyzing floor plan images
- * using GPT-4 Vision and returning structured analysis results
+ * through the configured vision provider and returning structured analysis results
  */
 class AiAnalyzerService {
   // Maximum number of retries
   private readonly MAX_RETRIES = 2;
   // Delay between retries
   private readonly RETRY_DELAY = 500;
+  // Provider instance, created on first use
+  private provider: VisionProvider | null = null;
+  // Version of the analysis pipeline, bump when the parsing or merging changes
+  // (the prompt versions and a hash of the system prompt are part of the version)
+  private readonly PIPELINE_VERSION = 2;
+  // Maximum number of samples of an ensemble analysis
+  private readonly MAX_SAMPLES = 5;
+  // Longest image side kept for high-fidelity analyses, the tiles cover up to 4 x 1400 pixels
+  private readonly HIGH_FIDELITY_IMAGE_SIZE = 5600;
+  // Longest image side used when the provider is misconfigured
+  private readonly DEFAULT_IMAGE_SIZE = 2048;
+  // Time a model request needs at least, a retry or repair is skipped when less budget is left
+  private readonly MIN_REQUEST_BUDGET = 5000;
 
-  constructor(private openai: OpenAI) { }
+  constructor(private providerFactory: () => VisionProvider) { }
 
   /**
-   * Analyzes the floor plan image and returns a structured result
+   * Analyzes the floor plan image and returns a typed outcome
+   * 
+   * The scores follow the active rubric (`ANALYSIS_RUBRIC`).
+   * With more than one sample the model is asked several times in parallel
+   * and the results are combined (median scores with their spread).
+   * In parallel, the plan scale is read from a scale bar or dimension string
+   * and used to measure the rooms; without a scale the rooms have no dimensions.
+   * With the geometry of a drawing, the model is given the exact rooms and only
+   * picks their types: the polygons, areas and scale come from the drawing.
+   * Analysis failures are reported as one of the outcome statuses
+   * (`not_floor_plan`, `provider_error`, `invalid_output`, `timeout`).
+   * Aborting `signal` cancels the requests in flight and skips the retries,
+   * the analysis then ends as a `provider_error`.
+   * The `deadline` covers every request, retries and repairs included: a retry
+   * is only made when enough budget is left, and when the budget runs out the
+   * requests are aborted and the analysis ends as a `timeout`.
+   * The prompts are rendered from the prompt registry, with the variants
+   * assigned by `promptKey`; the analysis records the prompt versions it used
    * 
    * @param {string} imageUrl - URL of the image to analyze
-   * @param {number} retryCount - Current number of attempts (for internal use)
-   * @returns {Promise<FloorPlanAnalysis>} The result of the analysis
+   * @param {AnalyzeOptions} [options] - The analysis options
+   * @returns {Promise<AnalysisOutcome>} The outcome of the analysis
    * 
-   * @throws {Error} Error when the analysis fails after all attempts
+   * @throws {Error} If the configured rubric is not registered
    * 
    * @example
    * ```typescript
-   * const analysis = await aiAnalyzerService.analyzeImage("https://example.com/floorplan.jpg");
+   * const outcome = await aiAnalyzerService.analyzeImage(imageUrl, { mode: "high_fidelity" });
+   * if (outcome.status === "ok") console.log(outcome.analysis.scores);
    * ```
    */
-  async analyzeImage(imageUrl: string, retryCount = 0): Promise<FloorPlanAnalysis> {
+  async analyzeImage(imageUrl: string, options: AnalyzeOptions = {}): Promise<AnalysisOutcome> {
+    const context = this.createContext(options);
+    const samples = this.getSampleCount(options);
+
+    const [outcome, scale] = await Promise.all([
+      options.mode === "high_fidelity"
+        ? this.analyzeHighFidelity(imageUrl, context, samples)
+        : this.analyzeSampled(imageUrl, context, "low", samples),
+      options.geometry?.scale ?? this.extractScale(imageUrl, context),
+    ]);
+
+    if (outcome.status !== "ok") return outcome;
+
+    const geometric = options.geometry ? this.applyGeometry(outcome.analysis, options.geometry) : outcome.analysis;
+    const analysis = { ...geometric, prompts: this.getUsedPrompts(context, options) };
+    return { status: "ok", analysis: scale ? applyScale(analysis, scale) : analysis };
+  }
+
+  /**
+   * Returns a string identifying everything besides the image that affects the result
+   * 
+   * Combines the pipeline version, the analysis mode, the active rubric,
+   * the prompt versions picked for `promptKey`, a hash of the system prompt
+   * (which includes the unit system) and the provider and model.
+   * Used as part of the analysis cache key.
+   * 
+   * @param {AnalyzeOptions} [options] - The analysis options
+   * @returns {string} The version string
+   * 
+   * @throws {Error} If the configured rubric is not registered
+   */
+  getVersion(options: AnalyzeOptions = {}): string {
+    const context = this.createContext(options);
+    const promptHash = createHash("sha256")
+      .update(this.createSystemPrompt(context))
+      .digest("hex")
+      .slice(0, 16);
+
+    let provider = "unavailable";
+    try {
+      provider = `${this.getProvider().name}:${this.getProvider().model}`;
+    } catch {
+      // A misconfigured provider is reported by analyzeImage, nothing is cached for it
+    }
+
+    return [
+      `v${this.PIPELINE_VERSION}`,
+      options.mode ?? "standard",
+      `samples=${this.getSampleCount(options)}`,
+      context.rubric.id,
+      context.prompts.map(({ id, version }) => `${id}@${version}`).join(","),
+      promptHash,
+      provider,
+    ].join("|");
+  }
+
+  /**
+   * Returns the longest image side the analysis makes use of
+   * 
+   * Standard analyses send the whole image at once, so anything above the
+   * provider's resolution is wasted. High-fidelity analyses split the image
+   * into tiles and keep more pixels.
+   * 
+   * @param {AnalysisMode} [mode="standard"] - The analysis mode
+   * @returns {number} The size in pixels
+   */
+  getImageSize(mode: AnalysisMode = "standard"): number {
+    let size = this.DEFAULT_IMAGE_SIZE;
+    try {
+      size = this.getProvider().maxImageSize;
+    } catch {
+      // A misconfigured provider is reported by analyzeImage
+    }
+
+    return mode === "high_fidelity" ? Math.max(size, this.HIGH_FIDELITY_IMAGE_SIZE) : size;
+  }
+
+  /**
+   * Creates the prompt context from the active rubric and the options
+   * 
+   * @private
+   * @param {AnalyzeOptions} options - The analysis options
+   * @returns {PromptContext} The prompt context
+   * 
+   * @throws {Error} If the configured rubric is not registered
+   */
+  private createContext(options: AnalyzeOptions): PromptContext {
+    // The requests are aborted by the caller or by the deadline, whichever comes first
+    const signals = [options.signal, options.deadline?.signal].filter(signal => signal !== undefined);
+
+    return {
+      rubric: getActiveRubric(),
+      unitSystem: options.unitSystem ?? "metric",
+      geometry: options.geometry,
+      onStage: options.onStage,
+      onPartial: options.onPartial,
+      signal: signals.length > 1 ? AbortSignal.any(signals) : signals[0],
+      deadline: options.deadline,
+      prompts: ANALYZER_PROMPT_IDS.map(id => ({
+        id,
+        version: selectPromptVersion(id, options.promptKey).version,
+      })),
+    };
+  }
+
+  /**
+   * Returns the prompts an analysis with these options is made with
+   * 
+   * @private
+   * @param {PromptContext} context - The prompt versions picked for the analysis
+   * @param {AnalyzeOptions} options - The analysis options
+   * @returns {PromptUsage[]} The prompt versions
+   */
+  private getUsedPrompts(context: PromptContext, options: AnalyzeOptions): PromptUsage[] {
+    const used = new Set(["analysis-system"]);
+    if (options.geometry && options.geometry.rooms.length > 0) used.add("analysis-geometry");
+    if (options.mode === "high_fidelity") used.add("analysis-tile");
+    if (!options.geometry?.scale) used.add("analysis-scale");
+
+    return context.prompts.filter(({ id }) => used.has(id));
+  }
+
+  /**
+   * Renders a prompt in the version picked for the analysis
+   * 
+   * @private
+   * @param {PromptContext} context - The prompt versions picked for the analysis
+   * @param {string} id - The id of the prompt
+   * @param {Record<string, string>} [variables={}] - The variables of the prompt
+   * @returns {string} The prompt
+   */
+  private render(context: PromptContext, id: string, variables: Record<string, string> = {}): string {
+    const version = context.prompts.find(usage => usage.id === id)?.version;
+    return renderPrompt(id, variables, { version }).text;
+  }
+
+  /**
+   * Returns the number of samples to combine, limited to 1-MAX_SAMPLES
+   * 
+   * @private
+   * @param {AnalyzeOptions} options - The analysis options
+   * @returns {number} The number of samples
+   */
+  private getSampleCount(options: AnalyzeOptions): number {
+    const samples = options.samples ?? Number(process.env.ANALYSIS_SAMPLES || 1);
+    if (!Number.isInteger(samples)) return 1;
+    return Math.min(this.MAX_SAMPLES, Math.max(1, samples));
+  }
+
+  /**
+   * Analyzes the whole image with several samples in parallel and combines them
+   * 
+   * The result follows the majority: if most samples fail, the first failure is returned.
+   * Otherwise the successful samples are combined with `combineSamples`.
+   * Only a single sample reports its partial analysis, the scores of one
+   * sample out of several would be replaced by the combined ones.
+   * 
+   * @private
+   * @param {string} imageUrl - URL of the image to analyze
+   * @param {PromptContext} context - The rubric and unit system
+   * @param {VisionDetail} detail - The image detail level sent to the provider
+   * @param {number} samples - The number of samples
+   * @returns {Promise<AnalysisOutcome>} The outcome of the analysis
+   */
+  private async analyzeSampled(
+    imageUrl: string,
+    context: PromptContext,
+    detail: VisionDetail,
+    samples: number
+  ): Promise<AnalysisOutcome> {
+    if (samples <= 1) {
+      return this.analyzeSingle(imageUrl, context, detail);
+    }
+
+    const sampleContext = { ...context, onPartial: undefined };
+    const outcomes = await Promise.all(
+      Array.from({ length: samples }, () => this.analyzeSingle(imageUrl, sampleContext, detail))
+    );
+
+    const analyses = outcomes.flatMap(outcome => outcome.status === "ok" ? [outcome.analysis] : []);
+    if (analyses.length * 2 < outcomes.length) {
+      return outcomes.find(outcome => outcome.status !== "ok") ?? outcomes[0];
+    }
+
+    // A single usable sample has no spread to report
+    if (analyses.length === 1) {
+      return { status: "ok", analysis: analyses[0] };
+    }
+
+    return { status: "ok", analysis: combineSamples(analyses) };
+  }
+
+  /**
+   * Analyzes the whole image with one vision request (plus retries and one repair pass)
+   * 
+   * @private
+   * @param {string} imageUrl - URL of the image to analyze
+   * @param {PromptContext} context - The rubric and unit system
+   * @param {VisionDetail} detail - The image detail level sent to the provider
+   * @param {number} retryCount - Current number of attempts (for internal use)
+   * @returns {Promise<AnalysisOutcome>} The outcome of the analysis
+   */
+  private async analyzeSingle(
+    imageUrl: string,
+    context: PromptContext,
+    detail: VisionDetail,
+    retryCount = 0
+  ): Promise<AnalysisOutcome> {
     try {
-      // ONE SINGLE GPT REQUEST (validation + analysis in 1 step)
-      const response = await this.openai.chat.completions.create({
-        model: "gpt-4o-mini", // Fast Vision model
-        messages: [
-          {
-            role: "system",
-            content: `
-            You are an expert in analyzing floor plans, architectural drawings, and interior layouts.
-                      
-            Your task:
-                      
-            1) First, determine whether the image is a valid floor plan / architectural layout / interior space.
-                      
-               - If the image is NOT related to rooms, interior spaces, or floor plans → respond ONLY with:
-                      
-                 {
-                   "scores": {
-                     "lighting": 0,
-                     "space": 0,
-                     "flow": 0,
-                     "accessibility": 0
-                   },
-                   "recommendations": []
-                 }
-                      
-            2) If the image IS valid → perform full analysis.
-                      
-            RETURN JSON ONLY IN THIS FORMAT:
-                      
-            {
-              "scores": {
-                "lighting": number (0-100),
-                "space": number (0-100),
-                "flow": number (0-100),
-                "accessibility": number (0-100)
-              },
-              "recommendations": [
-                {
-                  "area": "string",
-                  "issue": "string",
-                  "suggestion": "string",
-                  "priority": "low | medium | high"
-                }
-              ]
-            }
-                      
-            Always return VALID JSON and NOTHING ELSE.
-            `
-          },
-          {
-            role: "user",
-            content: [
-              {
-                type: "image_url",
-                image_url: { url: imageUrl, detail: "low" }
-              },
-              {
-                type: "text",
-                text: `
+      // ONE SINGLE VISION REQUEST (validation + analysis in 1 step)
+      const request: VisionRequest = {
+        systemPrompt: this.createSystemPrompt(context),
+        userPrompt: `
                 Perform the combined validation and analysis as instructed.
-                If not a floor plan/interior, return the EMPTY version.
+                If not a floor plan/interior, return the "isFloorPlan": false version.
                 Otherwise, return the full JSON analysis.
-                `
-              }
-            ]
-          }
-        ],
-        response_format: { type: "json_object" },
-        max_tokens: 1500,
+                `,
+        imageUrl,
+        detail,
+        jsonMode: true,
+        maxTokens: 3500,
         temperature: 0.1
+      };
+
+      const response = await this.getProvider().complete({
+        ...request,
+        onDelta: this.createPartialReader(context),
+        signal: context.signal,
       });
+      context.onStage?.("validating");
+      let parsed = this.parseResponse(response, context);
+
+      // One repair pass: send the validation errors back to the model, if there is time for it
+      if (parsed.kind === "invalid" && this.hasBudgetFor(context, 0)) {
+        console.warn("AI Analyzer: output failed validation, requesting repair", parsed.errors);
 
-      // Check for errors
-      if (!response.choices || response.choices.length === 0) {
-        throw new Error("No response received from OpenAI");
+        const repaired = await this.getProvider().complete({
+          ...request,
+          userPrompt: this.createRepairPrompt(response.content, parsed.errors),
+          onDelta: this.createPartialReader(context),
+          signal: context.signal,
+        });
+        parsed = this.parseResponse(repaired, context);
       }
 
-      if (response.choices[0].finish_reason === "length") {
-        throw new Error("The response is too long. Please try again.");
+      if (parsed.kind === "invalid") {
+        throw new InvalidOutputError("Model output does not match the analysis schema", parsed.errors);
       }
 
-      if (response.choices[0].finish_reason === "content_filter") {
-        throw new Error("The response was filtered due to content restrictions");
+      // The model decided the image is not a floor plan
+      if (parsed.kind === "not_floor_plan") {
+        return { status: "not_floor_plan", message: parsed.reason };
       }
 
-      const content = response.choices[0].message.content;
-      if (!content) throw new Error("Empty response received");
+      return { status: "ok", analysis: parsed.analysis };
+    } catch (error) {
+      // The deadline aborted the request, or ran out while it failed
+      const failure = context.deadline?.hasExpired() ? new DeadlineExceededError(context.deadline.budgetMs) : error;
 
-      let parsedAnalysis: FloorPlanAnalysis;
-      try {
-        parsedAnalysis = JSON.parse(content);
-      } catch (e) {
-        throw new Error("Invalid JSON response received");
+      // Retry on certain errors, when the retry can finish in time
+      const retryDelay = this.RETRY_DELAY * (retryCount + 1);
+      if (retryCount < this.MAX_RETRIES && this.shouldRetry(failure) && this.hasBudgetFor(context, retryDelay)) {
+        await this.delay(retryDelay);
+        return this.analyzeSingle(imageUrl, context, detail, retryCount + 1);
       }
 
-      // Check the JSON structure
-      if (!parsedAnalysis.scores || !parsedAnalysis.recommendations) {
-        throw new Error("Invalid JSON structure");
+      this.loggerError(failure);
+      return this.failureOutcome(failure);
+    }
+  }
+
+  /**
+   * Checks if a model request can still finish before the deadline
+   * 
+   * @private
+   * @param {PromptContext} context - The context with the deadline
+   * @param {number} delay - The time to wait before the request, in milliseconds
+   * @returns {boolean} True without a deadline, or if enough budget is left
+   */
+  private hasBudgetFor({ deadline }: PromptContext, delay: number): boolean {
+    return !deadline || deadline.remaining() >= delay + this.MIN_REQUEST_BUDGET;
+  }
+
+  /**
+   * Creates the reader of a streamed model answer that reports the partial analysis
+   * 
+   * The scores are reported once their object is complete and the
+   * recommendations one by one, each after it is checked against the schema.
+   * Every answer gets its own reader, so a retry or repair starts over.
+   * 
+   * @private
+   * @param {PromptContext} context - The rubric to check the scores against and the listener
+   * @returns {((text: string) => void) | undefined} The reader, undefined if nobody listens
+   */
+  private createPartialReader({ rubric, onPartial }: PromptContext): ((text: string) => void) | undefined {
+    if (!onPartial) return undefined;
+
+    let partial: PartialAnalysis = { rubricId: rubric.id, recommendations: [] };
+    const parser = createJsonStreamParser(
+      path => (path.length === 1 && path[0] === "scores") || (path.length === 2 && path[0] === "recommendations"),
+      (path, value) => {
+        const candidate = path[0] === "scores"
+          ? { ...partial, scores: value }
+          : { ...partial, recommendations: [...partial.recommendations, value] };
+
+        // Invalid parts are left out, the complete answer is validated (and repaired) anyway
+        const result = validatePartialAnalysis(candidate, rubric);
+        if (!result.success) return;
+
+        partial = result.data;
+        onPartial(partial);
       }
+    );
+
+    return text => parser.write(text);
+  }
+
+  /**
+   * Analyzes a large plan as an overview plus overlapping high-detail tiles
+   * 
+   * The overview gives the scores and rooms, the tiles add findings that
+   * need small labels or dimensions to be readable. All requests run in parallel,
+   * failed tiles are skipped and duplicate findings are merged.
+   * Only the overview is sampled several times, tiles add findings but no scores.
+   * 
+   * @private
+   * @param {string} imageUrl - The data URL of the image to analyze
+   * @param {PromptContext} context - The rubric and unit system
+   * @param {number} samples - The number of overview samples
+   * @returns {Promise<AnalysisOutcome>} The outcome of the analysis
+   */
+  private async analyzeHighFidelity(
+    imageUrl: string,
+    context: PromptContext,
+    samples: number
+  ): Promise<AnalysisOutcome> {
+    let tiles: ImageTile[];
+    let overviewUrl: string;
 
-      // Check the range of scores
-      if (!this.areaScoreValid(parsedAnalysis.scores)) {
-        throw new Error("Scores are outside valid range (0-100)");
+    try {
+      ({ tiles, overviewUrl } = await imageTilerService.split(imageUrl));
+    } catch (error) {
+      // Fall back to a single high-detail request if the image cannot be tiled
+      this.loggerError(error);
+      return this.analyzeSampled(imageUrl, context, "high", samples);
+    }
+
+    const [overview, ...tileFindings] = await Promise.all([
+      this.analyzeSampled(overviewUrl, context, "high", samples),
+      ...tiles.map(tile => this.analyzeTile(tile, context)),
+    ]);
+
+    if (overview.status !== "ok") return overview;
+
+    return {
+      status: "ok",
+      analysis: this.mergeTileFindings(overview.analysis, tiles, tileFindings),
+    };
+  }
+
+  /**
+   * Collects the findings visible in one tile
+   * 
+   * @private
+   * @param {ImageTile} tile - The tile to analyze
+   * @param {PromptContext} context - The unit system, the prompt versions and the signal
+   * @returns {Promise<Recommendation[]>} The findings, empty if the request failed
+   */
+  private async analyzeTile(tile: ImageTile, context: PromptContext): Promise<Recommendation[]> {
+    try {
+      const response = await this.getProvider().complete({
+        systemPrompt: this.createTilePrompt(tile, context),
+        userPrompt: "List the issues visible in this section as instructed.",
+        imageUrl: tile.imageUrl,
+        detail: "high",
+        jsonMode: true,
+        maxTokens: 1500,
+        temperature: 0.1,
+        signal: context.signal
+      });
+
+      if (response.finishReason === "content_filter" || !response.content) return [];
+
+      const result = validateTileFindings(JSON.parse(response.content));
+      if (!result.success) {
+        console.warn("AI Analyzer: skipping tile with invalid output", result.errors);
+        return [];
       }
 
-      return parsedAnalysis;
+      return result.data;
     } catch (error) {
-      // Retry on certain errors
-      if (retryCount < this.MAX_RETRIES && this.shouldRetry(error)) {
-        await this.delay(this.RETRY_DELAY * (retryCount + 1));
-        return this.analyzeImage(imageUrl, retryCount + 1);
+      this.loggerError(error);
+      return [];
+    }
+  }
+
+  /**
+   * Adds the tile findings to the overview analysis
+   * 
+   * Tile findings are linked to the overview rooms by label, preferring
+   * rooms that lie inside the tile, and duplicates are merged.
+   * 
+   * @private
+   * @param {FloorPlanAnalysis} overview - The analysis of the whole image
+   * @param {ImageTile[]} tiles - The tiles
+   * @param {Recommendation[][]} tileFindings - The findings of each tile
+   * @returns {FloorPlanAnalysis} The merged analysis
+   */
+  private mergeTileFindings(
+    overview: FloorPlanAnalysis,
+    tiles: ImageTile[],
+    tileFindings: Recommendation[][]
+  ): FloorPlanAnalysis {
+    const linked = tileFindings.flatMap((findings, index) => {
+      const { region } = tiles[index];
+      const roomsInTile = overview.rooms.filter(({ bounds }) =>
+        bounds.x < region.x + region.width &&
+        bounds.x + bounds.width > region.x &&
+        bounds.y < region.y + region.height &&
+        bounds.y + bounds.height > region.y
+      );
+
+      return findings.map(finding => {
+        const area = finding.area.trim().toLowerCase();
+        const matches = (rooms: Room[]) =>
+          rooms.filter(room => room.label.trim().toLowerCase() === area);
+        const rooms = matches(roomsInTile).length > 0 ? matches(roomsInTile) : matches(overview.rooms);
+
+        return { ...finding, roomIds: rooms.map(room => room.id) };
+      });
+    });
+
+    return {
+      ...overview,
+      recommendations: dedupeRecommendations([...overview.recommendations, ...linked]),
+    };
+  }
+
+  /**
+   * Replaces the model's rooms with the rooms of the drawing
+   * 
+   * The model only contributes the room types (matched by id, the prompt
+   * lists the ids). Findings keep the rooms that exist in the drawing.
+   * Drawings without detected rooms keep the model's rooms.
+   * 
+   * @private
+   * @param {FloorPlanAnalysis} analysis - The analysis of the model
+   * @param {VectorGeometry} geometry - The geometry of the drawing
+   * @returns {FloorPlanAnalysis} The analysis with the exact rooms, openings and adjacency
+   */
+  private applyGeometry(analysis: FloorPlanAnalysis, { rooms, geometry }: VectorGeometry): FloorPlanAnalysis {
+    if (rooms.length === 0) return { ...analysis, geometry };
+
+    const roomIds = new Set(rooms.map(room => room.id));
+    return {
+      ...analysis,
+      rooms: rooms.map(room => ({
+        ...room,
+        type: analysis.rooms.find(({ id }) => id === room.id)?.type ?? room.type,
+      })),
+      recommendations: analysis.recommendations.map(recommendation => ({
+        ...recommendation,
+        roomIds: recommendation.roomIds.filter(id => roomIds.has(id)),
+      })),
+      geometry,
+    };
+  }
+
+  /**
+   * Reads the plan scale from a scale bar or a dimension string
+   * 
+   * Failures are logged and reported as a missing scale,
+   * so they never fail the analysis itself.
+   * 
+   * @private
+   * @param {string} imageUrl - The data URL of the image
+   * @param {PromptContext} context - The prompt versions and the signal
+   * @returns {Promise<PlanScale | null>} The scale, or null if none was found
+   */
+  private async extractScale(imageUrl: string, context: PromptContext): Promise<PlanScale | null> {
+    try {
+      const { width, height } = await sharp(decodeDataUrl(imageUrl)).metadata();
+      if (!width || !height) return null;
+
+      const response = await this.getProvider().complete({
+        systemPrompt: this.render(context, "analysis-scale"),
+        userPrompt: "Find the scale of this floor plan as instructed.",
+        imageUrl,
+        detail: "high",
+        jsonMode: true,
+        maxTokens: 500,
+        temperature: 0,
+        signal: context.signal
+      });
+
+      if (!response.content) return null;
+
+      const { scaleReference } = JSON.parse(response.content);
+      if (!scaleReference) return null;
+
+      const result = validateScaleReference(scaleReference);
+      if (!result.success) {
+        console.warn("AI Analyzer: scale reference failed validation", result.errors);
+        return null;
       }
 
+      return createPlanScale(result.data, { width, height });
+    } catch (error) {
       this.loggerError(error);
-      return this.emptyResponse();
+      return null;
+    }
+  }
+
+  /**
+   * Creates the system prompt for a single tile
+   * 
+   * @private
+   * @param {ImageTile} tile - The tile to describe
+   * @param {PromptContext} context - The units for measurements in the findings and the prompt versions
+   * @returns {string} The system prompt
+   */
+  private createTilePrompt(tile: ImageTile, context: PromptContext): string {
+    const percent = (value: number) => String(Math.round(value * 100));
+    const { x, y, width, height } = tile.region;
+
+    return this.render(context, "analysis-tile", {
+      left: percent(x),
+      right: percent(x + width),
+      top: percent(y),
+      bottom: percent(y + height),
+      unitInstructions: UNIT_INSTRUCTIONS[context.unitSystem],
+    });
+  }
+
+  /**
+   * Creates the system prompt for the vision model
+   * 
+   * @private
+   * @param {PromptContext} context - The rubric defining the score dimensions, the unit system and the prompt versions
+   * @returns {string} The system prompt
+   */
+  private createSystemPrompt(context: PromptContext): string {
+    const { rubric, unitSystem, geometry } = context;
+
+    return this.render(context, "analysis-system", {
+      scoreFields: rubric.dimensions
+        .map(dimension => `"${dimension.id}": number (0-100)`)
+        .join(",\n                "),
+      scoreDetailFields: rubric.dimensions
+        .map(dimension => `"${dimension.id}": { "rationale": "string", "evidence": ["string"], "confidence": number (0-1) }`)
+        .join(",\n                "),
+      roomTypes: ROOM_TYPES.join(" | "),
+      scoreCriteria: rubric.dimensions
+        .map(dimension => `- ${dimension.id} (${dimension.label}): ${dimension.prompt}`)
+        .join("\n            "),
+      unitInstructions: UNIT_INSTRUCTIONS[unitSystem],
+      geometry: geometry && geometry.rooms.length > 0 ? this.createGeometryPrompt(geometry, context) : "",
+    });
+  }
+
+  /**
+   * Creates the part of the system prompt that describes the geometry of a drawing
+   * 
+   * @private
+   * @param {VectorGeometry} geometry - The geometry of the drawing
+   * @param {PromptContext} context - The units for the areas and the prompt versions
+   * @returns {string} The prompt section
+   */
+  private createGeometryPrompt({ rooms, geometry }: VectorGeometry, context: PromptContext): string {
+    const roomLines = rooms.map(room => {
+      const center = `${(room.bounds.x + room.bounds.width / 2).toFixed(2)}, ${(room.bounds.y + room.bounds.height / 2).toFixed(2)}`;
+      const neighbours = geometry.adjacency
+        .filter(pair => pair.roomIds.includes(room.id))
+        .map(pair => `${pair.roomIds.find(id => id !== room.id)}${pair.connected ? " (door)" : ""}`);
+      const openings = geometry.openings.filter(opening => opening.roomIds.includes(room.id));
+      const exteriorDoors = openings.filter(opening => opening.kind === "door" && opening.roomIds.length === 1).length;
+      const windows = openings.filter(opening => opening.kind === "window").length;
+
+      return [
+        `- ${room.id} "${room.label}" at (${center})`,
+        room.dimensions && `area ${formatArea(room.dimensions.area, context.unitSystem)}`,
+        `${windows} window(s)`,
+        exteriorDoors > 0 && `${exteriorDoors} exterior door(s)`,
+        neighbours.length > 0 && `next to ${neighbours.join(", ")}`,
+      ].filter(Boolean).join(", ");
+    }).join("\n            ");
+
+    return this.render(context, "analysis-geometry", { roomLines });
+  }
+
+  /**
+   * Creates the prompt for the repair pass
+   * 
+   * @private
+   * @param {string | null} content - The output that failed validation
+   * @param {SchemaFieldError[]} errors - The validation errors
+   * @returns {string} The repair prompt
+   */
+  private createRepairPrompt(content: string | null, errors: SchemaFieldError[]): string {
+    return `
+                Your previous answer did not match the required JSON format.
+
+                Previous answer:
+                ${content ?? "(empty)"}
+
+                Validation errors:
+                ${formatSchemaErrors(errors)}
+
+                Look at the image again and return the corrected JSON analysis.
+                Keep the exact structure from the instructions and return NOTHING ELSE.
+                `;
+  }
+
+  /**
+   * Parses and validates the model response
+   * 
+   * @private
+   * @param {VisionResponse} response - The raw provider response
+   * @param {PromptContext} context - The rubric the scores are checked against and the unit system
+   * @returns {ParsedResponse} The analysis, a not-a-floor-plan answer or the validation errors
+   * 
+   * @throws {VisionProviderError} If the response was filtered
+   */
+  private parseResponse(response: VisionResponse, { rubric, unitSystem }: PromptContext): ParsedResponse {
+    if (response.finishReason === "content_filter") {
+      throw new VisionProviderError("The response was filtered due to content restrictions");
+    }
+
+    if (response.finishReason === "length") {
+      return { kind: "invalid", errors: [{ path: "", message: "response was cut off, keep it shorter" }] };
+    }
+
+    if (!response.content) {
+      return { kind: "invalid", errors: [{ path: "", message: "response is empty" }] };
+    }
+
+    let parsedAnalysis: RawAnalysisResponse;
+    try {
+      parsedAnalysis = JSON.parse(response.content);
+    } catch {
+      return { kind: "invalid", errors: [{ path: "", message: "response is not valid JSON" }] };
+    }
+
+    if (parsedAnalysis?.isFloorPlan === false) {
+      return {
+        kind: "not_floor_plan",
+        reason: parsedAnalysis.reason || "The image does not look like a floor plan",
+      };
+    }
+
+    const result = validateFloorPlanAnalysis(parsedAnalysis, rubric);
+    return result.success
+      ? { kind: "analysis", analysis: { ...result.data, unitSystem } }
+      : { kind: "invalid", errors: result.errors };
+  }
+
+  /**
+   * Returns the vision provider, creating it on first use
+   * 
+   * @private
+   * @returns {VisionProvider} The configured vision provider
+   */
+  private getProvider(): VisionProvider {
+    if (!this.provider) {
+      this.provider = this.providerFactory();
     }
+    return this.provider;
   }
 
   /**
    * Checks if the request should be retried given the error
    * 
    * @private
-   * @param {any} error - The error object
+   * @param {unknown} error - The error object
    * @returns {boolean} True, if the request should be retried
    */
-  private shouldRetry(error: any): boolean {
-    return error instanceof OpenAI.APIError
-      ? (error.status === 429 || error.status === 500)
-      : false;
+  private shouldRetry(error: unknown): boolean {
+    return error instanceof VisionProviderError && error.retryable;
   }
 
   /**
@@ -182,15 +888,15 @@ class AiAnalyzerService {
    * Logs errors
    * 
    * @private
-   * @param {any} error - The error object to log
+   * @param {unknown} error - The error object to log
    */
-  private loggerError(error: any) {
+  private loggerError(error: unknown) {
     console.log("AI Analyzer Error: ")
-    if (error instanceof OpenAI.APIError) {
+    if (error instanceof VisionProviderError) {
       console.log({
         message: error.message,
-        code: error.code,
-        type: error.type,
+        provider: this.provider?.name,
+        model: this.provider?.model,
         status: error.status,
       });
     } else {
@@ -199,36 +905,29 @@ class AiAnalyzerService {
   }
 
   /**
-   * Checks if the scores are valid
+   * Converts an error into a failed analysis outcome
    * 
    * @private
-   * @param {Record<string, number>} scores - The object with the scores
-   * @returns {boolean} True, if all scores are valid
+   * @param {unknown} error - The error that ended the analysis
+   * @returns {AnalysisOutcome} The failed outcome
    */
-  private areaScoreValid(scores: Record<string, number>) {
-    return Object.values(scores).every(score =>
-      typeof score === "number" &&
-      score >= 0 &&
-      score <= 100
-    );
-  }
+  private failureOutcome(error: unknown): AnalysisOutcome {
+    const message = error instanceof Error ? error.message : "Unknown error";
 
-  /**
-   * Returns an empty response
-   * 
-   * @returns {FloorPlanAnalysis} The empty response
-   */
-  private emptyResponse(): FloorPlanAnalysis {
-    return {
-      scores: { lighting: 0, space: 0, flow: 0, accessibility: 0 },
-      recommendations: []
-    };
+    if (error instanceof VisionTimeoutError || error instanceof DeadlineExceededError) {
+      return { status: "timeout", message };
+    }
+
+    if (error instanceof InvalidOutputError) {
+      return { status: "invalid_output", message, errors: error.errors };
+    }
+
+    return { status: "provider_error", message };
   }
 }
 
 // Export the instance of the service
+// The provider is resolved from the environment on the first analysis
 export const aiAnalyzerService = new AiAnalyzerService(
-  new OpenAI({
-    apiKey: process.env.OPENAI_API_KEY,
-  })
+  () => createVisionProvider(getVisionProviderConfig())
 );
\ No newline at end of file
@@ -1,5 +1,10 @@
 import OpenAI from "openai";
-import { FloorPlanAnalysis } from "@/types/floor-analysis";
+import { FloorPlanAnalysis, UnitSystem } from "@/types/floor-analysis";
+import { PropertyChatContext } from "@/types/property";
+import { ComparisonChatContext } from "@/types/comparison";
+import { PromptUsage, RenderedPrompt } from "@/types/prompt";
+import { ChatReply } from "@/types/chat";
+import { renderPrompt } from "@/lib/prompts";
 
 // Check if the OpenAI API key is set
 if (!process.env.OPENAI_API_KEY) {
@@ -18,6 +23,22 @@ interface ChatMessage {
   text: string;
 }
 
+/**
+ * System prompt of a conversation with the prompt versions it was rendered from
+ */
+type SystemPrompt = {
+  text: string;
+  prompts: PromptUsage[];
+}
+
+
+/**
+ * Prompt instructions for answering in each unit system
+ */
+const UNIT_INSTRUCTIONS: Record<UnitSystem, string> = {
+  metric: "Give every measurement in metric units (cm, m, m²).",
+  imperial: "Give every measurement in imperial units (inches, feet, sq ft). Room dimensions in the analysis are stored in meters, convert them.",
+};
 
 /**
  * Service for managing chat interactions with AI for floor plan analysis
@@ -35,20 +56,30 @@ class AiChatService {
   /**
    * Generates the assistant's response to the user's message
    * 
+   * Aborting `signal` cancels the request to OpenAI and skips the retries.
+   * The system prompt is rendered from the prompt registry; the variants are
+   * assigned by the analysis, so a conversation keeps its prompt versions.
+   * 
    * @param {string} message - The user's message
    * @param {Object} context - The conversation context
    * @param {FloorPlanAnalysis} context.analysis - The results of the floor plan analysis
    * @param {ChatMessage[]} context.previousMessages - The history of previous messages
+   * @param {UnitSystem} [context.unitSystem] - The units for the answer, defaults to the unit system of the analysis
+   * @param {PropertyChatContext} [context.property] - All floors of the property, if there are several
+   * @param {ComparisonChatContext} [context.comparison] - The existing layout, the proposal and their diff
+   * @param {AbortSignal} [signal] - Cancels the response, usually the signal of the request
    * @param {number} retryCount - The number of attempts (for internal use)
-   * @returns {Promise<string>} The assistant's response
+   * @returns {Promise<ChatReply>} The assistant's response and the prompt versions it used
    * 
    * @throws {Error} Error when the response generation fails
+   * @throws {OpenAI.APIUserAbortError} When the signal is aborted
    * 
    * @example
    * ```typescript
    * const response = await aiChatService.generateResponse(
    *   "Tell me about the lighting in the living room",
-   *   { analysis, previousMessages }
+   *   { analysis, previousMessages },
+   *   req.signal
    * );
    * ```
    */
@@ -57,23 +88,35 @@ class AiChatService {
     context: {
       analysis: FloorPlanAnalysis;
       previousMessages: ChatMessage[];
+      unitSystem?: UnitSystem;
+      property?: PropertyChatContext;
+      comparison?: ComparisonChatContext;
     },
+    signal?: AbortSignal,
     retryCount = 0
-  ): Promise<string> {
+  ): Promise<ChatReply> {
     try {
+      const systemPrompt = context.comparison
+        ? this.createComparisonPrompt(
+          context.comparison,
+          context.unitSystem ?? context.comparison.after.unitSystem ?? "metric"
+        )
+        : this.createSystemPrompt(
+          context.analysis,
+          context.unitSystem ?? context.analysis.unitSystem ?? "metric",
+          context.property
+        );
+
       const response = await this.openai.chat.completions.create({
         model: "gpt-4o",
         messages: [
-          {
-            role: "system",
-            content: this.createSystemPrompt(context.analysis)
-          },
+          { role: "system", content: systemPrompt.text },
           ...this.formatPreviousMessages(context.previousMessages),
           { role: "user", content: message }
         ],
         max_tokens: 2000,
         temperature: 0.7,
-      });
+      }, { signal });
 
       // Проверки ответа
       if (!response.choices || response.choices.length === 0) {
@@ -94,12 +137,17 @@ class AiChatService {
         throw new Error("Empty response received");
       }
 
-      return content;
+      return { text: content, prompts: systemPrompt.prompts };
 
     } catch (error) {
+      // Nobody waits for the answer any more
+      if (error instanceof OpenAI.APIUserAbortError) {
+        throw error;
+      }
+
       if (retryCount < this.MAX_RETRIES && this.shouldRetry(error)) {
         await this.delay(this.RETRY_DELAY * (retryCount + 1));
-        return this.generateResponse(message, context, retryCount + 1);
+        return this.generateResponse(message, context, signal, retryCount + 1);
       }
       this.logError(error);
       throw error;
@@ -114,21 +162,93 @@ class AiChatService {
    * Creates the system prompt for the OpenAI API
    * 
    * @param {FloorPlanAnalysis} analysis - The floor plan analysis
-   * @returns {string} The system prompt
+   * @param {UnitSystem} unitSystem - The units for measurements in the answers
+   * @param {PropertyChatContext} [property] - All floors of the property, if there are several
+   * @returns {SystemPrompt} The system prompt and its prompt versions
+   */
+  private createSystemPrompt(
+    analysis: FloorPlanAnalysis,
+    unitSystem: UnitSystem,
+    property?: PropertyChatContext
+  ): SystemPrompt {
+    // Switching floors keeps the variant of the property
+    const key = this.getPromptKey(property?.floors[0]?.analysis ?? analysis);
+
+    if (property) {
+      const instructions = this.createInstructions(unitSystem, key, [
+        `Say which floor you are talking about, questions without a floor are about the ${property.activeFloor}`,
+        "Use the property-level findings for questions about stairs and moving between floors",
+      ]);
+      const { text, usage } = renderPrompt("chat-property", {
+        floorCount: String(property.floors.length),
+        activeFloor: property.activeFloor,
+        floorAnalyses: property.floors.map(floor => `${floor.label} analysis:
+    ${JSON.stringify(floor.analysis, null, 2)}`).join("\n\n    "),
+        summary: JSON.stringify(property.summary, null, 2),
+        instructions: instructions.text,
+      }, { key });
+
+      return { text, prompts: [usage, instructions.usage] };
+    }
+
+    const instructions = this.createInstructions(unitSystem, key);
+    const { text, usage } = renderPrompt("chat-plan", {
+      analysis: JSON.stringify(analysis, null, 2),
+      instructions: instructions.text,
+    }, { key });
+
+    return { text, prompts: [usage, instructions.usage] };
+  }
+
+  /**
+   * Creates the system prompt for comparing an existing layout with a proposal
+   * 
+   * @param {ComparisonChatContext} comparison - Both analyses and their diff
+   * @param {UnitSystem} unitSystem - The units for measurements in the answers
+   * @returns {SystemPrompt} The system prompt and its prompt versions
+   */
+  private createComparisonPrompt(comparison: ComparisonChatContext, unitSystem: UnitSystem): SystemPrompt {
+    const key = this.getPromptKey(comparison.after);
+    const instructions = this.createInstructions(unitSystem, key, [
+      "Base answers about what got better or worse on the score deltas and the resolved and new findings",
+      "Say which plan you are talking about, the existing layout or the proposal",
+    ]);
+    const { text, usage } = renderPrompt("chat-comparison", {
+      before: JSON.stringify(comparison.before, null, 2),
+      after: JSON.stringify(comparison.after, null, 2),
+      diff: JSON.stringify(comparison.diff, null, 2),
+      instructions: instructions.text,
+    }, { key });
+
+    return { text, prompts: [usage, instructions.usage] };
+  }
+
+  /**
+   * Returns the key assigning the prompt variants of a conversation
+   * 
+   * Built from the scores and findings, which stay the same when the
+   * user sets the scale or switches units.
+   * 
+   * @param {FloorPlanAnalysis} analysis - The analysis the conversation is about
+   * @returns {string} The key
+   */
+  private getPromptKey({ scores, recommendations }: FloorPlanAnalysis): string {
+    return JSON.stringify([scores, recommendations]);
+  }
+
+  /**
+   * Creates the answering instructions shared by single plans, properties and comparisons
+   *
+   * @param {UnitSystem} unitSystem - The units for measurements in the answers
+   * @param {string} key - Assigns the prompt variant, the analysis the conversation is about
+   * @param {string[]} [extra=[]] - Additional points on using the analysis
+   * @returns {RenderedPrompt} The instructions of the system prompt and their prompt version
    */
-  private createSystemPrompt(analysis: FloorPlanAnalysis): string {
-    return `You are an expert in analyzing floor plans, analyzing the following plan:
-
-    Floor plan analysis:
-    ${JSON.stringify(analysis, null, 2)}
-
-    Answer the user's questions ONLY in the context of this plan and the provided analysis.
-    If the question is not related to the plan or analysis, politely redirect the conversation back to the plan topic.
-    
-    Use specific data from the analysis in your answers:
-    - Refer to specific assessments (lighting, space, etc.)
-    - Mention specific recommendations for rooms
-    - Give practical advice based on the analysis`;
+  private createInstructions(unitSystem: UnitSystem, key: string, extra: string[] = []): RenderedPrompt {
+    return renderPrompt("chat-instructions", {
+      extraPoints: extra.map(point => `- ${point}\n    `).join(""),
+      unitInstructions: UNIT_INSTRUCTIONS[unitSystem],
+    }, { key });
   }
 
 
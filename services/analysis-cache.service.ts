@@ -0,0 +1,203 @@
+import { createHash } from "crypto";
+import path from "path";
+import { FloorPlanAnalysis } from "@/types/floor-analysis";
+import { AnalysisCacheBackend, AnalysisCacheBackendName } from "@/types/analysis-cache";
+import { MemoryCacheBackend } from "@/services/cache/memory-cache.backend";
+import { DiskCacheBackend } from "@/services/cache/disk-cache.backend";
+
+const BACKEND_NAMES: AnalysisCacheBackendName[] = ["memory", "disk", "off"];
+
+/**
+ * Interface for the cache configuration
+ *
+ * @interface AnalysisCacheConfig
+ * @property {AnalysisCacheBackendName} backend - Where entries are stored
+ * @property {number} ttlSeconds - How long an entry stays valid
+ * @property {number} maxEntries - The capacity of the in-memory backend
+ * @property {string} directory - The directory of the on-disk backend
+ */
+export interface AnalysisCacheConfig {
+  backend: AnalysisCacheBackendName;
+  ttlSeconds: number;
+  maxEntries: number;
+  directory: string;
+}
+
+/**
+ * Reads a positive number from the environment
+ *
+ * @param {string | undefined} value - The raw value
+ * @param {number} fallback - The value used when it is missing or invalid
+ * @returns {number} The number
+ */
+const positiveNumber = (value: string | undefined, fallback: number): number => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+/**
+ * Reads the analysis cache configuration from the environment
+ *
+ * - `ANALYSIS_CACHE` - memory (default), disk or off
+ * - `ANALYSIS_CACHE_TTL` - entry lifetime in seconds (default 86400)
+ * - `ANALYSIS_CACHE_MAX_ENTRIES` - capacity of the memory cache (default 200)
+ * - `ANALYSIS_CACHE_DIR` - directory of the disk cache (default .cache/analysis)
+ *
+ * @returns {AnalysisCacheConfig} The cache configuration
+ * @throws {Error} If `ANALYSIS_CACHE` is not a known backend
+ */
+export const getAnalysisCacheConfig = (): AnalysisCacheConfig => {
+  const backend = (process.env.ANALYSIS_CACHE || "memory") as AnalysisCacheBackendName;
+
+  if (!BACKEND_NAMES.includes(backend)) {
+    throw new Error(
+      `Unknown ANALYSIS_CACHE "${backend}". Expected one of: ${BACKEND_NAMES.join(", ")}`
+    );
+  }
+
+  return {
+    backend,
+    ttlSeconds: positiveNumber(process.env.ANALYSIS_CACHE_TTL, 24 * 60 * 60),
+    maxEntries: positiveNumber(process.env.ANALYSIS_CACHE_MAX_ENTRIES, 200),
+    directory: process.env.ANALYSIS_CACHE_DIR || path.join(process.cwd(), ".cache", "analysis"),
+  };
+};
+
+/**
+ * Creates the cache backend described by the configuration
+ *
+ * @param {AnalysisCacheConfig} config - The cache configuration
+ * @returns {AnalysisCacheBackend | null} The backend, or null when caching is off
+ */
+export const createAnalysisCacheBackend = (config: AnalysisCacheConfig): AnalysisCacheBackend | null => {
+  switch (config.backend) {
+    case "memory":
+      return new MemoryCacheBackend(config.maxEntries);
+    case "disk":
+      return new DiskCacheBackend(config.directory);
+    case "off":
+      return null;
+  }
+};
+
+/**
+ * Service for caching analyses of identical images
+ *
+ * @class AnalysisCacheService
+ * @description Stores successful analyses under a key derived from the image bytes
+ * and the analyzer version, so a repeated upload does not call the model again.
+ * Cache failures are logged and treated as misses, they never fail an analysis.
+ */
+class AnalysisCacheService {
+  constructor(
+    private readonly backend: AnalysisCacheBackend | null,
+    private readonly ttlSeconds: number
+  ) { }
+
+  /**
+   * Whether a backend is configured
+   */
+  get enabled(): boolean {
+    return this.backend !== null;
+  }
+
+  /**
+   * Creates the cache key for an image
+   *
+   * @param {ArrayBuffer} bytes - The uploaded image bytes
+   * @param {string} version - The analyzer version (prompt, rubric, model and mode)
+   * @returns {string} The hex SHA-256 key
+   *
+   * @example
+   * ```typescript
+   * const key = analysisCacheService.createKey(bytes, aiAnalyzerService.getVersion({ mode }));
+   * ```
+   */
+  createKey(bytes: ArrayBuffer, version: string): string {
+    return createHash("sha256")
+      .update(version)
+      .update("\0")
+      .update(Buffer.from(bytes))
+      .digest("hex");
+  }
+
+  /**
+   * Returns the cached analysis, dropping it if it has expired
+   *
+   * @param {string} key - The cache key
+   * @returns {Promise<FloorPlanAnalysis | null>} The analysis or null on a miss
+   */
+  async get(key: string): Promise<FloorPlanAnalysis | null> {
+    if (!this.backend) return null;
+
+    try {
+      const entry = await this.backend.get(key);
+      if (!entry) return null;
+
+      if (entry.expiresAt <= Date.now()) {
+        await this.backend.delete(key);
+        return null;
+      }
+
+      return entry.analysis;
+    } catch (error) {
+      console.error("Analysis cache get error:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Stores the analysis for the TTL
+   *
+   * @param {string} key - The cache key
+   * @param {FloorPlanAnalysis} analysis - The analysis to store
+   */
+  async set(key: string, analysis: FloorPlanAnalysis): Promise<void> {
+    if (!this.backend) return;
+
+    const createdAt = Date.now();
+    try {
+      await this.backend.set(key, {
+        analysis,
+        createdAt,
+        expiresAt: createdAt + this.ttlSeconds * 1000,
+      });
+    } catch (error) {
+      console.error("Analysis cache set error:", error);
+    }
+  }
+
+  /**
+   * Removes one cached analysis
+   *
+   * @param {string} key - The cache key
+   * @returns {Promise<boolean>} True, if an entry was removed
+   */
+  async invalidate(key: string): Promise<boolean> {
+    if (!this.backend) return false;
+    return this.backend.delete(key);
+  }
+
+  /**
+   * Removes all cached analyses
+   */
+  async clear(): Promise<void> {
+    await this.backend?.clear();
+  }
+}
+
+// The memory cache must outlive module reloads in development and be shared by every route bundle
+const globalForCache = globalThis as typeof globalThis & { analysisCacheService?: AnalysisCacheService };
+
+/**
+ * Creates the cache service from the environment
+ *
+ * @returns {AnalysisCacheService} The service with the configured backend
+ */
+const createAnalysisCacheService = (): AnalysisCacheService => {
+  const cacheConfig = getAnalysisCacheConfig();
+  return new AnalysisCacheService(createAnalysisCacheBackend(cacheConfig), cacheConfig.ttlSeconds);
+};
+
+// Export the instance of the service
+export const analysisCacheService = globalForCache.analysisCacheService ??= createAnalysisCacheService();
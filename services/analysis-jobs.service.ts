@@ -0,0 +1,342 @@
+import { randomUUID } from "crypto";
+import { AnalysisJob, AnalysisRequest } from "@/types/analysis-job";
+import { getProgressPercent } from "@/lib/analysis-progress";
+import { createDeadline } from "@/lib/deadline";
+import { analysisRunnerService } from "@/services/analysis-runner.service";
+
+/**
+ * Listener for the changes of one job
+ */
+type JobListener = (job: AnalysisJob) => void;
+
+/**
+ * A job with what the worker needs: the upload (until the job runs), the listeners
+ * and the controller that cancels the analysis
+ */
+type JobEntry = {
+  job: AnalysisJob;
+  request: AnalysisRequest | null;
+  listeners: Set<JobListener>;
+  controller: AbortController;
+};
+
+/**
+ * Result of a job cancelled by the client (499, client closed request)
+ * @constant {AnalysisJob["result"]} CANCELLED_RESULT
+ */
+const CANCELLED_RESULT: AnalysisJob["result"] = { status: 499, error: "The analysis was cancelled" };
+
+/**
+ * Error thrown when the queue has no room for another job
+ *
+ * @class JobQueueFullError
+ * @extends Error
+ * @property {number} retryAfterSeconds - When to try again
+ */
+export class JobQueueFullError extends Error {
+  constructor(public retryAfterSeconds: number) {
+    super("Too many analyses are waiting, please try again later");
+    this.name = "JobQueueFullError";
+  }
+}
+
+/**
+ * Reads a positive whole number from the environment
+ *
+ * @param {string | undefined} value - The raw value
+ * @param {number} fallback - The value used when it is missing or invalid
+ * @returns {number} The number
+ */
+const positiveInteger = (value: string | undefined, fallback: number): number => {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+/**
+ * Service for running analyses as background jobs
+ *
+ * @class AnalysisJobsService
+ * @description Keeps an in-process queue of analysis jobs worked through by a
+ * limited number of workers, so long analyses are not tied to one HTTP request.
+ * Jobs are kept in memory: they do not survive a server restart, and finished
+ * jobs are dropped after `ANALYSIS_JOB_TTL` seconds. A running job has
+ * `ANALYSIS_JOB_DEADLINE` seconds before it ends with a `timeout` outcome,
+ * the time in the queue does not count.
+ * Every queued job holds its upload and every finished job its result, so at
+ * most `ANALYSIS_JOB_MAX_QUEUED` jobs wait and `ANALYSIS_JOB_MAX_FINISHED`
+ * finished jobs are kept, the oldest are dropped first.
+ */
+class AnalysisJobsService {
+  private readonly jobs = new Map<string, JobEntry>();
+  // Ids of the queued jobs, first in first out
+  private readonly queue: string[] = [];
+  private running = 0;
+  // Seconds a client is asked to wait when the queue is full
+  private readonly RETRY_AFTER = 30;
+
+  constructor(
+    private readonly concurrency: number,
+    private readonly ttlSeconds: number,
+    private readonly deadlineSeconds: number,
+    private readonly maxQueued: number,
+    private readonly maxFinished: number
+  ) { }
+
+  /**
+   * Queues the analysis of a validated request
+   *
+   * @param {AnalysisRequest} request - The file and the analysis options
+   * @returns {AnalysisJob} The new job
+   *
+   * @throws {JobQueueFullError} If `maxQueued` jobs are already waiting
+   *
+   * @example
+   * ```typescript
+   * const job = analysisJobsService.submit(request);
+   * return NextResponse.json({ job }, { status: 202 });
+   * ```
+   */
+  submit(request: AnalysisRequest): AnalysisJob {
+    this.prune();
+    if (this.queue.length >= this.maxQueued) {
+      throw new JobQueueFullError(this.RETRY_AFTER);
+    }
+
+    const now = Date.now();
+    const entry: JobEntry = {
+      job: {
+        id: randomUUID(),
+        status: "queued",
+        stage: "queued",
+        progress: getProgressPercent({ stage: "queued" }),
+        createdAt: now,
+        updatedAt: now,
+      },
+      request,
+      listeners: new Set(),
+      controller: new AbortController(),
+    };
+
+    this.jobs.set(entry.job.id, entry);
+    this.queue.push(entry.job.id);
+    this.pump();
+
+    return this.snapshot(entry);
+  }
+
+  /**
+   * Returns the current state of a job
+   *
+   * @param {string} id - The job id
+   * @returns {AnalysisJob | null} The job, or null if it is unknown or expired
+   */
+  get(id: string): AnalysisJob | null {
+    this.prune();
+    const entry = this.jobs.get(id);
+    return entry ? this.snapshot(entry) : null;
+  }
+
+  /**
+   * Calls the listener on every change of a job until it is finished
+   *
+   * @param {string} id - The job id
+   * @param {JobListener} listener - Called with the job after each change
+   * @returns {(() => void) | null} Removes the listener, or null if the job is unknown
+   */
+  subscribe(id: string, listener: JobListener): (() => void) | null {
+    const entry = this.jobs.get(id);
+    if (!entry) return null;
+
+    entry.listeners.add(listener);
+    return () => {
+      entry.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Cancels a job that is not finished yet
+   *
+   * A queued job leaves the queue, a running job has its requests to the
+   * vision provider aborted. Either way the job is finished at once with a 499
+   * result, and nothing is cached for it. Finished jobs are left as they are.
+   *
+   * @param {string} id - The job id
+   * @returns {AnalysisJob | null} The job, or null if it is unknown or expired
+   *
+   * @example
+   * ```typescript
+   * const job = analysisJobsService.cancel(id);
+   * if (job?.status === "cancelled") console.log("cancelled");
+   * ```
+   */
+  cancel(id: string): AnalysisJob | null {
+    const entry = this.jobs.get(id);
+    if (!entry) return null;
+    if (this.isFinished(entry.job)) return this.snapshot(entry);
+
+    const queued = this.queue.indexOf(id);
+    if (queued >= 0) {
+      this.queue.splice(queued, 1);
+      entry.request = null;
+    }
+
+    // The worker keeps its slot until the aborted requests have returned
+    entry.controller.abort();
+    this.update(entry, { status: "cancelled", partial: undefined, result: CANCELLED_RESULT });
+    entry.listeners.clear();
+
+    // The jobs behind a cancelled queued job moved up
+    if (queued >= 0) this.pump();
+
+    return this.snapshot(entry);
+  }
+
+  /**
+   * Starts queued jobs while fewer than the configured number run
+   *
+   * @private
+   */
+  private pump(): void {
+    while (this.running < this.concurrency && this.queue.length > 0) {
+      const entry = this.jobs.get(this.queue.shift() as string);
+      if (entry?.request) {
+        void this.execute(entry, entry.request);
+      }
+    }
+
+    // The jobs still waiting moved up in the queue
+    this.queue.forEach(id => {
+      const entry = this.jobs.get(id);
+      if (entry) this.notify(entry);
+    });
+  }
+
+  /**
+   * Runs one job and stores its result
+   *
+   * @private
+   * @param {JobEntry} entry - The job
+   * @param {AnalysisRequest} request - The upload and the analysis options
+   */
+  private async execute(entry: JobEntry, request: AnalysisRequest): Promise<void> {
+    this.running++;
+    // The upload is only needed by the worker, the finished job keeps the result
+    entry.request = null;
+    this.update(entry, { status: "running", stage: "preprocessing" });
+
+    try {
+      const { status, body } = await analysisRunnerService.run(request, {
+        onStage: stage => this.update(entry, { stage }),
+        onPartial: partial => this.update(entry, { partial }),
+      }, {
+        signal: entry.controller.signal,
+        deadline: createDeadline(this.deadlineSeconds * 1000),
+      });
+
+      // A cancelled job was already finished by `cancel`
+      if (entry.job.status === "cancelled") return;
+
+      // The result replaces the partial analysis
+      this.update(entry, {
+        status: status >= 200 && status < 300 ? "done" : "failed",
+        progress: 100,
+        partial: undefined,
+        result: { status, ...body },
+      });
+    } finally {
+      entry.listeners.clear();
+      this.running--;
+      this.pump();
+    }
+  }
+
+  /**
+   * Changes a job and tells its listeners
+   *
+   * @private
+   * @param {JobEntry} entry - The job
+   * @param {Partial<AnalysisJob>} changes - The changed fields, the progress follows the stage unless given
+   */
+  private update(entry: JobEntry, changes: Partial<AnalysisJob>): void {
+    // Late stages of a cancelled analysis are dropped
+    if (entry.job.status === "cancelled") return;
+
+    const stage = changes.stage ?? entry.job.stage;
+    entry.job = {
+      ...entry.job,
+      progress: getProgressPercent({ stage }),
+      ...changes,
+      updatedAt: Date.now(),
+    };
+    this.notify(entry);
+  }
+
+  /**
+   * Sends the current state of a job to its listeners
+   *
+   * @private
+   * @param {JobEntry} entry - The job
+   */
+  private notify(entry: JobEntry): void {
+    if (entry.listeners.size === 0) return;
+
+    const job = this.snapshot(entry);
+    entry.listeners.forEach(listener => listener(job));
+  }
+
+  /**
+   * Returns the public state of a job, with its place in the queue while it waits
+   *
+   * @private
+   * @param {JobEntry} entry - The job
+   * @returns {AnalysisJob} The job
+   */
+  private snapshot(entry: JobEntry): AnalysisJob {
+    if (entry.job.status !== "queued") return entry.job;
+    return { ...entry.job, position: this.queue.indexOf(entry.job.id) };
+  }
+
+  /**
+   * Checks if a job has its result
+   *
+   * @private
+   * @param {AnalysisJob} job - The job
+   * @returns {boolean} True for done, failed and cancelled jobs
+   */
+  private isFinished(job: AnalysisJob): boolean {
+    return job.status === "done" || job.status === "failed" || job.status === "cancelled";
+  }
+
+  /**
+   * Drops the finished jobs older than the TTL, and the oldest ones beyond `maxFinished`
+   *
+   * @private
+   */
+  private prune(): void {
+    const expiredBefore = Date.now() - this.ttlSeconds * 1000;
+
+    for (const [id, entry] of this.jobs) {
+      if (this.isFinished(entry.job) && entry.job.updatedAt < expiredBefore) {
+        this.jobs.delete(id);
+      }
+    }
+
+    const finished = Array.from(this.jobs.values())
+      .filter(entry => this.isFinished(entry.job))
+      .sort((a, b) => a.job.updatedAt - b.job.updatedAt);
+    finished.slice(0, Math.max(0, finished.length - this.maxFinished))
+      .forEach(entry => this.jobs.delete(entry.job.id));
+  }
+}
+
+// The jobs must outlive module reloads in development and be shared by every route bundle
+const globalForJobs = globalThis as typeof globalThis & { analysisJobsService?: AnalysisJobsService };
+
+// Export the instance of the service
+export const analysisJobsService = globalForJobs.analysisJobsService ??= new AnalysisJobsService(
+  positiveInteger(process.env.ANALYSIS_JOB_CONCURRENCY, 2),
+  positiveInteger(process.env.ANALYSIS_JOB_TTL, 60 * 60),
+  positiveInteger(process.env.ANALYSIS_JOB_DEADLINE, 5 * 60),
+  positiveInteger(process.env.ANALYSIS_JOB_MAX_QUEUED, 20),
+  positiveInteger(process.env.ANALYSIS_JOB_MAX_FINISHED, 100)
+);
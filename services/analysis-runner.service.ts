@@ -0,0 +1,343 @@
+import { createHash } from "crypto";
+import { aiAnalyzerService } from "@/services/ai-analyzer.service";
+import { analysisCacheService } from "@/services/analysis-cache.service";
+import { imagePreprocessorService } from "@/services/image-preprocessor.service";
+import { PdfRenderError, pdfRendererService } from "@/services/pdf-renderer.service";
+import { VectorPlanError, vectorPlanService } from "@/services/vector-plan.service";
+import { AnalysisMode, AnalysisOutcome, UnitSystem } from "@/types/floor-analysis";
+import { ProcessedImage } from "@/types/image-preprocessing";
+import { VectorGeometry } from "@/types/vector-plan";
+import { AnalysisListeners, AnalysisRequest, AnalysisResult } from "@/types/analysis-job";
+import { UNIT_SYSTEMS } from "@/lib/floor-plan-schema";
+import { getVectorFormat } from "@/lib/vector-plan";
+import { Deadline, DeadlineExceededError } from "@/lib/deadline";
+
+/**
+ * Constants for file validation
+ * @constant {number} MAX_FILE_SIZE - The maximum file size (5MB)
+ * @constant {number} MAX_PDF_SIZE - The maximum PDF, DXF or SVG size (10MB), drawings with many vectors are larger
+ * @constant {string[]} ALLOWED_FILE_TYPES - Allowed file types, DXF and SVG drawings are detected separately
+ */
+const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
+const MAX_PDF_SIZE = 10 * 1024 * 1024; // 10MB
+const ALLOWED_FILE_TYPES = ["image/jpeg", "image/png", "image/webp", "application/pdf"];
+
+/**
+ * Analysis modes accepted in the `mode` form field
+ * @constant {AnalysisMode[]} ANALYSIS_MODES
+ */
+const ANALYSIS_MODES: AnalysisMode[] = ["standard", "high_fidelity"];
+
+/**
+ * Maximum value of the `samples` form field
+ * @constant {number} MAX_SAMPLES
+ */
+const MAX_SAMPLES = 5;
+
+/**
+ * HTTP status codes for each analysis outcome
+ * @constant {Record<AnalysisOutcome["status"], number>} OUTCOME_STATUS_CODES
+ */
+const OUTCOME_STATUS_CODES: Record<AnalysisOutcome["status"], number> = {
+  ok: 200,
+  not_floor_plan: 422, // Unprocessable entity
+  invalid_output: 502, // Bad gateway
+  provider_error: 502, // Bad gateway
+  timeout: 504, // Gateway timeout
+};
+
+/**
+ * Result of an analysis cancelled by the client (499, client closed request)
+ * @constant {AnalysisResult} CANCELLED_RESULT
+ */
+const CANCELLED_RESULT: AnalysisResult = { status: 499, body: { error: "The analysis was cancelled" } };
+
+/**
+ * Options of one run: the signal that cancels it and its time budget
+ */
+type RunOptions = {
+  signal?: AbortSignal;
+  deadline?: Deadline;
+};
+
+/**
+ * The request read from the form fields, or the error response for invalid fields
+ */
+type ReadRequestResult =
+  | { ok: true; request: AnalysisRequest }
+  | { ok: false; result: AnalysisResult };
+
+/**
+ * Service for running floor plan analyses
+ *
+ * @class AnalysisRunnerService
+ * @description Reads and validates analysis requests and runs the whole pipeline:
+ * PDF rendering or drawing ingestion, preprocessing, the cache and the model.
+ * Shared by `/api/analyze` and the analysis jobs, so both answer alike.
+ */
+class AnalysisRunnerService {
+  /**
+   * Reads the file and the analysis options from the form fields
+   *
+   * @param {FormData} formData - The form data of the request
+   * @returns {ReadRequestResult} The request, or the error response (400, 413 or 415)
+   *
+   * @example
+   * ```typescript
+   * const read = analysisRunnerService.readRequest(await req.formData());
+   * if (!read.ok) return NextResponse.json(read.result.body, { status: read.result.status });
+   * ```
+   */
+  readRequest(formData: FormData): ReadRequestResult {
+    const file = formData.get("file") as File;
+
+    // Check if the file is present
+    if (!file) {
+      return this.reject(400, "No file uploaded");
+    }
+
+    // Check if the analysis mode is supported
+    const mode = (formData.get("mode") ?? "standard") as AnalysisMode;
+    if (!ANALYSIS_MODES.includes(mode)) {
+      return this.reject(400, `Unknown analysis mode. Expected one of: ${ANALYSIS_MODES.join(", ")}`);
+    }
+
+    // Check the number of ensemble samples, the server default applies when it is missing
+    const samplesField = formData.get("samples");
+    const samples = samplesField === null ? undefined : Number(samplesField);
+    if (samples !== undefined && (!Number.isInteger(samples) || samples < 1 || samples > MAX_SAMPLES)) {
+      return this.reject(400, `Samples must be a whole number from 1 to ${MAX_SAMPLES}`);
+    }
+
+    // Check if the unit system is supported
+    const unitSystem = (formData.get("unitSystem") ?? "metric") as UnitSystem;
+    if (!UNIT_SYSTEMS.includes(unitSystem)) {
+      return this.reject(400, `Unknown unit system. Expected one of: ${UNIT_SYSTEMS.join(", ")}`);
+    }
+
+    // Check if the file type is supported
+    const vectorFormat = getVectorFormat(file);
+    if (!vectorFormat && !ALLOWED_FILE_TYPES.includes(file.type)) {
+      return this.reject(415, `File type ${file.type} not supported. Please upload JPEG, PNG, WebP, PDF, DXF or SVG`);
+    }
+
+    // Check if the file size exceeds the maximum limit
+    const isPdf = file.type === "application/pdf";
+    const isDrawing = isPdf || vectorFormat !== null;
+    if (file.size > (isDrawing ? MAX_PDF_SIZE : MAX_FILE_SIZE)) {
+      return this.reject(413, `File size too large. Maximum size is ${isDrawing ? "10MB" : "5MB"}`);
+    }
+
+    // Check the PDF page, the first page is analyzed by default
+    const page = Number(formData.get("page") ?? 1);
+    if (!Number.isInteger(page) || page < 1) {
+      return this.reject(400, "Page must be a whole number from 1");
+    }
+
+    // Log the file information
+    console.log("Processing file: ", {
+      name: file.name,
+      type: file.type,
+      size: `${(file.size / 1024 / 1024).toFixed(2)}MB`,
+      mode,
+      samples,
+      unitSystem,
+      page: isPdf ? page : undefined,
+      vectorFormat: vectorFormat ?? undefined,
+      timestamp: new Date().toISOString(),
+    });
+
+    return { ok: true, request: { file, mode, samples, unitSystem, page, isPdf, vectorFormat } };
+  }
+
+  /**
+   * Runs the analysis of a validated request
+   *
+   * Never throws: unexpected errors become a 500 result.
+   * Aborting `signal` cancels the model requests and gives a 499 result,
+   * nothing is cached for a cancelled analysis.
+   * The `deadline` covers the preprocessing and the model requests with their
+   * retries; when it runs out the result is a `timeout` outcome with a 504.
+   *
+   * @param {AnalysisRequest} request - The file and the analysis options
+   * @param {AnalysisListeners} [listeners] - Called with each stage and the partial analysis
+   * @param {RunOptions} [options] - The signal cancelling the analysis (usually the signal of the request) and its deadline
+   * @returns {Promise<AnalysisResult>} The response body with its status and cache headers
+   *
+   * @example
+   * ```typescript
+   * const deadline = createDeadline(25_000);
+   * const { status, body, headers } = await analysisRunnerService.run(request, {}, { signal: req.signal, deadline });
+   * ```
+   */
+  async run(
+    request: AnalysisRequest,
+    listeners: AnalysisListeners = {},
+    options: RunOptions = {}
+  ): Promise<AnalysisResult> {
+    try {
+      return await this.analyze(request, listeners, options);
+    } catch (error) {
+      return this.toErrorResult(error);
+    }
+  }
+
+  /**
+   * Logs an unexpected error and turns it into a 500 result
+   *
+   * An exceeded deadline is not unexpected: it becomes a `timeout` outcome with a 504.
+   *
+   * @param {unknown} error - The error
+   * @returns {AnalysisResult} The result with the error message, or the timeout outcome
+   */
+  toErrorResult(error: unknown): AnalysisResult {
+    if (error instanceof DeadlineExceededError) {
+      return { status: 504, body: { outcome: { status: "timeout", message: error.message } } };
+    }
+
+    console.error("Error processing request:", {
+      error: error instanceof Error ? error.message : "Unknown error",
+      timestamp: new Date().toISOString(),
+    });
+
+    // Determine the error message based on the environment
+    const errorMessage = process.env.NODE_ENV === 'development'
+      ? error instanceof Error ? error.message : 'Unknown error'
+      : 'An error occurred while processing your request';
+
+    return { status: 500, body: { error: errorMessage } }; // Internal server error
+  }
+
+  /**
+   * Prepares the image and analyzes it, returning the cached analysis when there is one
+   *
+   * @private
+   * @param {AnalysisRequest} request - The file and the analysis options
+   * @param {AnalysisListeners} listeners - Called with each stage and the partial analysis
+   * @param {RunOptions} options - The signal cancelling the analysis and its deadline
+   * @returns {Promise<AnalysisResult>} The response body with its status and cache headers
+   *
+   * @throws {DeadlineExceededError} When the deadline ran out before the model was asked
+   */
+  private async analyze(
+    { file, mode, samples, unitSystem, page, isPdf, vectorFormat }: AnalysisRequest,
+    { onStage = () => { }, onPartial }: AnalysisListeners,
+    { signal, deadline }: RunOptions
+  ): Promise<AnalysisResult> {
+    onStage("preprocessing");
+
+    // Rasterize PDFs at the size the analysis makes use of
+    const imageSize = aiAnalyzerService.getImageSize(mode);
+    let bytes = await file.arrayBuffer();
+    let type = file.type;
+
+    if (isPdf) {
+      try {
+        const png = await pdfRendererService.renderPage(bytes, page, imageSize);
+        bytes = png.buffer.slice(png.byteOffset, png.byteOffset + png.byteLength) as ArrayBuffer;
+        type = "image/png";
+      } catch (error) {
+        if (error instanceof PdfRenderError) {
+          return { status: 422, body: { error: error.message } };
+        }
+        throw error;
+      }
+    }
+
+    // Prepare the image for the model, the result is sent as a base64 data URL
+    // Drawings are rendered from their geometry, which is mapped onto the rendered image
+    let image: ProcessedImage;
+    let geometry: VectorGeometry | undefined;
+
+    if (vectorFormat) {
+      try {
+        ({ image, geometry } = await vectorPlanService.ingest(bytes, vectorFormat, imageSize));
+      } catch (error) {
+        if (error instanceof VectorPlanError) {
+          return { status: 422, body: { error: error.message } };
+        }
+        throw error;
+      }
+    } else {
+      try {
+        image = await imagePreprocessorService.process(bytes, type, imageSize);
+      } catch (error) {
+        console.error("Error preprocessing image:", error);
+        return { status: 422, body: { error: "The image could not be read" } };
+      }
+    }
+
+    // The same upload always gets the same prompt variants, so the cached analysis matches them
+    const promptKey = createHash("sha256").update(Buffer.from(bytes)).digest("hex");
+
+    // Return the cached analysis of an identical image, if there is one
+    const version = [
+      aiAnalyzerService.getVersion({ mode, samples, unitSystem, promptKey }),
+      vectorFormat ? vectorPlanService.getVersion(imageSize) : imagePreprocessorService.getVersion(imageSize),
+    ].join("|");
+    const cacheKey = analysisCacheService.createKey(bytes, version);
+    const cached = await analysisCacheService.get(cacheKey);
+
+    if (cached) {
+      const outcome: AnalysisOutcome = { status: "ok", analysis: cached, image };
+      return {
+        status: 200,
+        body: { outcome },
+        headers: { "X-Analysis-Cache": "HIT", "X-Analysis-Cache-Key": cacheKey },
+      };
+    }
+
+    // Nobody waits for the answer any more, skip the paid part
+    if (signal?.aborted) return CANCELLED_RESULT;
+    // The preprocessing used up the budget
+    deadline?.throwIfExpired();
+
+    // Run the analysis, every failure comes back as a typed outcome
+    onStage("analyzing");
+    const result = await aiAnalyzerService.analyzeImage(image.imageUrl, {
+      mode,
+      samples,
+      unitSystem,
+      geometry,
+      onStage,
+      onPartial,
+      signal,
+      deadline,
+      promptKey,
+    });
+
+    // The requests were cancelled, the outcome is only their failure
+    if (signal?.aborted) return CANCELLED_RESULT;
+
+    const outcome: AnalysisOutcome = result.status === "ok" ? { ...result, image } : result;
+
+    // Only successful analyses are cached, failures are retried on the next upload
+    if (outcome.status === "ok") {
+      await analysisCacheService.set(cacheKey, outcome.analysis);
+    }
+
+    return {
+      status: OUTCOME_STATUS_CODES[outcome.status],
+      body: { outcome },
+      headers: {
+        "X-Analysis-Cache": analysisCacheService.enabled ? "MISS" : "DISABLED",
+        "X-Analysis-Cache-Key": cacheKey,
+      },
+    };
+  }
+
+  /**
+   * Creates the result of an invalid request
+   *
+   * @private
+   * @param {number} status - The HTTP status
+   * @param {string} error - The error message
+   * @returns {ReadRequestResult} The rejected request
+   */
+  private reject(status: number, error: string): ReadRequestResult {
+    return { ok: false, result: { status, body: { error } } };
+  }
+}
+
+// Export the instance of the service
+export const analysisRunnerService = new AnalysisRunnerService();
@@ -1,18 +1,32 @@
-import { ChatMessage } from "@/types/chat";
-import { FloorPlanAnalysis } from "@/types/floor-analysis";
+import { ChatMessage, ChatReply } from "@/types/chat";
+import { AnalysisMode, AnalysisOutcome, FloorPlanAnalysis, PartialAnalysis, UnitSystem } from "@/types/floor-analysis";
+import { validateFloorPlanAnalysis, validatePartialAnalysis } from "@/lib/floor-plan-schema";
+import { getVectorFormat } from "@/lib/vector-plan";
+import { getRubric } from "@/lib/rubrics";
+import { PropertyChatContext } from "@/types/property";
+import { ComparisonChatContext, PlanComparison } from "@/types/comparison";
+import { PdfPage } from "@/types/pdf";
+import { AnalysisProgress, AnalysisStreamEvent } from "@/types/analysis-progress";
+import { AnalysisJob } from "@/types/analysis-job";
 
 /**
  * Interface for the response from the API
  * 
  * @interface ApiResponse
- * @property {FloorPlanAnalysis} [parsedAnalysis] - The result of the floor plan analysis
+ * @property {AnalysisOutcome} [outcome] - The outcome of the floor plan analysis
  * @property {string} [error] - The error message
  */
 interface ApiResponse {
-  parsedAnalysis?: FloorPlanAnalysis;
+  outcome?: AnalysisOutcome;
   error?: string;
 }
 
+/**
+ * Statuses of a job submission that mean jobs are not available here,
+ * the analysis is then streamed from `/api/analyze`
+ */
+const JOBS_UNAVAILABLE_STATUSES = [404, 405, 501, 503];
+
 /**
  * Configuration for the API service
  * 
@@ -50,56 +64,102 @@ class ApiService {
   /**
    * Sends an image for analysis
    * 
+   * Failed analyses reported by the server (and client timeouts) are returned
+   * as outcomes rather than thrown, so the caller can show the actual reason.
+   * The image is submitted as an analysis job and followed through its event
+   * stream, so the upload progress (in bytes) and the server stages are
+   * reported to `onProgress` as they happen, and long analyses are not cut
+   * off by the request timeout. While the model answers, the scores and the
+   * recommendations received so far are reported to `onPartial`.
+   * When jobs are unavailable (no jobs endpoint, or the job lives on another
+   * server instance), the analysis is streamed from `/api/analyze` instead,
+   * with the same progress and partial results but within the request timeout
+   * 
    * @param {File} file - The file of the image to analyze
+   * @param {Object} [options] - The analysis options
+   * @param {AnalysisMode} [options.mode="standard"] - The analysis mode
+   * @param {number} [options.samples] - The number of samples of an ensemble analysis (server default if omitted)
+   * @param {UnitSystem} [options.unitSystem="metric"] - The units the findings are written in
+   * @param {number} [options.page] - The page of a PDF to analyze (the first page if omitted)
+   * @param {function} [options.onProgress] - Called with the upload progress and each stage of the analysis
+   * @param {function} [options.onPartial] - Called with the partial analysis, each call replaces the previous one
+   * @param {AbortSignal} [options.signal] - Cancels the request
    * @param {number} [retryCount=0] - The current number of attempts
-   * @returns {Promise<FloorPlanAnalysis>} The result of the floor plan analysis
+   * @returns {Promise<AnalysisOutcome>} The outcome of the floor plan analysis
    * 
-   * @throws {ApiError} If the request failed
+   * @throws {ApiError} If the request failed without an analysis outcome
    * @throws {Error} If the file is not valid or the size is exceeded
+   * @throws {DOMException} An `AbortError` if the request was cancelled through the signal
    */
-  async analyzeImage(file: File, retryCount = 0): Promise<FloorPlanAnalysis> {
+  async analyzeImage(
+    file: File,
+    options: {
+      mode?: AnalysisMode;
+      samples?: number;
+      unitSystem?: UnitSystem;
+      page?: number;
+      onProgress?: (progress: AnalysisProgress) => void;
+      onPartial?: (partial: PartialAnalysis) => void;
+      signal?: AbortSignal;
+    } = {},
+    retryCount = 0
+  ): Promise<AnalysisOutcome> {
     try {
 
       // Validate the file
       this.validateFile(file);
 
-      // Create AbortController for request timeout
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), this.timeout);
-
       const formData = new FormData();
       formData.append("file", file);
+      formData.append("mode", options.mode ?? "standard");
+      formData.append("unitSystem", options.unitSystem ?? "metric");
+      if (options.samples !== undefined) {
+        formData.append("samples", String(options.samples));
+      }
+      if (options.page !== undefined) {
+        formData.append("page", String(options.page));
+      }
 
-      const response = await fetch(`${this.baseUrl}/analyze`, {
-        method: "POST",
-        body: formData,
-        signal: controller.signal,
-        headers: {
-          "Accept": "application/json",
-        }
-      });
+      // The timeout covers the upload only, the job then runs as long as the analysis takes
+      const submitted = await this.submitJob(formData, this.timeout, options.onProgress, options.signal);
+      const { job } = submitted.data;
+      if (!job && !JOBS_UNAVAILABLE_STATUSES.includes(submitted.status)) throw new ApiError(
+        submitted.data.error || "Failed to analyze image",
+        submitted.status
+      );
 
-      clearTimeout(timeoutId);
+      const { status, data } = job
+        ? await this.followJob(job, options).catch(error => {
+          // The job is kept in the memory of another server instance
+          if (!(error instanceof ApiError && error.status === 404)) throw error;
+          this.cancelJob(job.id);
+          return this.streamAnalysis(formData, options);
+        })
+        : await this.streamAnalysis(formData, options);
 
-      const data: ApiResponse = await response.json();
+      // The server already retried the provider, so any outcome is final
+      if (data.outcome) return this.validateOutcome(data.outcome);
 
-      if (!response.ok) throw new ApiError(
+      if (status < 200 || status >= 300) throw new ApiError(
         data.error || "Failed to analyze image",
-        response.status
+        status
       );
 
-      if (!data.parsedAnalysis) throw Error("Invalid response format");
-
-      return data.parsedAnalysis;
+      throw Error("Invalid response format");
     } catch (error) {
       if (error instanceof Error) {
+        // Cancelled by the caller rather than timed out
+        if (error.name === "AbortError" && options.signal?.aborted) {
+          throw error;
+        }
+
         if (error.name === "AbortError") {
-          throw new Error("Request timeout");
+          return { status: "timeout", message: "Request timeout" };
         }
 
         if (this.shouldRetry(error) && retryCount < this.maxRetries) {
           await this.delay(1000 * (retryCount + 1));
-          return this.analyzeImage(file, retryCount + 1);
+          return this.analyzeImage(file, options, retryCount + 1);
         }
       }
 
@@ -112,16 +172,21 @@ class ApiService {
   /**
    * Generates speech from text
    * 
+   * Aborting the signal cancels the request, and with it the synthesis on the server.
+   * 
    * @param {string} text - The text to convert to speech
+   * @param {Object} [options] - The request options
+   * @param {AbortSignal} [options.signal] - Cancels the request
    * @param {number} [retryCount=0] - The current number of attempts
    * @returns {Promise<Blob>} The audio data in the Blob format
    * 
    * @throws {ApiError} If the request failed
+   * @throws {DOMException} An `AbortError` if the request was cancelled through the signal
    */
-  async generateSpeech(text: string, retryCount = 0): Promise<Blob> {
+  async generateSpeech(text: string, options: { signal?: AbortSignal } = {}, retryCount = 0): Promise<Blob> {
     try {
-      // Create AbortController for request timeout
-      const controller = new AbortController();
+      // Create AbortController for request timeout, also aborted by the caller's signal
+      const controller = this.createRequestController(options.signal);
       const timeoutId = setTimeout(() => controller.abort(), this.timeout);
 
       const response = await fetch(`${this.baseUrl}/tts`, {
@@ -146,13 +211,18 @@ class ApiService {
       return await response.blob();
     } catch (error) {
       if (error instanceof Error) {
+        // Cancelled by the caller rather than timed out
+        if (error.name === "AbortError" && options.signal?.aborted) {
+          throw error;
+        }
+
         if (error.name === "AbortError") {
           throw new Error("Request timeout");
         }
 
         if (this.shouldRetry(error) && retryCount < this.maxRetries) {
           await this.delay(1000 * (retryCount + 1));
-          return this.generateSpeech(text, retryCount + 1);
+          return this.generateSpeech(text, options, retryCount + 1);
         }
       }
 
@@ -170,21 +240,31 @@ class ApiService {
    * @param {Object} context - The chat context
    * @param {FloorPlanAnalysis} context.analysis - The floor plan analysis
    * @param {ChatMessage[]} context.previousMessages - The history of previous messages
+   * @param {UnitSystem} [context.unitSystem] - The units for the answer
+   * @param {PropertyChatContext} [context.property] - All floors of the property, if there are several
+   * @param {ComparisonChatContext} [context.comparison] - The existing layout, the proposal and their diff
+   * @param {Object} [options] - The request options
+   * @param {AbortSignal} [options.signal] - Cancels the request, and with it the reply on the server
    * @param {number} [retryCount=0] - The current number of attempts
-   * @returns {Promise<string>} The response from the chatbot
+   * @returns {Promise<ChatReply>} The response from the chatbot and the prompt versions it used
    * 
    * @throws {ApiError} If the request failed
+   * @throws {DOMException} An `AbortError` if the request was cancelled through the signal
    */
   async sendChatMessage(
     message: string,
     context: {
       analysis: FloorPlanAnalysis;
       previousMessages: ChatMessage[];
+      unitSystem?: UnitSystem;
+      property?: PropertyChatContext;
+      comparison?: ComparisonChatContext;
     },
+    options: { signal?: AbortSignal } = {},
     retryCount = 0
-  ): Promise<string> {
+  ): Promise<ChatReply> {
     try {
-      const controller = new AbortController();
+      const controller = this.createRequestController(options.signal);
       const timeoutId = setTimeout(() => controller.abort(), this.timeout);
 
       const response = await fetch(`${this.baseUrl}/chat`, {
@@ -197,7 +277,10 @@ class ApiService {
           message,
           context: {
             analysis: context.analysis,
-            previousMessages: context.previousMessages.slice(-5)
+            previousMessages: context.previousMessages.slice(-5),
+            unitSystem: context.unitSystem,
+            property: context.property,
+            comparison: context.comparison,
           }
         }),
         signal: controller.signal,
@@ -214,16 +297,21 @@ class ApiService {
         );
       }
 
-      return data.text;
+      return { text: data.text, prompts: data.prompts ?? [] };
     } catch (error) {
       if (error instanceof Error) {
+        // Cancelled by the caller rather than timed out
+        if (error.name === "AbortError" && options.signal?.aborted) {
+          throw error;
+        }
+
         if (error.name === "AbortError") {
           throw new Error("Request timeout");
         }
 
         if (this.shouldRetry(error) && retryCount < this.maxRetries) {
           await this.delay(1000 * (retryCount + 1));
-          return this.sendChatMessage(message, context, retryCount + 1);
+          return this.sendChatMessage(message, context, options, retryCount + 1);
         }
       }
 
@@ -234,6 +322,372 @@ class ApiService {
 
 
 
+  /**
+   * Compares the analysis of an existing layout with the analysis of a proposal
+   * 
+   * @param {FloorPlanAnalysis} before - The analysis of the existing layout
+   * @param {FloorPlanAnalysis} after - The analysis of the proposal
+   * @param {number} [retryCount=0] - The current number of attempts
+   * @returns {Promise<PlanComparison>} The score deltas and the resolved, new and unchanged findings
+   * 
+   * @throws {ApiError} If the request failed
+   */
+  async comparePlans(
+    before: FloorPlanAnalysis,
+    after: FloorPlanAnalysis,
+    retryCount = 0
+  ): Promise<PlanComparison> {
+    try {
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+
+      const response = await fetch(`${this.baseUrl}/compare`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Accept": "application/json",
+        },
+        body: JSON.stringify({ before, after }),
+        signal: controller.signal,
+      });
+
+      clearTimeout(timeoutId);
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new ApiError(
+          data.error || "Failed to compare the plans",
+          response.status
+        );
+      }
+
+      return data.comparison;
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.name === "AbortError") {
+          throw new Error("Request timeout");
+        }
+
+        if (this.shouldRetry(error) && retryCount < this.maxRetries) {
+          await this.delay(1000 * (retryCount + 1));
+          return this.comparePlans(before, after, retryCount + 1);
+        }
+      }
+
+      this.logError('Plan comparison error:', error);
+      throw this.normalizeError(error);
+    }
+  }
+
+
+
+  /**
+   * Lists the pages of a PDF floor plan with their thumbnails
+   * 
+   * @param {File} file - The PDF file
+   * @param {number} [retryCount=0] - The current number of attempts
+   * @returns {Promise<PdfPage[]>} The pages
+   * 
+   * @throws {ApiError} If the PDF cannot be read
+   * @throws {Error} If the file is not valid or the size is exceeded
+   */
+  async getPdfPages(file: File, retryCount = 0): Promise<PdfPage[]> {
+    try {
+      this.validateFile(file);
+
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+
+      const formData = new FormData();
+      formData.append("file", file);
+
+      const response = await fetch(`${this.baseUrl}/pdf/pages`, {
+        method: "POST",
+        body: formData,
+        signal: controller.signal,
+        headers: {
+          "Accept": "application/json",
+        }
+      });
+
+      clearTimeout(timeoutId);
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new ApiError(
+          data.error || "Failed to read the PDF",
+          response.status
+        );
+      }
+
+      return data.pages;
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.name === "AbortError") {
+          throw new Error("Request timeout");
+        }
+
+        if (this.shouldRetry(error) && retryCount < this.maxRetries) {
+          await this.delay(1000 * (retryCount + 1));
+          return this.getPdfPages(file, retryCount + 1);
+        }
+      }
+
+      this.logError('PDF pages error:', error);
+      throw this.normalizeError(error);
+    }
+  }
+
+
+
+  /**
+   * Submits an analysis job and reports the upload progress
+   * 
+   * Uses XMLHttpRequest, as fetch does not report upload progress.
+   * 
+   * @private
+   * @param {FormData} formData - The file and the analysis options
+   * @param {number} timeout - The timeout for the upload and the submission in milliseconds
+   * @param {function} [onProgress] - Called with the upload progress
+   * @param {AbortSignal} [signal] - Cancels the request
+   * @returns {Promise<{ status: number; data: { job?: AnalysisJob; error?: string } }>} The status and body of the response
+   * 
+   * @throws {Error} An `AbortError` on timeout or cancellation, or if the request failed or the response cannot be read
+   */
+  private submitJob(
+    formData: FormData,
+    timeout: number,
+    onProgress?: (progress: AnalysisProgress) => void,
+    signal?: AbortSignal
+  ): Promise<{ status: number; data: { job?: AnalysisJob; error?: string } }> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new DOMException("The analysis was cancelled", "AbortError"));
+        return;
+      }
+
+      const xhr = new XMLHttpRequest();
+      xhr.open("POST", `${this.baseUrl}/analyze/jobs`);
+      xhr.timeout = timeout;
+      xhr.setRequestHeader("Accept", "application/json");
+
+      xhr.upload.onprogress = (event) => {
+        onProgress?.({ stage: "uploading", loaded: event.loaded, total: event.lengthComputable ? event.total : undefined });
+      };
+
+      xhr.onload = () => {
+        try {
+          resolve({ status: xhr.status, data: JSON.parse(xhr.responseText) });
+        } catch (error) {
+          // A missing jobs endpoint answers with an error page rather than JSON
+          if (xhr.status >= 400) resolve({ status: xhr.status, data: {} });
+          else reject(error);
+        }
+      };
+
+      xhr.onerror = () => reject(new Error("Network error"));
+      xhr.ontimeout = () => reject(new DOMException("Request timeout", "AbortError"));
+      xhr.onabort = () => reject(new DOMException("The analysis was cancelled", "AbortError"));
+      signal?.addEventListener("abort", () => xhr.abort(), { once: true });
+
+      xhr.send(formData);
+    });
+  }
+
+
+  /**
+   * Follows an analysis job until it is finished
+   * 
+   * Listens to the event stream of the job and reports each stage and each
+   * new partial analysis (invalid ones are skipped). There is no timeout: the
+   * job runs on the server whether or not the client waits, and the stream
+   * reconnects by itself after a dropped connection. Aborting the signal
+   * cancels the job on the server as well.
+   * 
+   * @private
+   * @param {AnalysisJob} job - The submitted job
+   * @param {Object} listeners - The callbacks and the signal
+   * @param {function} [listeners.onProgress] - Called with each stage of the analysis
+   * @param {function} [listeners.onPartial] - Called with each new partial analysis
+   * @param {AbortSignal} [listeners.signal] - Stops following the job and cancels it
+   * @returns {Promise<{ status: number; data: ApiResponse }>} The status and body of the result
+   * 
+   * @throws {ApiError} If the job is unknown or the stream cannot be opened
+   * @throws {DOMException} An `AbortError` if the signal was aborted
+   */
+  private followJob(
+    job: AnalysisJob,
+    { onProgress, onPartial, signal }: {
+      onProgress?: (progress: AnalysisProgress) => void;
+      onPartial?: (partial: PartialAnalysis) => void;
+      signal?: AbortSignal;
+    }
+  ): Promise<{ status: number; data: ApiResponse }> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        this.cancelJob(job.id);
+        reject(new DOMException("The analysis was cancelled", "AbortError"));
+        return;
+      }
+
+      const source = new EventSource(`${this.baseUrl}/analyze/jobs/${encodeURIComponent(job.id)}/events`);
+      // The partial analysis last reported, stage changes repeat it
+      let lastPartial: PartialAnalysis | undefined;
+
+      const onAbort = () => {
+        source.close();
+        this.cancelJob(job.id);
+        reject(new DOMException("The analysis was cancelled", "AbortError"));
+      };
+      const stop = () => {
+        source.close();
+        signal?.removeEventListener("abort", onAbort);
+      };
+
+      source.addEventListener("job", (event) => {
+        const update: AnalysisJob = JSON.parse((event as MessageEvent<string>).data);
+        onProgress?.({ stage: update.stage });
+
+        if (update.partial && JSON.stringify(update.partial) !== JSON.stringify(lastPartial)) {
+          lastPartial = update.partial;
+          const rubric = getRubric(update.partial.rubricId);
+          const result = rubric && validatePartialAnalysis(update.partial, rubric);
+          if (result?.success) onPartial?.(result.data);
+        }
+
+        if (update.result) {
+          stop();
+          const { status, ...data } = update.result;
+          resolve({ status, data });
+        }
+      });
+
+      // Dropped connections are retried by the EventSource, a closed one is final (e.g. an expired job)
+      source.onerror = () => {
+        if (source.readyState !== EventSource.CLOSED) return;
+        stop();
+        reject(new ApiError("Lost track of the analysis job", 404));
+      };
+
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+
+
+  /**
+   * Analyzes an image in one streamed request, without a job
+   * 
+   * Reads the newline-delimited JSON of `/api/analyze` as it arrives and
+   * reports each stage and each partial analysis (invalid ones are skipped).
+   * The request is bound by the timeout, the server's deadline ends the
+   * analysis before it. Request errors come as plain JSON and are returned as they are.
+   * 
+   * @private
+   * @param {FormData} formData - The file and the analysis options
+   * @param {Object} listeners - The callbacks and the signal
+   * @param {function} [listeners.onProgress] - Called with each stage of the analysis
+   * @param {function} [listeners.onPartial] - Called with each partial analysis
+   * @param {AbortSignal} [listeners.signal] - Cancels the request, and with it the analysis on the server
+   * @returns {Promise<{ status: number; data: ApiResponse }>} The status and body of the result
+   * 
+   * @throws {Error} If the stream ends without a result
+   * @throws {DOMException} An `AbortError` on timeout or cancellation
+   */
+  private async streamAnalysis(
+    formData: FormData,
+    { onProgress, onPartial, signal }: {
+      onProgress?: (progress: AnalysisProgress) => void;
+      onPartial?: (partial: PartialAnalysis) => void;
+      signal?: AbortSignal;
+    }
+  ): Promise<{ status: number; data: ApiResponse }> {
+    const controller = this.createRequestController(signal);
+    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+
+    try {
+      const response = await fetch(`${this.baseUrl}/analyze`, {
+        method: "POST",
+        headers: { "Accept": "application/x-ndjson" },
+        body: formData,
+        signal: controller.signal,
+      });
+
+      // Request errors and responses without a body are not streamed
+      if (!response.body || !response.headers.get("Content-Type")?.includes("application/x-ndjson")) {
+        return { status: response.status, data: await response.json() };
+      }
+
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = "";
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += value;
+        const lines = buffer.split("\n");
+        buffer = lines.pop() ?? "";
+
+        for (const line of lines.filter(Boolean)) {
+          const event: AnalysisStreamEvent = JSON.parse(line);
+
+          if (event.type === "stage") {
+            onProgress?.({ stage: event.stage });
+          } else if (event.type === "partial") {
+            const rubric = getRubric(event.analysis.rubricId);
+            const result = rubric && validatePartialAnalysis(event.analysis, rubric);
+            if (result?.success) onPartial?.(result.data);
+          } else {
+            const { status, ...data } = event;
+            return { status, data };
+          }
+        }
+      }
+
+      throw new Error("The analysis stream ended without a result");
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+
+  /**
+   * Cancels an analysis job on the server
+   * 
+   * Fire and forget: the request outlives the page with `keepalive`, and a
+   * job that is already finished or expired needs no cancelling.
+   * 
+   * @private
+   * @param {string} id - The job id
+   */
+  private cancelJob(id: string): void {
+    fetch(`${this.baseUrl}/analyze/jobs/${encodeURIComponent(id)}`, { method: "DELETE", keepalive: true })
+      .catch(error => this.logError('Job cancellation error:', error));
+  }
+
+
+  /**
+   * Creates the controller of one request, aborted by the timeout or by the caller
+   * 
+   * @private
+   * @param {AbortSignal} [signal] - The caller's signal
+   * @returns {AbortController} The controller whose signal is passed to `fetch`
+   */
+  private createRequestController(signal?: AbortSignal): AbortController {
+    const controller = new AbortController();
+
+    if (signal?.aborted) {
+      controller.abort();
+    } else {
+      signal?.addEventListener("abort", () => controller.abort(), { once: true });
+    }
+
+    return controller;
+  }
+
+
   /**
    * Checks the file for compliance with the requirements
    * 
@@ -244,24 +698,60 @@ class ApiService {
    */
   private validateFile(file: File) {
     const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
-    const ALLOWED_FILE_TYPES = ["image/jpeg", "image/png", "image/webp"];
+    const MAX_PDF_SIZE = 10 * 1024 * 1024; // 10MB, also for DXF and SVG drawings
+    const ALLOWED_FILE_TYPES = ["image/jpeg", "image/png", "image/webp", "application/pdf"];
 
     if (!file) {
       throw new Error('No file provided');
     }
 
-    if (!ALLOWED_FILE_TYPES.includes(file.type)) {
-      throw new Error('Unsupported file type. Please upload JPEG, PNG or WebP');
+    const isVector = getVectorFormat(file) !== null;
+    if (!isVector && !ALLOWED_FILE_TYPES.includes(file.type)) {
+      throw new Error('Unsupported file type. Please upload JPEG, PNG, WebP, PDF, DXF or SVG');
     }
 
-    if (file.size > MAX_FILE_SIZE) {
-      throw new Error('File is too large. Maximum size is 5MB');
+    const isDrawing = isVector || file.type === "application/pdf";
+    if (file.size > (isDrawing ? MAX_PDF_SIZE : MAX_FILE_SIZE)) {
+      throw new Error(`File is too large. Maximum size is ${isDrawing ? "10MB" : "5MB"}`);
     }
   }
 
 
 
 
+  /**
+   * Checks the analysis of a successful outcome against the shared schema
+   * 
+   * @private
+   * @param {AnalysisOutcome} outcome - The outcome received from the server
+   * @returns {AnalysisOutcome} The outcome with the validated analysis and the processed
+   * image (dropped unless it is an image data URL), or an `invalid_output` outcome with the field errors
+   */
+  private validateOutcome(outcome: AnalysisOutcome): AnalysisOutcome {
+    if (outcome.status !== "ok") return outcome;
+
+    const rubric = getRubric(outcome.analysis.rubricId);
+    if (!rubric) {
+      return {
+        status: "invalid_output",
+        message: `The analysis uses an unknown rubric "${outcome.analysis.rubricId}"`,
+      };
+    }
+
+    const result = validateFloorPlanAnalysis(outcome.analysis, rubric);
+    if (result.success) {
+      const image = outcome.image?.imageUrl?.startsWith("data:image/") ? outcome.image : undefined;
+      return { status: "ok", analysis: result.data, image };
+    }
+
+    return {
+      status: "invalid_output",
+      message: "The analysis received from the server is invalid",
+      errors: result.errors,
+    };
+  }
+
+
   /**
    * Checks if the request should be retried
    * 
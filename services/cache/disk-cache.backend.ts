@@ -0,0 +1,80 @@
+import { mkdir, readdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+import { AnalysisCacheBackend, AnalysisCacheEntry } from "@/types/analysis-cache";
+
+/**
+ * On-disk cache backend storing one JSON file per entry
+ *
+ * @class DiskCacheBackend
+ * @description Survives restarts and can be shared by processes on the same machine.
+ * Keys are hex hashes, so they are safe to use as file names.
+ */
+export class DiskCacheBackend implements AnalysisCacheBackend {
+  constructor(private readonly directory: string) { }
+
+  /**
+   * Reads the entry from disk
+   *
+   * @param {string} key - The cache key
+   * @returns {Promise<AnalysisCacheEntry | null>} The entry or null if it is missing or unreadable
+   */
+  async get(key: string): Promise<AnalysisCacheEntry | null> {
+    try {
+      return JSON.parse(await readFile(this.filePath(key), "utf-8"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.error("Analysis cache read error:", error);
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Writes the entry to disk
+   *
+   * @param {string} key - The cache key
+   * @param {AnalysisCacheEntry} entry - The entry to store
+   */
+  async set(key: string, entry: AnalysisCacheEntry): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(this.filePath(key), JSON.stringify(entry), "utf-8");
+  }
+
+  /**
+   * Removes the entry file
+   *
+   * @param {string} key - The cache key
+   * @returns {Promise<boolean>} True, if a file was removed
+   */
+  async delete(key: string): Promise<boolean> {
+    try {
+      await rm(this.filePath(key));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Removes all entry files
+   */
+  async clear(): Promise<void> {
+    const files = await readdir(this.directory).catch(() => [] as string[]);
+    await Promise.all(
+      files
+        .filter(file => file.endsWith(".json"))
+        .map(file => rm(path.join(this.directory, file), { force: true }))
+    );
+  }
+
+  /**
+   * Returns the path of the entry file
+   *
+   * @private
+   * @param {string} key - The cache key
+   * @returns {string} The file path
+   */
+  private filePath(key: string): string {
+    return path.join(this.directory, `${path.basename(key)}.json`);
+  }
+}
@@ -0,0 +1,64 @@
+import { AnalysisCacheBackend, AnalysisCacheEntry } from "@/types/analysis-cache";
+
+/**
+ * In-memory cache backend with least-recently-used eviction
+ *
+ * @class MemoryCacheBackend
+ * @description Keeps up to `maxEntries` analyses in the server process.
+ * Entries are lost on restart and are not shared between instances.
+ */
+export class MemoryCacheBackend implements AnalysisCacheBackend {
+  // Map keeps insertion order, the first key is the least recently used
+  private readonly entries = new Map<string, AnalysisCacheEntry>();
+
+  constructor(private readonly maxEntries: number) { }
+
+  /**
+   * Returns the entry and marks it as recently used
+   *
+   * @param {string} key - The cache key
+   * @returns {Promise<AnalysisCacheEntry | null>} The entry or null
+   */
+  async get(key: string): Promise<AnalysisCacheEntry | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  /**
+   * Stores the entry, evicting the least recently used ones when full
+   *
+   * @param {string} key - The cache key
+   * @param {AnalysisCacheEntry} entry - The entry to store
+   */
+  async set(key: string, entry: AnalysisCacheEntry): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value;
+      if (oldestKey === undefined) break;
+      this.entries.delete(oldestKey);
+    }
+  }
+
+  /**
+   * Removes the entry
+   *
+   * @param {string} key - The cache key
+   * @returns {Promise<boolean>} True, if an entry was removed
+   */
+  async delete(key: string): Promise<boolean> {
+    return this.entries.delete(key);
+  }
+
+  /**
+   * Removes all entries
+   */
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
@@ -0,0 +1,217 @@
+import sharp from "sharp";
+import { PreprocessingStep, ProcessedImage } from "@/types/image-preprocessing";
+import { estimateSkew } from "@/lib/deskew";
+
+/**
+ * Interface for an image decoded to raw pixels between the steps
+ *
+ * @interface RawImage
+ * @property {Buffer} data - The pixels
+ * @property {sharp.OutputInfo} info - The size and channels of the pixels
+ */
+interface RawImage {
+  data: Buffer;
+  info: sharp.OutputInfo;
+}
+
+/**
+ * Service for preparing uploaded images before they reach the vision model
+ *
+ * @class ImagePreprocessorService
+ * @description Applies the EXIF orientation, strips metadata, straightens
+ * and crops the plan, stretches the contrast and downsizes it to the
+ * resolution the vision model makes use of
+ */
+class ImagePreprocessorService {
+  // Version of the preprocessing, bump when a step changes (part of the cache key)
+  private readonly VERSION = 1;
+  // Width of the grayscale copy the skew is measured on
+  private readonly SKEW_SAMPLE_SIZE = 800;
+  // Skews below this angle (degrees) are left alone
+  private readonly MIN_SKEW = 0.3;
+  // Difference from the border color that still counts as margin (0-255)
+  private readonly TRIM_THRESHOLD = 30;
+  // Crops keeping less than this share of the image are content, not margins
+  private readonly MIN_CROP_AREA = 0.25;
+  // White border added back around a cropped plan (fraction of the longest side)
+  private readonly CROP_PADDING = 0.02;
+  // Percentiles of the luminance stretched to black and white
+  private readonly NORMALIZE_RANGE = { lower: 1, upper: 99 };
+  // Quality of re-encoded JPEG photos
+  private readonly JPEG_QUALITY = 90;
+
+  /**
+   * Whether the image is processed, `IMAGE_PREPROCESSING=off` sends uploads as they are
+   */
+  get enabled(): boolean {
+    return process.env.IMAGE_PREPROCESSING !== "off";
+  }
+
+  /**
+   * Returns a string identifying the preprocessing, used as part of the analysis cache key
+   *
+   * @param {number} maxSize - The longest side of the processed image
+   * @returns {string} The version string
+   */
+  getVersion(maxSize: number): string {
+    return this.enabled ? `pre${this.VERSION}@${maxSize}` : "pre-off";
+  }
+
+  /**
+   * Processes an uploaded image
+   *
+   * Steps: apply the EXIF orientation and strip the metadata, straighten a
+   * skewed plan, crop the empty margins, normalize the contrast and fit the
+   * image into `maxSize` pixels. Photos stay JPEG, everything else becomes PNG.
+   * The applied steps are listed in the result.
+   *
+   * @param {ArrayBuffer} bytes - The uploaded file
+   * @param {string} mimeType - The type of the upload
+   * @param {number} maxSize - The longest side of the processed image
+   * @returns {Promise<ProcessedImage>} The processed image as a data URL with its size and steps
+   *
+   * @throws {Error} If the image cannot be decoded
+   *
+   * @example
+   * ```typescript
+   * const image = await imagePreprocessorService.process(bytes, file.type, 2048);
+   * const outcome = await aiAnalyzerService.analyzeImage(image.imageUrl);
+   * ```
+   */
+  async process(bytes: ArrayBuffer, mimeType: string, maxSize: number): Promise<ProcessedImage> {
+    const input = Buffer.from(bytes);
+    const metadata = await sharp(input).metadata();
+
+    if (!metadata.width || !metadata.height) {
+      throw new Error("Unable to read the image size");
+    }
+
+    // Orientations 5-8 swap the sides
+    const rotated = (metadata.orientation ?? 1) >= 5;
+    const originalWidth = rotated ? metadata.height : metadata.width;
+    const originalHeight = rotated ? metadata.width : metadata.height;
+
+    if (!this.enabled) {
+      return {
+        imageUrl: `data:${mimeType};base64,${input.toString("base64")}`,
+        width: originalWidth,
+        height: originalHeight,
+        originalWidth,
+        originalHeight,
+        steps: [],
+        skewAngle: 0,
+      };
+    }
+
+    const steps: PreprocessingStep[] = [];
+
+    // Upright, on white, without metadata (sharp drops it unless asked to keep it)
+    let image = await this.toRaw(sharp(input).rotate().flatten({ background: "#ffffff" }));
+    if ((metadata.orientation ?? 1) > 1) steps.push("orient");
+    steps.push("strip_metadata");
+
+    const skewAngle = await this.measureSkew(image);
+    if (skewAngle !== 0) {
+      image = await this.toRaw(this.open(image).rotate(skewAngle, { background: "#ffffff" }));
+      steps.push("deskew");
+    }
+
+    const cropped = await this.crop(image);
+    if (cropped) {
+      image = cropped;
+      steps.push("crop");
+    }
+
+    image = await this.toRaw(this.open(image).normalise(this.NORMALIZE_RANGE));
+    steps.push("normalize");
+
+    let output = this.open(image);
+    if (Math.max(image.info.width, image.info.height) > maxSize) {
+      output = output.resize({ width: maxSize, height: maxSize, fit: "inside" });
+      steps.push("resize");
+    }
+
+    const isPhoto = mimeType === "image/jpeg";
+    const { data, info } = await (isPhoto ? output.jpeg({ quality: this.JPEG_QUALITY }) : output.png())
+      .toBuffer({ resolveWithObject: true });
+
+    return {
+      imageUrl: `data:${isPhoto ? "image/jpeg" : "image/png"};base64,${data.toString("base64")}`,
+      width: info.width,
+      height: info.height,
+      originalWidth,
+      originalHeight,
+      steps,
+      skewAngle,
+    };
+  }
+
+  /**
+   * Measures how far the plan is rotated on a small grayscale copy
+   *
+   * @private
+   * @param {RawImage} image - The upright image
+   * @returns {Promise<number>} The clockwise rotation that straightens it, 0 for straight plans
+   */
+  private async measureSkew(image: RawImage): Promise<number> {
+    const { data, info } = await this.open(image)
+      .resize({ width: this.SKEW_SAMPLE_SIZE, height: this.SKEW_SAMPLE_SIZE, fit: "inside", withoutEnlargement: true })
+      .toColourspace("b-w")
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    const angle = estimateSkew(data, info.width, info.height);
+    return Math.abs(angle) >= this.MIN_SKEW ? angle : 0;
+  }
+
+  /**
+   * Crops the empty margins and adds a thin white border back
+   *
+   * @private
+   * @param {RawImage} image - The image
+   * @returns {Promise<RawImage | null>} The cropped image, or null if there is nothing to crop
+   */
+  private async crop(image: RawImage): Promise<RawImage | null> {
+    const trimmed = await this.toRaw(this.open(image).trim({ threshold: this.TRIM_THRESHOLD }));
+    const { width, height } = image.info;
+
+    const unchanged = trimmed.info.width === width && trimmed.info.height === height;
+    const tooSmall = trimmed.info.width * trimmed.info.height < width * height * this.MIN_CROP_AREA;
+    if (unchanged || tooSmall) return null;
+
+    const padding = Math.round(Math.max(trimmed.info.width, trimmed.info.height) * this.CROP_PADDING);
+    return this.toRaw(this.open(trimmed).extend({
+      top: padding,
+      bottom: padding,
+      left: padding,
+      right: padding,
+      background: "#ffffff",
+    }));
+  }
+
+  /**
+   * Opens raw pixels as a new pipeline
+   *
+   * @private
+   * @param {RawImage} image - The raw image
+   * @returns {sharp.Sharp} The pipeline
+   */
+  private open({ data, info }: RawImage): sharp.Sharp {
+    return sharp(data, { raw: { width: info.width, height: info.height, channels: info.channels } });
+  }
+
+  /**
+   * Runs a pipeline to raw pixels, so the next step sees its result
+   * (sharp applies operations of one pipeline in a fixed order)
+   *
+   * @private
+   * @param {sharp.Sharp} image - The pipeline
+   * @returns {Promise<RawImage>} The raw image
+   */
+  private toRaw(image: sharp.Sharp): Promise<RawImage> {
+    return image.raw().toBuffer({ resolveWithObject: true });
+  }
+}
+
+// Export the instance of the service
+export const imagePreprocessorService = new ImagePreprocessorService();
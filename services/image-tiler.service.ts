@@ -0,0 +1,133 @@
+import sharp from "sharp";
+import { BoundingBox } from "@/types/floor-analysis";
+import { decodeDataUrl } from "@/lib/data-url";
+
+/**
+ * Interface for a section of the image
+ *
+ * @interface ImageTile
+ * @property {string} imageUrl - The data URL of the tile
+ * @property {BoundingBox} region - The part of the full image it covers (normalized 0-1)
+ */
+export interface ImageTile {
+  imageUrl: string;
+  region: BoundingBox;
+}
+
+/**
+ * Interface for the result of splitting an image
+ *
+ * @interface TiledImage
+ * @property {string} overviewUrl - The data URL of the whole image, downscaled
+ * @property {ImageTile[]} tiles - The overlapping sections of the image
+ */
+export interface TiledImage {
+  overviewUrl: string;
+  tiles: ImageTile[];
+}
+
+/**
+ * Service for splitting large plan images into overlapping tiles
+ *
+ * @class ImageTilerService
+ * @description Produces a downscaled overview and a grid of overlapping,
+ * full-resolution sections so small labels stay readable for the vision model
+ */
+class ImageTilerService {
+  // Longest side of the overview and of each tile sent to the model
+  private readonly OUTPUT_SIZE = 2048;
+  // Source pixels covered by one tile before the grid grows
+  private readonly TARGET_TILE_SIZE = 1400;
+  // Grid size limits per axis
+  private readonly MIN_GRID = 2;
+  private readonly MAX_GRID = 4;
+  // Overlap between neighbouring tiles (fraction of the tile size)
+  private readonly OVERLAP = 0.15;
+
+  /**
+   * Splits the image into an overview and overlapping tiles
+   *
+   * @param {string} imageUrl - The data URL of the image
+   * @returns {Promise<TiledImage>} The overview and the tiles
+   *
+   * @throws {Error} If the image is not a base64 data URL or cannot be decoded
+   *
+   * @example
+   * ```typescript
+   * const { overviewUrl, tiles } = await imageTilerService.split(imageUrl);
+   * ```
+   */
+  async split(imageUrl: string): Promise<TiledImage> {
+    const buffer = decodeDataUrl(imageUrl);
+    const { width, height } = await sharp(buffer).metadata();
+
+    if (!width || !height) {
+      throw new Error("Unable to read the image size");
+    }
+
+    const columns = this.gridSize(width);
+    const rows = this.gridSize(height);
+    const tileWidth = width / columns;
+    const tileHeight = height / rows;
+
+    const regions: { left: number; top: number; width: number; height: number }[] = [];
+    for (let row = 0; row < rows; row++) {
+      for (let column = 0; column < columns; column++) {
+        const left = Math.max(0, Math.floor((column - this.OVERLAP) * tileWidth));
+        const top = Math.max(0, Math.floor((row - this.OVERLAP) * tileHeight));
+        const right = Math.min(width, Math.ceil((column + 1 + this.OVERLAP) * tileWidth));
+        const bottom = Math.min(height, Math.ceil((row + 1 + this.OVERLAP) * tileHeight));
+
+        regions.push({ left, top, width: right - left, height: bottom - top });
+      }
+    }
+
+    const [overviewUrl, ...tileUrls] = await Promise.all([
+      this.encode(sharp(buffer)),
+      ...regions.map(region => this.encode(sharp(buffer).extract(region))),
+    ]);
+
+    return {
+      overviewUrl,
+      tiles: regions.map((region, index) => ({
+        imageUrl: tileUrls[index],
+        region: {
+          x: region.left / width,
+          y: region.top / height,
+          width: region.width / width,
+          height: region.height / height,
+        },
+      })),
+    };
+  }
+
+  /**
+   * Calculates the number of tiles along one side
+   *
+   * @private
+   * @param {number} size - The side length in pixels
+   * @returns {number} The number of tiles
+   */
+  private gridSize(size: number): number {
+    return Math.min(this.MAX_GRID, Math.max(this.MIN_GRID, Math.round(size / this.TARGET_TILE_SIZE)));
+  }
+
+  /**
+   * Downscales the image if needed and encodes it as a PNG data URL
+   *
+   * @private
+   * @param {sharp.Sharp} image - The image pipeline
+   * @returns {Promise<string>} The data URL
+   */
+  private async encode(image: sharp.Sharp): Promise<string> {
+    const buffer = await image
+      .resize({ width: this.OUTPUT_SIZE, height: this.OUTPUT_SIZE, fit: "inside", withoutEnlargement: true })
+      .png()
+      .toBuffer();
+
+    return `data:image/png;base64,${buffer.toString("base64")}`;
+  }
+}
+
+// Export the instance of the service
+export const imageTilerService = new ImageTilerService();
@@ -0,0 +1,173 @@
+import path from "path";
+import { createCanvas } from "@napi-rs/canvas";
+import type { PDFDocumentProxy, PDFPageProxy } from "pdfjs-dist";
+import { PdfPage } from "@/types/pdf";
+
+/**
+ * Error for PDFs that cannot be rendered
+ *
+ * @class PdfRenderError
+ * @extends Error
+ */
+export class PdfRenderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PdfRenderError";
+  }
+}
+
+/**
+ * Directory of the pdf.js assets (fonts and image decoders), read from disk on the server
+ */
+const PDFJS_DIR = path.join(process.cwd(), "node_modules", "pdfjs-dist");
+
+/**
+ * Service for rasterizing PDF floor plans
+ *
+ * @class PdfRendererService
+ * @description Renders PDF pages to PNG images locally with pdf.js,
+ * so they can be analyzed like uploaded images
+ */
+class PdfRendererService {
+  // Highest resolution a page is rendered at, small pages are not blown up beyond it
+  private readonly MAX_DPI = 300;
+  // Points per inch of PDF page sizes
+  private readonly POINTS_PER_INCH = 72;
+  // Longest side of the page thumbnails
+  private readonly THUMBNAIL_SIZE = 240;
+  // Maximum number of pages with thumbnails, longer documents are rejected
+  private readonly MAX_PAGES = 30;
+
+  /**
+   * Lists the pages of a PDF with a thumbnail of each
+   *
+   * @param {ArrayBuffer} bytes - The PDF file
+   * @returns {Promise<PdfPage[]>} The pages with their size in points and a PNG thumbnail
+   *
+   * @throws {PdfRenderError} If the PDF cannot be read or has too many pages
+   *
+   * @example
+   * ```typescript
+   * const pages = await pdfRendererService.getPages(bytes);
+   * ```
+   */
+  async getPages(bytes: ArrayBuffer): Promise<PdfPage[]> {
+    return this.withDocument(bytes, async document => {
+      if (document.numPages > this.MAX_PAGES) {
+        throw new PdfRenderError(`The PDF has ${document.numPages} pages, the maximum is ${this.MAX_PAGES}`);
+      }
+
+      const pages: PdfPage[] = [];
+      // One page at a time keeps the memory use flat
+      for (let number = 1; number <= document.numPages; number++) {
+        const page = await document.getPage(number);
+        const { width, height } = page.getViewport({ scale: 1 });
+        const thumbnail = await this.render(page, this.THUMBNAIL_SIZE);
+
+        pages.push({
+          number,
+          width: Math.round(width),
+          height: Math.round(height),
+          thumbnailUrl: `data:image/png;base64,${thumbnail.toString("base64")}`,
+        });
+      }
+      return pages;
+    });
+  }
+
+  /**
+   * Renders one page of a PDF
+   *
+   * Vector drawings have no resolution of their own, so the page is rendered
+   * with its longest side at `targetSize` pixels, the size the analysis
+   * makes use of, but at no more than 300 DPI.
+   *
+   * @param {ArrayBuffer} bytes - The PDF file
+   * @param {number} pageNumber - The page to render, starting at 1
+   * @param {number} targetSize - The longest side of the rendered page in pixels
+   * @returns {Promise<Buffer>} The page as a PNG image
+   *
+   * @throws {PdfRenderError} If the PDF cannot be read or the page does not exist
+   *
+   * @example
+   * ```typescript
+   * const png = await pdfRendererService.renderPage(bytes, 2, 2048);
+   * ```
+   */
+  async renderPage(bytes: ArrayBuffer, pageNumber: number, targetSize: number): Promise<Buffer> {
+    return this.withDocument(bytes, async document => {
+      if (pageNumber > document.numPages) {
+        throw new PdfRenderError(`Page ${pageNumber} does not exist, the PDF has ${document.numPages} pages`);
+      }
+
+      const page = await document.getPage(pageNumber);
+      return this.render(page, targetSize);
+    });
+  }
+
+  /**
+   * Opens a PDF, runs the callback and releases the document
+   *
+   * @private
+   * @param {ArrayBuffer} bytes - The PDF file
+   * @param {function} callback - Receives the opened document
+   * @returns {Promise<T>} The result of the callback
+   *
+   * @throws {PdfRenderError} If the PDF cannot be read
+   */
+  private async withDocument<T>(bytes: ArrayBuffer, callback: (document: PDFDocumentProxy) => Promise<T>): Promise<T> {
+    // pdf.js is an ES module, loaded on first use
+    const { getDocument } = await import("pdfjs-dist/legacy/build/pdf.mjs");
+
+    let document: PDFDocumentProxy;
+    try {
+      document = await getDocument({
+        // pdf.js takes ownership of the buffer, so it gets a copy
+        data: new Uint8Array(bytes.slice(0)),
+        standardFontDataUrl: path.join(PDFJS_DIR, "standard_fonts") + path.sep,
+        wasmUrl: path.join(PDFJS_DIR, "wasm") + path.sep,
+        isEvalSupported: false,
+      }).promise;
+    } catch (error) {
+      if (error instanceof Error && error.name === "PasswordException") {
+        throw new PdfRenderError("The PDF is password protected");
+      }
+      throw new PdfRenderError("The PDF could not be read");
+    }
+
+    try {
+      return await callback(document);
+    } finally {
+      await document.destroy();
+    }
+  }
+
+  /**
+   * Renders a page on a white background with its longest side at the given size
+   *
+   * @private
+   * @param {PDFPageProxy} page - The page
+   * @param {number} size - The longest side in pixels
+   * @returns {Promise<Buffer>} The PNG image
+   */
+  private async render(page: PDFPageProxy, size: number): Promise<Buffer> {
+    const { width, height } = page.getViewport({ scale: 1 });
+    const scale = Math.min(size / Math.max(width, height), this.MAX_DPI / this.POINTS_PER_INCH);
+    const viewport = page.getViewport({ scale });
+
+    const canvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+    await page.render({
+      // pdf.js only uses the 2D context and size of the canvas, which the
+      // canvas of @napi-rs/canvas implements, but it is not typed as a DOM canvas
+      canvas: canvas as unknown as HTMLCanvasElement,
+      viewport,
+      background: "#ffffff",
+    }).promise;
+
+    page.cleanup();
+    return canvas.toBuffer("image/png");
+  }
+}
+
+// Export the instance of the service
+export const pdfRendererService = new PdfRendererService();
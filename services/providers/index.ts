@@ -0,0 +1,97 @@
+import {
+  VisionProvider,
+  VisionProviderConfig,
+  VisionProviderName
+} from "@/types/vision-provider";
+import { FixtureVisionProvider } from "./fixture-vision.provider";
+import {
+  OpenAICompatibleVisionProvider,
+  OpenAIVisionProvider
+} from "./openai-vision.provider";
+import { VisionProviderError, VisionTimeoutError } from "./vision-provider-error";
+
+export { VisionProviderError, VisionTimeoutError };
+
+const PROVIDER_NAMES: VisionProviderName[] = ["openai", "openai-compatible", "fixture"];
+
+/**
+ * Reads the vision provider configuration from the environment
+ *
+ * - `VISION_PROVIDER` - openai (default), openai-compatible or fixture
+ * - `VISION_MODEL` - the model name passed to the provider
+ * - `VISION_BASE_URL` - the endpoint of an OpenAI-compatible server
+ * - `VISION_API_KEY` - the key for that server (falls back to `OPENAI_API_KEY`)
+ * - `VISION_FIXTURES_DIR` - the directory with JSON fixtures
+ * - `VISION_MAX_IMAGE_SIZE` - the longest image side in pixels the model makes use of
+ *   (defaults to 2048 for openai and fixture, 1536 for openai-compatible)
+ *
+ * @returns {VisionProviderConfig} The provider configuration
+ * @throws {VisionProviderError} If `VISION_PROVIDER` is not a known provider
+ * or `VISION_MAX_IMAGE_SIZE` is not a positive whole number
+ */
+export const getVisionProviderConfig = (): VisionProviderConfig => {
+  const provider = (process.env.VISION_PROVIDER || "openai") as VisionProviderName;
+
+  if (!PROVIDER_NAMES.includes(provider)) {
+    throw new VisionProviderError(
+      `Unknown VISION_PROVIDER "${provider}". Expected one of: ${PROVIDER_NAMES.join(", ")}`
+    );
+  }
+
+  const maxImageSize = process.env.VISION_MAX_IMAGE_SIZE
+    ? Number(process.env.VISION_MAX_IMAGE_SIZE)
+    : undefined;
+
+  if (maxImageSize !== undefined && (!Number.isInteger(maxImageSize) || maxImageSize <= 0)) {
+    throw new VisionProviderError(
+      `Invalid VISION_MAX_IMAGE_SIZE "${process.env.VISION_MAX_IMAGE_SIZE}". Expected a positive whole number of pixels`
+    );
+  }
+
+  return {
+    provider,
+    model: process.env.VISION_MODEL,
+    apiKey: process.env.VISION_API_KEY || process.env.OPENAI_API_KEY,
+    baseUrl: process.env.VISION_BASE_URL,
+    fixturesDir: process.env.VISION_FIXTURES_DIR,
+    maxImageSize,
+  };
+};
+
+/**
+ * Creates the vision provider described by the configuration
+ *
+ * @param {VisionProviderConfig} config - The provider configuration
+ * @returns {VisionProvider} The provider instance
+ *
+ * @throws {VisionProviderError} If required settings are missing
+ *
+ * @example
+ * ```typescript
+ * const provider = createVisionProvider({ provider: "fixture" });
+ * ```
+ */
+export const createVisionProvider = (config: VisionProviderConfig): VisionProvider => {
+  switch (config.provider) {
+    case "openai":
+      return new OpenAIVisionProvider({
+        model: config.model,
+        apiKey: config.apiKey,
+        maxImageSize: config.maxImageSize,
+      });
+    case "openai-compatible":
+      if (!config.baseUrl || !config.model) {
+        throw new VisionProviderError(
+          "VISION_BASE_URL and VISION_MODEL are required for the openai-compatible provider"
+        );
+      }
+      return new OpenAICompatibleVisionProvider({
+        model: config.model,
+        apiKey: config.apiKey,
+        baseUrl: config.baseUrl,
+        maxImageSize: config.maxImageSize,
+      });
+    case "fixture":
+      return new FixtureVisionProvider(config.fixturesDir, config.maxImageSize);
+  }
+};
@@ -0,0 +1,224 @@
+import OpenAI from "openai";
+import {
+  VisionFinishReason,
+  VisionProvider,
+  VisionProviderName,
+  VisionRequest,
+  VisionResponse
+} from "@/types/vision-provider";
+import { VisionAbortedError, VisionProviderError, VisionTimeoutError } from "./vision-provider-error";
+
+/**
+ * Options for the OpenAI-compatible provider
+ *
+ * @interface OpenAICompatibleOptions
+ * @property {string} model - The vision model to call
+ * @property {string} [apiKey] - The API key (local servers usually accept any value)
+ * @property {string} [baseUrl] - The base URL of the endpoint
+ * @property {boolean} [supportsJsonMode=true] - Whether the endpoint understands `response_format`
+ * @property {number} [maxImageSize=1536] - The longest image side the model makes use of
+ */
+interface OpenAICompatibleOptions {
+  model: string;
+  apiKey?: string;
+  baseUrl?: string;
+  supportsJsonMode?: boolean;
+  maxImageSize?: number;
+}
+
+/**
+ * Vision provider for any endpoint that speaks the OpenAI chat completions API
+ *
+ * @class OpenAICompatibleVisionProvider
+ * @description Works with local servers such as Ollama, LM Studio or vLLM
+ * as long as they accept `image_url` content parts
+ */
+export class OpenAICompatibleVisionProvider implements VisionProvider {
+  readonly name: VisionProviderName = "openai-compatible";
+  readonly model: string;
+  readonly maxImageSize: number;
+
+  private readonly client: OpenAI;
+  private readonly supportsJsonMode: boolean;
+
+  constructor(options: OpenAICompatibleOptions) {
+    this.model = options.model;
+    this.supportsJsonMode = options.supportsJsonMode ?? true;
+    this.maxImageSize = options.maxImageSize ?? 1536;
+    this.client = new OpenAI({
+      apiKey: options.apiKey || "not-needed",
+      baseURL: options.baseUrl,
+    });
+  }
+
+  /**
+   * Sends the image and prompts to the chat completions endpoint
+   *
+   * With `onDelta` the answer is streamed and each chunk is reported as it arrives.
+   * With `signal` the HTTP request is cancelled on abort, so the tokens are no longer billed.
+   *
+   * @param {VisionRequest} request - The vision request
+   * @returns {Promise<VisionResponse>} The raw model output
+   *
+   * @throws {VisionProviderError} When the API call fails
+   */
+  async complete(request: VisionRequest): Promise<VisionResponse> {
+    const params = {
+      model: this.model,
+      messages: [
+        { role: "system" as const, content: request.systemPrompt },
+        {
+          role: "user" as const,
+          content: [
+            {
+              type: "image_url" as const,
+              image_url: { url: request.imageUrl, detail: request.detail }
+            },
+            { type: "text" as const, text: request.userPrompt }
+          ]
+        }
+      ],
+      ...(request.jsonMode && this.supportsJsonMode && {
+        response_format: { type: "json_object" as const }
+      }),
+      max_tokens: request.maxTokens,
+      temperature: request.temperature
+    };
+
+    try {
+      if (request.onDelta) {
+        return await this.completeStreaming(params, request.onDelta, request.signal);
+      }
+
+      const response = await this.client.chat.completions.create(params, { signal: request.signal });
+
+      if (!response.choices || response.choices.length === 0) {
+        throw new VisionProviderError(`No response received from ${this.name}`);
+      }
+
+      return {
+        content: response.choices[0].message.content,
+        finishReason: this.mapFinishReason(response.choices[0].finish_reason),
+        model: response.model || this.model
+      };
+    } catch (error) {
+      throw this.normalizeError(error);
+    }
+  }
+
+  /**
+   * Streams the answer and collects it into one response
+   *
+   * @private
+   * @param {OpenAI.ChatCompletionCreateParamsNonStreaming} params - The request parameters
+   * @param {function} onDelta - Called with each chunk of the answer
+   * @param {AbortSignal} [signal] - Cancels the request and the stream
+   * @returns {Promise<VisionResponse>} The complete model output
+   *
+   * @throws {VisionProviderError} When no choice was received
+   */
+  private async completeStreaming(
+    params: OpenAI.ChatCompletionCreateParamsNonStreaming,
+    onDelta: (text: string) => void,
+    signal?: AbortSignal
+  ): Promise<VisionResponse> {
+    const stream = await this.client.chat.completions.create({ ...params, stream: true }, { signal });
+
+    let content = "";
+    let finishReason: string | null = null;
+    let model = this.model;
+    let hasChoice = false;
+
+    for await (const chunk of stream) {
+      model = chunk.model || model;
+      const choice = chunk.choices?.[0];
+      if (!choice) continue;
+
+      hasChoice = true;
+      if (choice.delta?.content) {
+        content += choice.delta.content;
+        onDelta(choice.delta.content);
+      }
+      finishReason = choice.finish_reason ?? finishReason;
+    }
+
+    if (!hasChoice) {
+      throw new VisionProviderError(`No response received from ${this.name}`);
+    }
+
+    return {
+      content: content || null,
+      finishReason: this.mapFinishReason(finishReason),
+      model
+    };
+  }
+
+  /**
+   * Maps the OpenAI finish reason to the provider-neutral one
+   *
+   * @private
+   * @param {string | null} reason - The OpenAI finish reason
+   * @returns {VisionFinishReason} The normalized finish reason
+   */
+  private mapFinishReason(reason: string | null): VisionFinishReason {
+    switch (reason) {
+      case "stop":
+      case "length":
+      case "content_filter":
+        return reason;
+      default:
+        return "other";
+    }
+  }
+
+  /**
+   * Converts OpenAI SDK errors into VisionProviderError
+   *
+   * @private
+   * @param {unknown} error - The error object
+   * @returns {VisionProviderError} The normalized error
+   */
+  private normalizeError(error: unknown): VisionProviderError {
+    if (error instanceof VisionProviderError) return error;
+
+    if (error instanceof OpenAI.APIUserAbortError) {
+      return new VisionAbortedError(error.message);
+    }
+
+    if (error instanceof OpenAI.APIConnectionTimeoutError) {
+      return new VisionTimeoutError(error.message);
+    }
+
+    if (error instanceof OpenAI.APIError) {
+      const retryable = error.status === 429 || (error.status ?? 0) >= 500;
+      return new VisionProviderError(error.message, error.status, retryable);
+    }
+
+    return new VisionProviderError(
+      error instanceof Error ? error.message : "Unknown provider error"
+    );
+  }
+}
+
+/**
+ * Vision provider for the hosted OpenAI API
+ *
+ * @class OpenAIVisionProvider
+ * @extends OpenAICompatibleVisionProvider
+ */
+export class OpenAIVisionProvider extends OpenAICompatibleVisionProvider {
+  readonly name: VisionProviderName = "openai";
+
+  constructor(options: { model?: string; apiKey?: string; maxImageSize?: number }) {
+    if (!options.apiKey) {
+      throw new VisionProviderError("OPENAI_API_KEY is not set");
+    }
+
+    super({
+      model: options.model || "gpt-4o-mini",
+      apiKey: options.apiKey,
+      // High detail images are fitted into 2048x2048 by the API
+      maxImageSize: options.maxImageSize ?? 2048,
+    });
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * Error thrown by vision providers
+ *
+ * @class VisionProviderError
+ * @extends Error
+ * @property {number} [status] - The HTTP status returned by the upstream API
+ * @property {boolean} retryable - Whether the request may succeed if repeated
+ */
+export class VisionProviderError extends Error {
+  constructor(
+    message: string,
+    public status?: number,
+    public retryable = false
+  ) {
+    super(message);
+    this.name = "VisionProviderError";
+  }
+}
+
+/**
+ * Error thrown when the upstream vision API does not answer in time
+ *
+ * @class VisionTimeoutError
+ * @extends VisionProviderError
+ */
+export class VisionTimeoutError extends VisionProviderError {
+  constructor(message = "Vision provider request timed out") {
+    super(message, 504, false);
+    this.name = "VisionTimeoutError";
+  }
+}
+
+/**
+ * Error thrown when the caller aborts the request to the upstream vision API
+ *
+ * @class VisionAbortedError
+ * @extends VisionProviderError
+ */
+export class VisionAbortedError extends VisionProviderError {
+  constructor(message = "Vision provider request was aborted") {
+    super(message, 499, false);
+    this.name = "VisionAbortedError";
+  }
+}
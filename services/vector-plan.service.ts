@@ -0,0 +1,265 @@
+import sharp from "sharp";
+import { BoundingBox, Point, Room, RoomType } from "@/types/floor-analysis";
+import { ProcessedImage } from "@/types/image-preprocessing";
+import { DrawingPoint, VectorFormat, VectorGeometry, VectorPlan } from "@/types/vector-plan";
+import { parseDxf } from "@/lib/dxf-parser";
+import { parseSvg } from "@/lib/svg-parser";
+import { boundsOf, buildVectorPlan, findAdjacency } from "@/lib/vector-plan";
+import { createPlanScale, measureRoom } from "@/lib/measurements";
+
+/**
+ * Error for drawings that cannot be read
+ *
+ * @class VectorPlanError
+ * @extends Error
+ */
+export class VectorPlanError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "VectorPlanError";
+  }
+}
+
+/**
+ * Room types guessed from the room names, checked in order ("Master bath" is a bathroom)
+ */
+const ROOM_TYPE_PATTERNS: [RoomType, RegExp][] = [
+  ["bathroom", /bath|wc|toilet|shower|en-?suite|powder|lavatory|washroom/i],
+  ["laundry", /laundry|utility/i],
+  ["kitchen", /kitchen|kitchenette|cuisine|küche/i],
+  ["dining", /dining/i],
+  ["living", /living|lounge|family|salon/i],
+  ["bedroom", /bed|master|guest|nursery|chambre/i],
+  ["hallway", /hall|corridor|entry|entrance|foyer|lobby|landing/i],
+  ["office", /office|study|den\b|work/i],
+  ["storage", /storage|store|closet|pantry|wardrobe|garage/i],
+  ["balcony", /balcon|terrace|patio|deck|loggia|porch/i],
+  ["stairs", /stair/i],
+];
+
+/**
+ * Service for floor plans uploaded as DXF or SVG drawings
+ *
+ * @class VectorPlanService
+ * @description Reads the walls, doors, windows and labels of a drawing,
+ * works out its rooms, renders it to an image for the vision model and maps
+ * the exact geometry onto that image
+ */
+class VectorPlanService {
+  // Version of the parsing and rendering, bump when either changes (part of the cache key)
+  private readonly VERSION = 1;
+  // Empty border around the plan (fraction of the longest side)
+  private readonly MARGIN = 0.04;
+
+  /**
+   * Returns a string identifying the ingestion, used as part of the analysis cache key
+   *
+   * @param {number} maxSize - The longest side of the rendered image
+   * @returns {string} The version string
+   */
+  getVersion(maxSize: number): string {
+    return `vector${this.VERSION}@${maxSize}`;
+  }
+
+  /**
+   * Reads a drawing and renders it for the analysis
+   *
+   * The rooms come with their polygons, bounds and, when the drawing has a
+   * unit, their dimensions and the plan scale. Doors and windows are listed with
+   * the rooms they open to, and every pair of rooms sharing a wall with whether
+   * a door connects them. All coordinates refer to the rendered image.
+   *
+   * @param {ArrayBuffer} bytes - The uploaded file
+   * @param {VectorFormat} format - The drawing format
+   * @param {number} maxSize - The longest side of the rendered image
+   * @returns {Promise<{ image: ProcessedImage; geometry: VectorGeometry }>} The image and the geometry
+   *
+   * @throws {VectorPlanError} If the drawing cannot be read or has no walls
+   *
+   * @example
+   * ```typescript
+   * const { image, geometry } = await vectorPlanService.ingest(bytes, "dxf", 2048);
+   * const outcome = await aiAnalyzerService.analyzeImage(image.imageUrl, { geometry });
+   * ```
+   */
+  async ingest(
+    bytes: ArrayBuffer,
+    format: VectorFormat,
+    maxSize: number
+  ): Promise<{ image: ProcessedImage; geometry: VectorGeometry }> {
+    let plan: VectorPlan;
+    try {
+      const content = new TextDecoder().decode(bytes);
+      plan = buildVectorPlan(format === "dxf" ? parseDxf(content) : parseSvg(content), format);
+    } catch (error) {
+      throw new VectorPlanError(error instanceof Error ? error.message : "The drawing could not be read");
+    }
+
+    // Fit the walls and openings into the image, with the y axis pointing down
+    const { min, max } = boundsOf(plan.walls.flatMap(({ start, end }) => [start, end]));
+    const margin = maxSize * this.MARGIN;
+    const scale = (maxSize - 2 * margin) / Math.max(max.x - min.x, max.y - min.y);
+    const width = Math.round((max.x - min.x) * scale + 2 * margin);
+    const height = Math.round((max.y - min.y) * scale + 2 * margin);
+    const toPixels = ({ x, y }: DrawingPoint): DrawingPoint => ({
+      x: (x - min.x) * scale + margin,
+      y: (max.y - y) * scale + margin,
+    });
+    const toImage = (point: DrawingPoint): Point => {
+      const { x, y } = toPixels(point);
+      return { x: this.round(x / width), y: this.round(y / height) };
+    };
+
+    const { data } = await sharp(Buffer.from(this.renderSvg(plan, toPixels, width, height, maxSize)))
+      .png()
+      .toBuffer({ resolveWithObject: true });
+
+    const planScale = plan.metersPerUnit
+      ? createPlanScale({
+        source: "drawing",
+        label: `1 unit = 1 ${plan.unitName}`,
+        start: toImage({ x: min.x, y: min.y }),
+        end: toImage({ x: max.x, y: min.y }),
+        lengthMeters: (max.x - min.x) * plan.metersPerUnit,
+      }, { width, height })
+      : null;
+
+    const rooms: Room[] = plan.rooms.map(room => {
+      const polygon = room.polygon.map(toImage);
+      const mapped: Room = {
+        id: room.id,
+        type: ROOM_TYPE_PATTERNS.find(([, pattern]) => pattern.test(room.label))?.[0] ?? "other",
+        label: room.label,
+        bounds: this.boundsOf(polygon),
+        polygon,
+      };
+      return planScale ? { ...mapped, dimensions: measureRoom(mapped, planScale) } : mapped;
+    });
+
+    const { adjacency, openingRooms } = findAdjacency(plan);
+    const openings = plan.openings.map((opening, index) => ({
+      kind: opening.kind,
+      position: toImage({ x: (opening.start.x + opening.end.x) / 2, y: (opening.start.y + opening.end.y) / 2 }),
+      ...(plan.metersPerUnit && {
+        width: this.round(Math.hypot(opening.end.x - opening.start.x, opening.end.y - opening.start.y) * plan.metersPerUnit, 2),
+      }),
+      roomIds: openingRooms[index],
+    }));
+
+    return {
+      image: {
+        imageUrl: `data:image/png;base64,${data.toString("base64")}`,
+        width,
+        height,
+        originalWidth: width,
+        originalHeight: height,
+        steps: ["rasterize"],
+        skewAngle: 0,
+      },
+      geometry: {
+        rooms,
+        geometry: { source: format, openings, adjacency },
+        scale: planScale,
+      },
+    };
+  }
+
+  /**
+   * Draws the plan as an SVG image: black walls, door swings, blue windows and the labels
+   *
+   * @private
+   * @param {VectorPlan} plan - The plan geometry
+   * @param {function} toPixels - Maps drawing coordinates to pixels
+   * @param {number} width - The image width
+   * @param {number} height - The image height
+   * @param {number} size - The longest side the line widths are based on
+   * @returns {string} The SVG document
+   */
+  private renderSvg(
+    plan: VectorPlan,
+    toPixels: (point: DrawingPoint) => DrawingPoint,
+    width: number,
+    height: number,
+    size: number
+  ): string {
+    const stroke = Math.max(2, Math.round(size / 500));
+    const fontSize = Math.max(12, Math.round(size / 90));
+    const format = (value: number) => value.toFixed(1);
+    const line = (start: DrawingPoint, end: DrawingPoint) => {
+      const [a, b] = [toPixels(start), toPixels(end)];
+      return `M${format(a.x)} ${format(a.y)}L${format(b.x)} ${format(b.y)}`;
+    };
+
+    const walls = plan.walls.map(({ start, end }) => line(start, end)).join("");
+    const windows = plan.openings
+      .filter(opening => opening.kind === "window")
+      .map(({ start, end }) => line(start, end))
+      .join("");
+
+    // A door is drawn as its leaf standing open and the swing back to the wall
+    const doors = plan.openings
+      .filter(opening => opening.kind === "door")
+      .map(({ start, end }) => {
+        const [hinge, closed] = [toPixels(start), toPixels(end)];
+        const open = { x: hinge.x - (closed.y - hinge.y), y: hinge.y + (closed.x - hinge.x) };
+        const radius = Math.hypot(closed.x - hinge.x, closed.y - hinge.y);
+        return `M${format(hinge.x)} ${format(hinge.y)}L${format(open.x)} ${format(open.y)}` +
+          `A${format(radius)} ${format(radius)} 0 0 0 ${format(closed.x)} ${format(closed.y)}`;
+      })
+      .join("");
+
+    const labels = plan.labels.map(({ text, position }) => {
+      const { x, y } = toPixels(position);
+      return `<text x="${format(x)}" y="${format(y)}">${this.escape(text)}</text>`;
+    }).join("");
+
+    return [
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+      `<rect width="100%" height="100%" fill="#ffffff"/>`,
+      `<path d="${walls}" stroke="#000000" stroke-width="${stroke}" stroke-linecap="square" fill="none"/>`,
+      `<path d="${doors}" stroke="#444444" stroke-width="${Math.max(1, stroke / 2)}" fill="none"/>`,
+      `<path d="${windows}" stroke="#1d4ed8" stroke-width="${stroke * 2}" fill="none"/>`,
+      `<g font-family="sans-serif" font-size="${fontSize}" fill="#111111">${labels}</g>`,
+      `</svg>`,
+    ].join("");
+  }
+
+  /**
+   * Returns the bounding box of normalized points
+   *
+   * @private
+   * @param {Point[]} points - The points
+   * @returns {BoundingBox} The bounding box
+   */
+  private boundsOf(points: Point[]): BoundingBox {
+    const { min, max } = boundsOf(points);
+    return { x: min.x, y: min.y, width: this.round(max.x - min.x), height: this.round(max.y - min.y) };
+  }
+
+  /**
+   * Rounds a value, 4 decimals keep normalized coordinates below a pixel
+   *
+   * @private
+   * @param {number} value - The value
+   * @param {number} [decimals=4] - The number of decimals
+   * @returns {number} The rounded value
+   */
+  private round(value: number, decimals = 4): number {
+    const factor = 10 ** decimals;
+    return Math.round(value * factor) / factor;
+  }
+
+  /**
+   * Escapes text for an XML document
+   *
+   * @private
+   * @param {string} text - The text
+   * @returns {string} The escaped text
+   */
+  private escape(text: string): string {
+    return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+  }
+}
+
+// Export the instance of the service
+export const vectorPlanService = new VectorPlanService();
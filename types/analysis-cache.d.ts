@@ -0,0 +1,18 @@
+import { FloorPlanAnalysis } from "./floor-analysis";
+
+// Interfaces for the analysis cache
+
+export type AnalysisCacheBackendName = "memory" | "disk" | "off";
+
+export interface AnalysisCacheEntry {
+  analysis: FloorPlanAnalysis;
+  createdAt: number;
+  expiresAt: number;
+}
+
+export interface AnalysisCacheBackend {
+  get(key: string): Promise<AnalysisCacheEntry | null>;
+  set(key: string, entry: AnalysisCacheEntry): Promise<void>;
+  delete(key: string): Promise<boolean>;
+  clear(): Promise<void>;
+}
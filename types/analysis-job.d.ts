@@ -0,0 +1,57 @@
+import { AnalysisMode, AnalysisOutcome, PartialAnalysis, UnitSystem } from "./floor-analysis";
+import { ServerAnalysisStage } from "./analysis-progress";
+import { VectorFormat } from "./vector-plan";
+
+// A validated upload and its analysis options, read from the form fields
+
+export interface AnalysisRequest {
+  file: File;
+  mode: AnalysisMode;
+  samples?: number;
+  unitSystem: UnitSystem;
+  page: number;
+  isPdf: boolean;
+  vectorFormat: VectorFormat | null;
+}
+
+// Callbacks following a running analysis: its stages and the parts of the
+// analysis received while the model is still answering
+
+export interface AnalysisListeners {
+  onStage?: (stage: ServerAnalysisStage) => void;
+  onPartial?: (partial: PartialAnalysis) => void;
+}
+
+// Result of an analysis: the response body with its HTTP status and headers
+
+export interface AnalysisResult {
+  status: number;
+  body: { outcome?: AnalysisOutcome; error?: string };
+  headers?: Record<string, string>;
+}
+
+// State of an analysis job: waiting for a worker, running, or finished with
+// a successful (`done`) or failed (`failed`) result, or cancelled by the client
+
+export type AnalysisJobStatus = "queued" | "running" | "done" | "failed" | "cancelled";
+
+// An analysis job as reported by the status endpoint and the event stream
+
+export interface AnalysisJob {
+  id: string;
+  status: AnalysisJobStatus;
+  stage: ServerAnalysisStage;
+  // Progress in percent and, while queued, the number of jobs ahead
+  progress: number;
+  position?: number;
+  // The scores and recommendations received so far, while the model answers
+  partial?: PartialAnalysis;
+  // The status and body `/api/analyze` would have answered with, once finished
+  result?: {
+    status: number;
+    outcome?: AnalysisOutcome;
+    error?: string;
+  };
+  createdAt: number;
+  updatedAt: number;
+}
@@ -0,0 +1,32 @@
+import { AnalysisOutcome, PartialAnalysis } from "./floor-analysis";
+
+// Interfaces for following an analysis request from the upload to the result
+
+// The stages in order: the client uploads the file, the server receives it,
+// (for jobs) waits for a free worker, prepares the image, asks the model and
+// validates its answer
+
+export type AnalysisStage = "uploading" | "received" | "queued" | "preprocessing" | "analyzing" | "validating";
+
+// The stages the server reports
+
+export type ServerAnalysisStage = Exclude<AnalysisStage, "uploading">;
+
+// Progress reported to the caller of an analysis
+
+export interface AnalysisProgress {
+  stage: AnalysisStage;
+  // Bytes sent so far and the request size, while uploading
+  loaded?: number;
+  total?: number;
+}
+
+// One line of a streamed analysis response (`Accept: application/x-ndjson`):
+// stage events while the server works, partial events with the scores and
+// recommendations received so far, then the result with the HTTP status the
+// plain JSON response would have had
+
+export type AnalysisStreamEvent =
+  | { type: "stage"; stage: ServerAnalysisStage }
+  | { type: "partial"; analysis: PartialAnalysis }
+  | { type: "result"; status: number; outcome?: AnalysisOutcome; error?: string };
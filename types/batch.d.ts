@@ -0,0 +1,20 @@
+import { FloorPlanAnalysis } from "./floor-analysis";
+import { AnalysisProgress } from "./analysis-progress";
+
+// State of one plan in the batch queue
+
+export type BatchItemStatus = "queued" | "analyzing" | "done" | "failed" | "cancelled";
+
+// A plan of a batch upload, analyzed on its own (PDFs with their first page)
+
+export interface BatchItem {
+  id: string;
+  file: File;
+  status: BatchItemStatus;
+  progress: AnalysisProgress | null;
+  // Set once the plan is analyzed
+  analysis?: FloorPlanAnalysis;
+  imageUrl?: string;
+  // Why the analysis failed
+  error?: string;
+}
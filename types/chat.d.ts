@@ -1,9 +1,20 @@
+import { PromptUsage } from "./prompt";
+
+// Assistant messages keep the prompt versions their reply was generated with
+
 export interface ChatMessage {
   id: string | number;
   text: string;
   sender: "user" | "assistant";
   timestamp: number;
+  prompts?: PromptUsage[];
 }
 
 export type Message = ChatMessage;
 
+// Reply of the chat API
+
+export interface ChatReply {
+  text: string;
+  prompts: PromptUsage[];
+}
@@ -0,0 +1,54 @@
+import { FloorPlanAnalysis, Recommendation } from "./floor-analysis";
+
+// The two plans of a comparison: the existing layout and the proposal
+
+export type ComparisonSide = "before" | "after";
+
+export interface ComparisonPlan {
+  imageUrl: string;
+  originalImageUrl?: string;
+  analysis: FloorPlanAnalysis;
+}
+
+// Change of one rubric score between the existing layout and the proposal
+
+export type ScoreDelta = {
+  dimensionId: string;
+  label: string;
+  before: number;
+  after: number;
+  delta: number;
+}
+
+// A finding found in both plans
+
+export type UnchangedRecommendation = {
+  before: Recommendation;
+  after: Recommendation;
+}
+
+// Structured diff of two analyses scored with the same rubric
+
+export interface PlanComparison {
+  rubricId: string;
+  scores: ScoreDelta[];
+  overall: Omit<ScoreDelta, "dimensionId" | "label">;
+  area: {
+    before: number | null;
+    after: number | null;
+    delta: number | null;
+  };
+  recommendations: {
+    resolved: Recommendation[];
+    new: Recommendation[];
+    unchanged: UnchangedRecommendation[];
+  };
+}
+
+// Comparison sent to the chat
+
+export interface ComparisonChatContext {
+  before: FloorPlanAnalysis;
+  after: FloorPlanAnalysis;
+  diff: PlanComparison;
+}
@@ -1,23 +1,187 @@
+import { ProcessedImage } from "./image-preprocessing";
+import { PromptUsage } from "./prompt";
 
 // Interface for floor plan analysis
 
-type Priority = "high" | "medium" | "low";
+export type Priority = "high" | "medium" | "low";
 
-type Score = {
-  lighting: number;
-  space: number;
-  flow: number;
-  accessibility: number;
+// Scores by rubric dimension id (see lib/rubrics.ts)
+
+export type Score = Record<string, number>;
+
+// Explanation of a single score, confidence is between 0 and 1
+
+export type ScoreDetail = {
+  rationale: string;
+  evidence: string[];
+  confidence: number;
+}
+
+// Spread of one score across the samples of an ensemble analysis
+
+export type ScoreSpread = {
+  min: number;
+  max: number;
+  stdDev: number;
+}
+
+export type EnsembleSummary = {
+  samples: number;
+  spread: Record<string, ScoreSpread>;
+}
+
+export type RoomType =
+  | "living"
+  | "kitchen"
+  | "dining"
+  | "bedroom"
+  | "bathroom"
+  | "hallway"
+  | "office"
+  | "storage"
+  | "laundry"
+  | "balcony"
+  | "stairs"
+  | "other";
+
+// Coordinates are normalized to the image size (0-1, origin at the top left)
+
+export type Point = {
+  x: number;
+  y: number;
+}
+
+export type BoundingBox = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Units for measurements in prompts, answers and the UI (stored values are always metric)
+
+export type UnitSystem = "metric" | "imperial";
+
+// Real-world size of a room in meters and square meters
+
+export type RoomDimensions = {
+  width: number;
+  depth: number;
+  area: number;
+}
+
+export type Room = {
+  id: string;
+  type: RoomType;
+  label: string;
+  bounds: BoundingBox;
+  polygon?: Point[];
+  dimensions?: RoomDimensions;
+}
+
+export type ImageSize = {
+  width: number;
+  height: number;
+}
+
+// A line of known length on the plan, read from the plan or drawn by the user
+
+export type ScaleSource = "scale_bar" | "dimension_text" | "manual" | "drawing";
+
+export type ScaleReference = {
+  source: ScaleSource;
+  label: string;
+  start: Point;
+  end: Point;
+  lengthMeters: number;
 }
 
-type Recommendation = {
+// Scale of the plan, pixels are measured on the original image
+
+export type PlanScale = ScaleReference & {
+  pixelsPerMeter: number;
+  imageWidth: number;
+  imageHeight: number;
+}
+
+export type Recommendation = {
   area: string;
+  roomIds: string[];
   issue: string;
   suggestion: string;
   priority: Priority;
 }
 
+// Doors and windows of a plan read from a CAD or vector file, widths in meters
+
+export type OpeningKind = "door" | "window";
+
+export type PlanOpening = {
+  kind: OpeningKind;
+  position: Point;
+  width?: number;
+  roomIds: string[];
+}
+
+// Two rooms sharing a wall, connected when a door opens between them
+
+export type RoomAdjacency = {
+  roomIds: [string, string];
+  connected: boolean;
+}
+
+// Geometry taken from the drawing instead of the model (rooms keep their polygons)
+
+export type PlanGeometry = {
+  source: "dxf" | "svg";
+  openings: PlanOpening[];
+  adjacency: RoomAdjacency[];
+}
+
 export interface FloorPlanAnalysis {
+  rubricId: string;
+  unitSystem: UnitSystem;
   scores: Score;
+  scoreDetails: Record<string, ScoreDetail>;
+  rooms: Room[];
   recommendations: Recommendation[];
-}
\ No newline at end of file
+  ensemble?: EnsembleSummary;
+  scale?: PlanScale;
+  geometry?: PlanGeometry;
+  prompts?: PromptUsage[];
+}
+
+// The parts of an analysis received so far, while the model is still answering
+
+export type PartialAnalysis = {
+  rubricId: string;
+  scores?: Score;
+  recommendations: Recommendation[];
+}
+
+// Result of validating data against the analysis schema
+
+export type SchemaFieldError = {
+  path: string;
+  message: string;
+}
+
+export type SchemaResult<T> =
+  | { success: true; data: T }
+  | { success: false; errors: SchemaFieldError[] };
+
+// How the image is sent to the vision model
+
+export type AnalysisMode = "standard" | "high_fidelity";
+
+// Result of a single analysis attempt
+
+export type AnalysisFailureStatus =
+  | "not_floor_plan"
+  | "provider_error"
+  | "invalid_output"
+  | "timeout";
+
+export type AnalysisOutcome =
+  | { status: "ok"; analysis: FloorPlanAnalysis; image?: ProcessedImage }
+  | { status: AnalysisFailureStatus; message: string; errors?: SchemaFieldError[] };
@@ -0,0 +1,20 @@
+// Interfaces for the image preprocessing before analysis
+
+export type PreprocessingStep =
+  | "orient"
+  | "strip_metadata"
+  | "crop"
+  | "deskew"
+  | "normalize"
+  | "resize"
+  | "rasterize";
+
+export interface ProcessedImage {
+  imageUrl: string;
+  width: number;
+  height: number;
+  originalWidth: number;
+  originalHeight: number;
+  steps: PreprocessingStep[];
+  skewAngle: number;
+}
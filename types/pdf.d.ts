@@ -0,0 +1,8 @@
+// Interfaces for PDF floor plans
+
+export interface PdfPage {
+  number: number;
+  width: number;
+  height: number;
+  thumbnailUrl: string;
+}
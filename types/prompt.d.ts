@@ -0,0 +1,43 @@
+// Interfaces for the prompt registry
+
+// Who wrote a prompt version, when and why
+
+export interface PromptMetadata {
+  description: string;
+  createdAt: string;
+  author?: string;
+  notes?: string;
+}
+
+// One version of a prompt: its text with `{{variable}}` placeholders and the
+// variables it must be rendered with
+
+export interface PromptVersion {
+  version: string;
+  template: string;
+  variables: string[];
+  metadata: PromptMetadata;
+}
+
+// A prompt with all its versions. `variants` sends a percentage of the
+// requests to other versions (e.g. `{ "2": 10 }` for an A/B test of version 2),
+// the default version gets the rest
+
+export interface PromptDefinition {
+  id: string;
+  defaultVersion: string;
+  versions: PromptVersion[];
+  variants?: Record<string, number>;
+}
+
+// The prompt version a result was produced with
+
+export interface PromptUsage {
+  id: string;
+  version: string;
+}
+
+export interface RenderedPrompt {
+  text: string;
+  usage: PromptUsage;
+}
@@ -0,0 +1,60 @@
+import { BoundingBox, FloorPlanAnalysis, Priority } from "./floor-analysis";
+
+// One uploaded version of a floor plan, numbered from 1
+
+export interface PlanRevision {
+  number: number;
+  imageUrl: string;
+  originalImageUrl?: string;
+  analysis: FloorPlanAnalysis;
+  createdAt: number;
+}
+
+// A property groups the analyzed floors of one building, each floor keeps its revisions
+
+export interface PropertyFloor {
+  id: string;
+  label: string;
+  order: number;
+  revisions: PlanRevision[];
+  activeRevision: number;
+}
+
+// Room counts of one floor, used by the property-level pass
+
+export interface FloorSummary {
+  floorId: string;
+  label: string;
+  order: number;
+  bedrooms: number;
+  bathrooms: number;
+  livingRooms: number;
+  stairs: BoundingBox | null;
+  area: number | null;
+}
+
+// Finding that concerns one or more floors rather than a single room
+
+export interface PropertyFinding {
+  floorIds: string[];
+  issue: string;
+  suggestion: string;
+  priority: Priority;
+}
+
+export interface PropertyAnalysis {
+  floors: FloorSummary[];
+  findings: PropertyFinding[];
+}
+
+// Property sent to the chat, floors without their images
+
+export interface PropertyChatContext {
+  activeFloor: string;
+  floors: {
+    label: string;
+    order: number;
+    analysis: FloorPlanAnalysis;
+  }[];
+  summary: PropertyAnalysis;
+}
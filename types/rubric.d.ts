@@ -0,0 +1,14 @@
+// Interfaces for the scoring rubric
+
+export interface RubricDimension {
+  id: string;
+  label: string;
+  description: string;
+  prompt: string;
+}
+
+export interface Rubric {
+  id: string;
+  label: string;
+  dimensions: RubricDimension[];
+}
@@ -0,0 +1,70 @@
+import { OpeningKind, PlanGeometry, PlanScale, Room } from "./floor-analysis";
+
+// Interfaces for floor plans uploaded as CAD (DXF) or vector (SVG) drawings
+
+export type VectorFormat = "dxf" | "svg";
+
+// Coordinates are in drawing units with the y axis pointing up
+
+export type DrawingPoint = {
+  x: number;
+  y: number;
+}
+
+// What a drawing element is, read from its layer or group name
+
+export type DrawingLayerKind = "wall" | "door" | "window" | "room" | "annotation" | "other";
+
+// An element of the drawing, curves are flattened to points
+
+export type DrawingEntity =
+  | { kind: "path"; layer: string; points: DrawingPoint[]; closed: boolean }
+  | { kind: "text"; layer: string; text: string; position: DrawingPoint };
+
+export interface Drawing {
+  entities: DrawingEntity[];
+  metersPerUnit: number | null;
+  unitName: string | null;
+}
+
+export type DrawingSegment = {
+  start: DrawingPoint;
+  end: DrawingPoint;
+}
+
+// A door or window as the line across its opening in the wall
+
+export type DrawingOpening = DrawingSegment & {
+  kind: OpeningKind;
+}
+
+export type DrawingLabel = {
+  text: string;
+  position: DrawingPoint;
+}
+
+export type DrawingRoom = {
+  id: string;
+  label: string;
+  polygon: DrawingPoint[];
+}
+
+// The classified geometry of a plan
+
+export interface VectorPlan {
+  format: VectorFormat;
+  metersPerUnit: number | null;
+  unitName: string | null;
+  walls: DrawingSegment[];
+  openings: DrawingOpening[];
+  labels: DrawingLabel[];
+  rooms: DrawingRoom[];
+}
+
+// Geometry mapped onto the rendered image, handed to the analysis
+
+export interface VectorGeometry {
+  rooms: Room[];
+  geometry: PlanGeometry;
+  scale: PlanScale | null;
+}
@@ -0,0 +1,46 @@
+// Interfaces for the vision providers used by the analyzer
+
+export type VisionDetail = "low" | "high" | "auto";
+
+export type VisionFinishReason = "stop" | "length" | "content_filter" | "other";
+
+export type VisionProviderName = "openai" | "openai-compatible" | "fixture";
+
+// With onDelta the provider streams the answer and reports each chunk of its text as it arrives,
+// the response still holds the complete content. With signal the upstream call is abandoned on abort
+
+export interface VisionRequest {
+  systemPrompt: string;
+  userPrompt: string;
+  imageUrl: string;
+  detail: VisionDetail;
+  maxTokens: number;
+  temperature: number;
+  jsonMode: boolean;
+  onDelta?: (text: string) => void;
+  signal?: AbortSignal;
+}
+
+export interface VisionResponse {
+  content: string | null;
+  finishReason: VisionFinishReason;
+  model: string;
+}
+
+// maxImageSize is the longest image side (pixels) the model makes use of, larger images are wasted
+
+export interface VisionProvider {
+  readonly name: VisionProviderName;
+  readonly model: string;
+  readonly maxImageSize: number;
+  complete(request: VisionRequest): Promise<VisionResponse>;
+}
+
+export interface VisionProviderConfig {
+  provider: VisionProviderName;
+  model?: string;
+  apiKey?: string;
+  baseUrl?: string;
+  fixturesDir?: string;
+  maxImageSize?: number;
+}